@@ -0,0 +1,173 @@
+import { uint8ArrayToString } from '../utils/utils-buffers';
+import { ZplCommandSet } from './command-set';
+import { ZplCommandTemplate, ZplCommandParams } from './command-template';
+import * as ZplCommands from './index';
+
+/**
+ * Commands whose data runs up to the next caret, tildes being allowed in the data.
+ */
+const FreeTextCommands = new Set([ '^FD', '^FV', '^FX' ]);
+
+/**
+ * Registry of every command template by (uppercase) mnemonic, templates sharing a mnemonic
+ * (e.g. "^A" for scalable and bitmapped fonts) are tried in order.
+ */
+const ZplCommandRegistry = new Map<string, ZplCommandTemplate<any>[]>();
+for (const template of Object.values(ZplCommands)) {
+	if (!(template instanceof ZplCommandTemplate) || !/^[\^~]/.test(template.mnemonic)) continue;
+
+	const mnemonic = template.mnemonic.toUpperCase();
+	ZplCommandRegistry.set(mnemonic, [ ...(ZplCommandRegistry.get(mnemonic) ?? []), template ]);
+}
+const MaxMnemonicLength = Math.max(...[ ...ZplCommandRegistry.keys() ].map(mnemonic => mnemonic.length));
+
+/**
+ * Finds the mnemonic of a registered command at a position of the ZPL, longest mnemonics first.
+ *
+ * @param zpl - ZPL text
+ * @param index - position of the command prefix (^ or ~)
+ * @returns the registered mnemonic, if any
+ */
+function matchMnemonic(zpl : string, index : number) : void | string {
+	for (let length = MaxMnemonicLength; length > 1; length--) {
+		const mnemonic = zpl.substr(index, length).toUpperCase();
+		if (ZplCommandRegistry.has(mnemonic)) return mnemonic;
+	}
+}
+
+/**
+ * Finds the position of the next command prefix (^ or ~).
+ *
+ * @param zpl - ZPL text
+ * @param from - position to search from
+ * @param carets - whether to only search for carets
+ * @returns the position of the next command, or the length of the ZPL
+ */
+function nextCommandIndex(zpl : string, from : number, carets : boolean = false) : number {
+	for (let i = from, ilen = zpl.length; i < ilen; i++) {
+		if (zpl[i] === '^' || (!carets && zpl[i] === '~')) return i;
+	}
+	return zpl.length;
+}
+
+/**
+ * Finds the end of a command, reading binary data by its byte count for graphic fields (^GF)
+ * and downloaded objects (~DY), since binary data may contain command prefixes.
+ *
+ * @param zpl - ZPL text
+ * @param index - position of the command
+ * @param mnemonic - uppercase mnemonic of the command
+ * @returns object.end - the position after the command
+ * @returns object.isBinary - whether the command ends with binary data
+ */
+function commandEnd(zpl : string, index : number, mnemonic : string) : { end : number, isBinary : boolean } {
+	const start = index + mnemonic.length;
+	if (FreeTextCommands.has(mnemonic)) return { end : nextCommandIndex(zpl, start, true), isBinary : false };
+
+	const header = (mnemonic === '^GF') ? /^([ABC]),([0-9]+),[0-9]*,[0-9]*,/i
+	             : (mnemonic === '~DY') ? /^[^:,^~]*:[^,^~]*,([ABCP]),[^,^~]*,([0-9]+),[0-9]*,/i
+	             : undefined;
+	const match = header?.exec(zpl.substr(start, 64));
+	if (match && /^[BC]$/i.test(match[1])) {
+		return { end : Math.min(zpl.length, start + match[0].length + parseInt(match[2], 10)), isBinary : true };
+	}
+
+	return { end : nextCommandIndex(zpl, start), isBinary : false };
+}
+
+/**
+ * Parses ZPL into a command set. Each command is matched against the templates of the
+ * known commands and its parameters are read into a params object. Unknown commands and text
+ * between commands (e.g. line breaks) are kept as raw data, and commands are kept with their
+ * source text whenever their template does not reproduce it exactly, so that the command set
+ * serializes back to the original ZPL byte-for-byte.
+ *
+ * Assumes the default command prefixes (^ and ~), field data runs up to the next caret.
+ *
+ * @param zpl - ZPL text, or a buffer
+ * @returns a command set of the ZPL
+ */
+export function parseZpl(zpl : string | Uint8Array) : ZplCommandSet {
+	const text = (typeof zpl === 'string') ? zpl : uint8ArrayToString(zpl);
+	const commandSet = new ZplCommandSet();
+
+	const addRawData = (data : string) => {
+		if (data) commandSet.runCommand(ZplCommands.ZplRawData, { data });
+	};
+
+	let index = 0;
+	while (index < text.length) {
+		const char = text[index];
+		if (char !== '^' && char !== '~') {
+			const end = nextCommandIndex(text, index);
+			addRawData(text.slice(index, end));
+			index = end;
+			continue;
+		}
+
+		const mnemonic = matchMnemonic(text, index);
+		if (!mnemonic) {
+			const end = nextCommandIndex(text, index + 1);
+			addRawData(text.slice(index, end));
+			index = end;
+			continue;
+		}
+
+		const { end, isBinary } = commandEnd(text, index, mnemonic);
+		const templates = ZplCommandRegistry.get(mnemonic);
+
+		// Trailing line breaks (and whitespace, outside of field data) are formatting, not part of the command
+		let source = text.slice(index, end);
+		const trailing = isBinary ? '' : (FreeTextCommands.has(mnemonic) ? /[\r\n]*$/ : /\s*$/).exec(source)[0];
+		source = source.slice(0, source.length - trailing.length);
+
+		// Commands without parameters do not take the following text
+		let rest = '';
+		if (!templates[0].paramSchema) {
+			rest = source.slice(mnemonic.length);
+			source = source.slice(0, mnemonic.length);
+		}
+
+		commandSet.addCommand(parseCommand(templates, source, mnemonic.length));
+		addRawData(rest + trailing);
+		index = end;
+	}
+
+	return commandSet;
+}
+
+/**
+ * Reads a command with the first template that fits its source text.
+ *
+ * @param templates - templates sharing the mnemonic of the command
+ * @param source - source text of the command
+ * @param mnemonicLength - length of the mnemonic of the command
+ * @returns the command, with its source text when the template does not reproduce it
+ */
+function parseCommand(templates : ZplCommandTemplate<any>[], source : string, mnemonicLength : number) {
+	const candidates = templates.map(schema => {
+		const params : ZplCommandParams = schema.parseParams(source.slice(mnemonicLength));
+		let isValid = true;
+		try {
+			schema.validateParams(params);
+		}
+		catch (e) {
+			isValid = false;
+		}
+
+		// Field data with command prefixes is rejected by the template, and kept as its source text
+		let isExact = false;
+		try {
+			isExact = (schema.getCommandString(params) === source);
+		}
+		catch (e) {
+			isExact = false;
+		}
+		return { schema, params, isValid, isExact };
+	});
+
+	const { schema, params, isExact } = candidates.find(({ isValid, isExact }) => isValid && isExact)
+		?? candidates.find(({ isValid }) => isValid)
+		?? candidates[0];
+	return isExact ? { schema, params } : { schema, params, raw : source };
+}
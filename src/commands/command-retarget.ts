@@ -0,0 +1,131 @@
+import { ZplCommandSet, ZplCommand } from './command-set';
+import { ZplCommandTemplate } from './command-template';
+import { ZplParameterTypeIntegerRange } from './param-types';
+import * as ZplCommands from './index';
+
+/**
+ * Parameters in dots of each command that can be retargeted, scaled to the nearest dot.
+ */
+const DotParameters = new Map<ZplCommandTemplate<any>, string[]>([
+	[ ZplCommands.ZplFieldOrigin,           [ 'x', 'y' ] ],
+	[ ZplCommands.ZplGraphicBox,            [ 'w', 'h', 't' ] ],
+	[ ZplCommands.ZplGraphicCircle,         [ 'd', 't' ] ],
+	[ ZplCommands.ZplGraphicEllipse,        [ 'w', 'h', 't' ] ],
+	[ ZplCommands.ZplGraphicDiagonalLine,   [ 'w', 'h', 't' ] ],
+	[ ZplCommands.ZplScalableFont,          [ 'h', 'w' ] ],
+	[ ZplCommands.ZplBitmappedFont,         [ 'h', 'w' ] ],
+	[ ZplCommands.ZplUseFontNameToCallFont, [ 'h', 'w' ] ],
+	[ ZplCommands.ZplBarCodeFieldDefault,   [ 'h' ] ],
+	[ ZplCommands.ZplInterleaved2of5BarCode, [ 'h' ] ],
+	[ ZplCommands.ZplCode39BarCode,         [ 'h' ] ],
+	[ ZplCommands.ZplPDF417BarCode,         [ 'h' ] ],
+	[ ZplCommands.ZplCode128BarCode,        [ 'h' ] ],
+	[ ZplCommands.ZplEAN13BarCode,          [ 'h' ] ],
+	[ ZplCommands.ZplUPCABarCode,           [ 'h' ] ],
+	[ ZplCommands.ZplFieldBlock,            [ 'a', 'c', 'e' ] ],
+	[ ZplCommands.ZplFieldParameter,        [ 'g' ] ],
+	[ ZplCommands.ZplLabelLength,           [ 'y' ] ],
+	[ ZplCommands.ZplPrintWidth,            [ 'a' ] ],
+	[ ZplCommands.ZplLabelHome,             [ 'x', 'y' ] ],
+	[ ZplCommands.ZplLabelShift,            [ 'a' ] ],
+	[ ZplCommands.ZplLabelTop,              [ 'x' ] ],
+]);
+
+/**
+ * Parameters in modules of each command that can be retargeted, which only print at the same size
+ * when the scaled value is a whole number of dots.
+ */
+const ModuleParameters = new Map<ZplCommandTemplate<any>, string[]>([
+	[ ZplCommands.ZplBarCodeFieldDefault, [ 'w' ] ],
+	[ ZplCommands.ZplQRCodeBarCode,       [ 'c' ] ],
+	[ ZplCommands.ZplAztecBarCode,        [ 'b' ] ],
+	[ ZplCommands.ZplDataMatrixBarCode,   [ 'h' ] ],
+]);
+
+/**
+ * Commands drawing bitmaps, which cannot be retargeted.
+ */
+const BitmapCommands = new Set<ZplCommandTemplate<any>>([
+	ZplCommands.ZplGraphicField,
+	ZplCommands.ZplRecallGraphic,
+	ZplCommands.ZplImageLoad,
+	ZplCommands.ZplImageMove,
+]);
+
+/**
+ * Element of a retargeted command set that does not print at exactly the same size.
+ */
+export type ZplRetargetIssue = {
+	index   : number;
+	command : string;
+	message : string;
+};
+
+/**
+ * Scales the dot parameters of a command set written for one printer resolution to another, so that
+ * a label built for a 203 dpi printer prints at the same size on a 300 dpi printer (or the reverse).
+ * Positions, sizes, font sizes and the label size are scaled to the nearest dot, module widths (^BY)
+ * and QR code magnifications to the nearest valid value. Elements that cannot be scaled exactly
+ * (module widths that are not a whole number of dots, values out of range, bitmaps, other parameters in
+ * dots) are reported.
+ *
+ * @param source - commands written for fromDpi, or a label (see ZplLabel.toCommandSet)
+ * @param fromDpi - resolution the commands are written for
+ * @param toDpi - resolution to write the commands for
+ * @returns object.commandSet - the retargeted commands
+ * @returns object.issues - the elements that cannot be scaled exactly, by index of the command
+ * @throws a RangeError if a resolution is not a positive number
+ */
+export function retargetDpi(source : ZplCommandSet | { toCommandSet() : ZplCommandSet }, fromDpi : number, toDpi : number) : { commandSet : ZplCommandSet, issues : ZplRetargetIssue[] } {
+	if (!(fromDpi > 0) || !(toDpi > 0)) throw new RangeError(`Invalid resolutions ${fromDpi} and ${toDpi}, should be positive numbers`);
+
+	const commandSet = (source instanceof ZplCommandSet) ? source : source.toCommandSet();
+	const scale = toDpi / fromDpi;
+	const retargeted = new ZplCommandSet();
+	const issues : ZplRetargetIssue[] = [];
+
+	commandSet.getCommands().forEach((command : ZplCommand<any>, index) => {
+		const { schema } = command;
+		const report = (message : string) => issues.push({ index, command : schema.mnemonic, message });
+
+		if (BitmapCommands.has(schema)) {
+			report('bitmaps are not scaled');
+			retargeted.addCommand(command);
+			return;
+		}
+
+		const dotParameters    = DotParameters.get(schema) ?? [];
+		const moduleParameters = ModuleParameters.get(schema) ?? [];
+		const scaled = [ ...dotParameters, ...moduleParameters ].filter(key => typeof command.params?.[key] === 'number');
+
+		// any other parameter in dots prints at a different size
+		Object.entries(schema.paramSchema ?? {})
+			.filter(([ key, { description } ]) => /\(in dot/.test(description ?? '') && typeof command.params?.[key] === 'number' && !scaled.includes(key))
+			.forEach(([ key, { description } ]) => report(`${description} ${command.params[key]} is not scaled`));
+
+		if (!scaled.length) {
+			retargeted.addCommand(command);
+			return;
+		}
+
+		const params = { ...command.params };
+		for (const key of scaled) {
+			const exact = params[key] * scale;
+			const range = schema.paramSchema[key].type;
+			const value = (range instanceof ZplParameterTypeIntegerRange)
+				? Math.min(range.max, Math.max(range.min, Math.round(exact)))
+				: Math.round(exact);
+
+			if (moduleParameters.includes(key) && Math.abs(value - exact) > 1e-9) {
+				report(`${schema.paramSchema[key].description ?? key} ${params[key]} scales to ${Math.round(exact * 100) / 100}, rounded to ${value}`);
+			}
+			else if (Math.abs(value - exact) > 0.5) {
+				report(`${schema.paramSchema[key].description ?? key} ${params[key]} scales to ${Math.round(exact * 100) / 100}, out of range (${value})`);
+			}
+			params[key] = value;
+		}
+		retargeted.runCommand(schema, params);
+	});
+
+	return { commandSet : retargeted, issues };
+}
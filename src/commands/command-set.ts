@@ -1,7 +1,13 @@
-import { concatUint8Arrays } from "../utils/utils-buffers";
+import { concatUint8Arrays, stringToUint8Array } from "../utils/utils-buffers";
+import { ZplEncoding, encodeString } from "../utils/utils-code-pages";
 import { ZplCommandTemplate, ZplCommandParams } from "./command-template";
 
-type ZplCommand<T extends ZplCommandParams> = { schema : ZplCommandTemplate<T>, params : T }
+/**
+ * A command of a command set. Commands read from existing ZPL keep their source text as raw,
+ * which is used instead of the params when serializing the command, so that commands the template
+ * does not reproduce exactly (e.g. lowercase or omitted parameters) are kept byte-for-byte.
+ */
+export type ZplCommand<T extends ZplCommandParams> = { schema : ZplCommandTemplate<T>, params : T, raw? : string }
 export class ZplCommandSet {
 	private _zpl : Array<ZplCommand<any>>;
 
@@ -21,6 +27,26 @@ export class ZplCommandSet {
 		return this;
 	}
 
+	/**
+	 * Adds a command (e.g. one read from existing ZPL) to the set of commands
+	 * 
+	 * @param command - command, with its raw source text if any
+	 * @returns this object, for chaining
+	 */
+	addCommand<T extends ZplCommandParams>(command : ZplCommand<T>) {
+		this._zpl.push({ ...command });
+		return this;
+	}
+
+	/**
+	 * Lists the commands of this command set, in order
+	 * 
+	 * @returns a copy of the list of commands
+	 */
+	getCommands() : Array<ZplCommand<any>> {
+		return this._zpl.slice();
+	}
+
 	/**
 	 * Converts command set into a string
 	 * 
@@ -28,16 +54,22 @@ export class ZplCommandSet {
 	 */
   getCommandString() : string {
 		return this._zpl
-			.map(({ schema, params }) => schema.getCommandString(params))
+			.map(({ schema, params, raw }) => raw ?? schema.getCommandString(params))
 			.join('');
     }
 
 	/**
-	 * Converts command set into a buffer
+	 * Converts command set into a buffer. Raw commands are written one byte per character (as read
+	 * from existing ZPL), except for raw field data when an encoding is provided.
 	 * 
+	 * @param encoding - character encoding of field data (defaults to one byte per character)
 	 * @returns command set in buffer form
+	 * @throws a ZplEncodingError if field data contains characters that the encoding cannot represent
 	 */
-	getCommandBuffer() : Uint8Array {
-		return concatUint8Arrays(...this._zpl.map(({ schema, params }) => schema.getCommandBuffer(params)));
+	getCommandBuffer(encoding? : ZplEncoding) : Uint8Array {
+		return concatUint8Arrays(...this._zpl.map(({ schema, params, raw }) => {
+			if (raw === undefined) return schema.getCommandBuffer(params, encoding);
+			return (encoding && schema.hasFieldData()) ? encodeString(raw, encoding) : stringToUint8Array(raw);
+		}));
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,6 @@
-import { ZplParameterType, ZplParameterTypeIntegerRange, ZplParameterTypeAlphanumericString, ZplParameterTypeBooleanValue } from './param-types';
+import { ZplParameterType, ZplParameterTypeIntegerRange, ZplParameterTypeAlphanumericString, ZplParameterTypeBooleanValue, ZplParameterTypeFieldData } from './param-types';
 import { stringToUint8Array, uint8ArrayToString } from '../utils/utils-buffers';
+import { ZplEncoding, encodeString } from '../utils/utils-code-pages';
 
 type ArrayOrJust<T> = T[] | T;
 
@@ -21,7 +22,7 @@ type ZplCommandParamsSchema<T extends ZplCommandParams> = {
 	[K in keyof T] : {
 		readonly type         : boolean    extends T[K] ? ZplParameterTypeBooleanValue
 													: number     extends T[K] ? 'number' | ZplParameterTypeIntegerRange
-													: string     extends T[K] ? ArrayOrJust<'string' | RegExp | Set<string> | ZplParameterTypeAlphanumericString>
+													: string     extends T[K] ? ArrayOrJust<'string' | RegExp | Set<string> | ZplParameterTypeAlphanumericString | ZplParameterTypeFieldData>
 													: Uint8Array extends T[K] ? 'binary'
 													: T[K]       extends string | undefined ? Set<Exclude<T[K], undefined>> // this type conditional is for literal types
 													: never;
@@ -61,6 +62,7 @@ class ZplCommandParamsValidationError<T extends ZplCommandParams> extends Error
  */
 export class ZplCommandTemplate<T extends ZplCommandParams> {
 	readonly command : string;
+	readonly mnemonic : string;
 	readonly paramSchema? : ZplCommandParamsSchema<T>;
 	private readonly _commandSchema : string[];
 
@@ -72,12 +74,54 @@ export class ZplCommandTemplate<T extends ZplCommandParams> {
 			this._commandSchema = [ command ]
 		}
 		else {
-			const paramKeys = Object.keys(schema);
+			// Longer keys are matched first, so that keys like "data" are not split by keys like "d" and "a"
+			const paramKeys = Object.keys(schema).sort((a, b) => b.length - a.length);
 			const RE = new RegExp(`(${paramKeys.join('|')})`);
 	
 			// Command schema is an array of alternating string parts (odd indicies) and key lookups (even indicies)
 			this._commandSchema = command.split(RE);
 		}
+
+		// Mnemonic is the literal part before the first parameter (e.g. "^FO" for "^FOx,y,z")
+		this.mnemonic = this._commandSchema[0];
+	}
+
+	/**
+	 * Reads the parameters of this command from the text following its mnemonic, the reverse
+	 * of getCommandString. Parameters are read up to the separator that follows them in the
+	 * schema, the last parameter takes the rest of the text, and omitted parameters are left
+	 * undefined. Values that do not fit the type of the parameter are kept as strings.
+	 * 
+	 * @param text - parameters of the command (e.g. "10,20,0" for "^FO10,20,0")
+	 * @returns parameters object
+	 */
+	parseParams(text : string) : T {
+		const params = {} as ZplCommandParams;
+
+		let position = 0;
+		for (let i = 1, ilen = this._commandSchema.length; i < ilen && position <= text.length; i += 2) {
+			const key       = this._commandSchema[i];
+			const separator = this._commandSchema[i + 1];
+			const isLast    = (i + 2 >= ilen);
+
+			let end : number;
+			if (isLast) {
+				end = separator && text.endsWith(separator) ? text.length - separator.length : text.length;
+			}
+			else if (!separator) {
+				end = Math.min(position + 1, text.length); // parameters without a separator are a single character
+			}
+			else {
+				end = text.indexOf(separator, position);
+				if (end === -1) end = text.length;
+			}
+
+			const value = parseZplParameterValue(this.paramSchema?.[key]?.type, text.slice(position, end));
+			if (value !== undefined) params[key] = value;
+			position = end + separator.length;
+		}
+
+		return params as T;
 	}
 
 	/**
@@ -110,10 +154,16 @@ export class ZplCommandTemplate<T extends ZplCommandParams> {
 	/**
 	 * Applies a set of arguments to this command's schema.
 	 * 
+	 * Field data is encoded in the character encoding of the label (see ^CI), other parameters are
+	 * written one byte per character.
+	 * 
 	 * @param values - parameters, in order of the definition provided in the schema 
+	 * @param encoding - character encoding of field data (defaults to one byte per character)
 	 * @returns a buffer (unit8array) representing the command with the given parameters
+	 * @throws a TypeError if field data contains command prefixes, which would inject commands
+	 * @throws a ZplEncodingError if field data contains characters that the encoding cannot represent
 	 */
-	getCommandBuffer(params : T) : Uint8Array {
+	getCommandBuffer(params : T, encoding? : ZplEncoding) : Uint8Array {
 		let size = 0;
 		let parts: Uint8Array[] = [];
 
@@ -123,12 +173,16 @@ export class ZplCommandTemplate<T extends ZplCommandParams> {
 			const isParameter = (i % 2 === 1);
 			if (isParameter) {
 				const key    = this._commandSchema[i];
-				const schema = this.paramSchema?.[key];
+				const schema = this.paramSchema?.[key]?.type;
 				const value  = params[key] ?? '';
+				assertSafeFieldData(schema, key, value);
 
 				if (value instanceof Uint8Array) {
 					part = value;
 				}
+				else if (typeof value === 'string' && schema instanceof ZplParameterTypeFieldData) {
+					part = encodeString(value, encoding);
+				}
 				else if (typeof value === 'boolean' && schema instanceof ZplParameterTypeBooleanValue) {
 					part = stringToUint8Array(value ? schema.t : schema.f);
 				}
@@ -154,11 +208,22 @@ export class ZplCommandTemplate<T extends ZplCommandParams> {
 		return buffer;
 	}
 
+	/**
+	 * Whether this command carries field data (e.g. ^FD, ^FV), which is encoded in the character
+	 * encoding of the label.
+	 * 
+	 * @returns true if a parameter of this command is field data
+	 */
+	hasFieldData() : boolean {
+		return Object.values(this.paramSchema ?? {}).some(({ type }) => type instanceof ZplParameterTypeFieldData);
+	}
+
 	/**
 	 * Applies a set of arguments to this command's schema.
 	 * 
 	 * @param params - parameters, in order of the definition provided in the schema 
 	 * @returns a string representing the command with the given parameters
+	 * @throws a TypeError if field data contains command prefixes, which would inject commands
 	 */
 	getCommandString(params : T) : string {
 		const parts: string[] = [];
@@ -166,8 +231,10 @@ export class ZplCommandTemplate<T extends ZplCommandParams> {
 			const isParameter = (i % 2 === 1);
 			if (isParameter) {
 				const key    = this._commandSchema[i];
-				const schema = this.paramSchema?.[key];
+				const schema = this.paramSchema?.[key]?.type;
 				const value  = params[key] ?? '';
+				assertSafeFieldData(schema, key, value);
+
 				if (value instanceof Uint8Array) {
 					parts.push(uint8ArrayToString(value));
 				}
@@ -196,6 +263,47 @@ export class ZplCommandTemplate<T extends ZplCommandParams> {
 	}
 }
 
+/**
+ * Helper function that prevents field data (^FD, ^FV) from ending its command early: a command prefix
+ * in the data would end the field and run the rest of the data as commands. Field data containing
+ * command prefixes has to be escaped with ^FH, or added to a command set as raw ZPL.
+ * 
+ * @param type - the zpl type schema of the parameter
+ * @param key - key of the parameter, for the error message
+ * @param value - the value of the parameter
+ * @throws a TypeError if the value is field data that contains command prefixes
+ */
+function assertSafeFieldData(type : void | ArrayOrJust<ZplCommandParamsSchemaType>, key : string, value : unknown) {
+	if (!(type instanceof ZplParameterTypeFieldData)) return;
+
+	const error = type.validate(value instanceof Uint8Array ? uint8ArrayToString(value) : value);
+	if (error) throw new TypeError(`Invalid parameter "${key}" (${error})`);
+}
+
+/**
+ * Helper function that reads a single value of a command from text, based on its parameter schema.
+ * 
+ * @param type - the zpl type schema of the parameter
+ * @param text - text of the parameter in the command
+ * @returns the value, undefined when the parameter is omitted, or the text itself when it does not fit the type
+ */
+function parseZplParameterValue(type : void | ArrayOrJust<ZplCommandParamsSchemaType>, text : string) : undefined | string | number | boolean | Uint8Array {
+	if (text === '') return;
+
+	if (type instanceof ZplParameterTypeBooleanValue) {
+		if (text === type.t) return true;
+		if (text === type.f) return false;
+	}
+	else if (type === 'number' || type instanceof ZplParameterTypeIntegerRange) {
+		if (/^-?[0-9]+(\.[0-9]+)?$/.test(text)) return Number(text);
+	}
+	else if (type === 'binary') {
+		return stringToUint8Array(text);
+	}
+
+	return text;
+}
+
 /**
  * Helper function that validates a single value against a single parameter schema.
  * 
@@ -1,5 +1,5 @@
 import { ZplCommandTemplate } from './command-template';
-import { Alphanumeric, AlphanumericOfLength, IntegerBetween, OneOf, ZplParameterTypeBooleanValue } from './param-types';
+import { Alphanumeric, AlphanumericOfLength, FieldDataString, IntegerBetween, OneOf, ZplParameterTypeBooleanValue } from './param-types';
 
 type DriveLocation = 'R'|'E'|'B'|'A';
 type FieldOrientation = 'N'|'R'|'I'|'B';
@@ -49,6 +49,64 @@ export const ZplUseFontNameToCallFont = new ZplCommandTemplate<{
 });
 
 // B Class Commands (Barcodes)
+export const ZplAztecBarCode = new ZplCommandTemplate<{
+	a? : FieldOrientation,
+	b? : number,
+	c? : boolean,
+	d? : number,
+	e? : boolean,
+	f? : number,
+	g? : string,
+}>('^B0a,b,c,d,e,f,g', {
+	a : { type : FieldOrientations,      description : 'orientation' },
+	b : { type : IntegerBetween(1, 10),  description : 'magnification factor' },
+	c : { type : YesOrNo,                description : 'extended channel interpretation code indicator' },
+	d : { type : IntegerBetween(0, 300), description : 'error control and symbol size/type indicator' },
+	e : { type : YesOrNo,                description : 'menu symbol indicator' },
+	f : { type : IntegerBetween(1, 26),  description : 'number of symbols for structured append' },
+	g : { type : 'string',               description : 'optional ID field for structured append' },
+});
+export const ZplInterleaved2of5BarCode = new ZplCommandTemplate<{
+	o? : FieldOrientation,
+	h? : number,
+	f? : boolean,
+	g? : boolean,
+	e? : boolean,
+}>('^B2o,h,f,g,e', {
+	o : { type : FieldOrientations,        description : 'orientation' },
+	h : { type : IntegerBetween(1, 32000), description : 'bar code height (in dots)' },
+	f : { type : YesOrNo,                  description : 'print interpretation line' },
+	g : { type : YesOrNo,                  description : 'print interpretation line above code' },
+	e : { type : YesOrNo,                  description : 'calculate and print Mod 10 check digit' },
+});
+export const ZplCode39BarCode = new ZplCommandTemplate<{
+	o? : FieldOrientation,
+	e? : boolean,
+	h? : number,
+	f? : boolean,
+	g? : boolean,
+}>('^B3o,e,h,f,g', {
+	o : { type : FieldOrientations,        description : 'orientation' },
+	e : { type : YesOrNo,                  description : 'Mod-43 check digit' },
+	h : { type : IntegerBetween(1, 32000), description : 'bar code height (in dots)' },
+	f : { type : YesOrNo,                  description : 'print interpretation line' },
+	g : { type : YesOrNo,                  description : 'print interpretation line above code' },
+});
+export const ZplPDF417BarCode = new ZplCommandTemplate<{
+	o? : FieldOrientation,
+	h? : number,
+	s? : number,
+	c? : number,
+	r? : number,
+	t? : boolean,
+}>('^B7o,h,s,c,r,t', {
+	o : { type : FieldOrientations,        description : 'orientation' },
+	h : { type : IntegerBetween(1, 32000), description : 'bar code height for individual rows (in dots)' },
+	s : { type : IntegerBetween(0, 8),     description : 'security level' },
+	c : { type : IntegerBetween(1, 30),    description : 'number of data columns to encode' },
+	r : { type : IntegerBetween(3, 90),    description : 'number of rows to encode' },
+	t : { type : YesOrNo,                  description : 'truncate right row indicators and stop pattern' },
+});
 export const ZplCode128BarCode = new ZplCommandTemplate<{
 	o? : FieldOrientation,
 	h? : number,
@@ -64,6 +122,26 @@ export const ZplCode128BarCode = new ZplCommandTemplate<{
 	e : { type : YesOrNo,                  description : 'UCC check digit' },
 	m : { type : OneOf('N','U','A','D'),   description : 'mode' },
 });
+export const ZplMaxiCodeBarCode = new ZplCommandTemplate<{
+	m? : number,
+	n? : number,
+	t? : number,
+}>('^BDm,n,t', {
+	m : { type : IntegerBetween(2, 6), description : 'mode' },
+	n : { type : IntegerBetween(1, 8), description : 'symbol number' },
+	t : { type : IntegerBetween(1, 8), description : 'total number of symbols' },
+});
+export const ZplEAN13BarCode = new ZplCommandTemplate<{
+	o? : FieldOrientation,
+	h? : number,
+	f? : boolean,
+	g? : boolean,
+}>('^BEo,h,f,g', {
+	o : { type : FieldOrientations,        description : 'orientation' },
+	h : { type : IntegerBetween(1, 32000), description : 'bar code height (in dots)' },
+	f : { type : YesOrNo,                  description : 'print interpretation line' },
+	g : { type : YesOrNo,                  description : 'print interpretation line above code' },
+});
 export const ZplQRCodeBarCode = new ZplCommandTemplate<{
 	a? : 'N',
 	b? : number,
@@ -77,6 +155,38 @@ export const ZplQRCodeBarCode = new ZplCommandTemplate<{
 	d : { type : OneOf('H','Q','M','L'), description : 'error correction' },
 	e : { type : IntegerBetween(0, 7),   description : 'mask value' },
 });
+export const ZplUPCABarCode = new ZplCommandTemplate<{
+	o? : FieldOrientation,
+	h? : number,
+	f? : boolean,
+	g? : boolean,
+	e? : boolean,
+}>('^BUo,h,f,g,e', {
+	o : { type : FieldOrientations,        description : 'orientation' },
+	h : { type : IntegerBetween(1, 9999),  description : 'bar code height (in dots)' },
+	f : { type : YesOrNo,                  description : 'print interpretation line' },
+	g : { type : YesOrNo,                  description : 'print interpretation line above code' },
+	e : { type : YesOrNo,                  description : 'print check digit' },
+});
+export const ZplDataMatrixBarCode = new ZplCommandTemplate<{
+	o? : FieldOrientation,
+	h? : number,
+	s? : number,
+	c? : number,
+	r? : number,
+	f? : number,
+	g? : string,
+	a? : number,
+}>('^BXo,h,s,c,r,f,g,a', {
+	o : { type : FieldOrientations,        description : 'orientation' },
+	h : { type : IntegerBetween(1, 32000), description : 'dimensional height of individual symbol elements (in dots)' },
+	s : { type : IntegerBetween(0, 200),   description : 'quality level (0, 50, 80, 100, 140 or 200)' },
+	c : { type : IntegerBetween(9, 144),   description : 'columns to encode' },
+	r : { type : IntegerBetween(9, 144),   description : 'rows to encode' },
+	f : { type : IntegerBetween(1, 6),     description : 'format ID (not used with quality 200)' },
+	g : { type : 'string',                 description : 'escape sequence control character' },
+	a : { type : IntegerBetween(1, 2),     description : 'aspect ratio (1 for square, 2 for rectangular)' },
+});
 export const ZplBarCodeFieldDefault = new ZplCommandTemplate<{
 	w?: number,
 	r?: number,
@@ -87,6 +197,22 @@ export const ZplBarCodeFieldDefault = new ZplCommandTemplate<{
 	h : { type : IntegerBetween(10, 32000), description : 'bar code height (in dots)' },
 });
 
+// C Class Commands (Character Sets)
+export const ZplChangeInternationalFont = new ZplCommandTemplate<{ a: number }>('^CIa', {
+	a : { type : IntegerBetween(0, 36), description : 'desired character set (e.g. 13 for code page 850, 27 for code page 1252, 28 for UTF-8)' },
+});
+export const ZplFontIdentifier = new ZplCommandTemplate<{
+	a: string,
+	d: DriveLocation,
+	o: string,
+	x: 'FNT' | 'TTF' | 'TTE',
+}>('^CWa,d:o.x', {
+	a : { type : AlphanumericOfLength(1),  description : 'letter of existing font to be substituted, or new font to be added' },
+	d : { type : DriveLocations,           description : 'location of font' },
+	o : { type : Alphanumeric(1,8),        description : 'name of the downloaded font to be substituted for the built-in, or as an additional font' },
+	x : { type : OneOf('FNT','TTF','TTE'), description : 'extension' },
+});
+
 // D Class Commands (Download)
 export const ZplDownloadObjects = new ZplCommandTemplate<{
 	d: DriveLocation,
@@ -106,6 +232,30 @@ export const ZplDownloadObjects = new ZplCommandTemplate<{
 	data : { type : 'binary',                   description : 'data' },
 });
 
+export const ZplDownloadUnboundedTrueTypeFont = new ZplCommandTemplate<{
+	d: DriveLocation,
+	o: string,
+	x: 'FNT',
+	s: number,
+	data: Uint8Array,
+}>('~DUd:o.x,s,data', {
+	d    : { type : DriveLocations,             description : 'font location' },
+	o    : { type : Alphanumeric(1,8),          description : 'font name' },
+	x    : { type : OneOf('FNT'),               description : 'extension' },
+	s    : { type : IntegerBetween(0, 9999999), description : 'font size in bytes' },
+	data : { type : 'binary',                   description : 'data (ASCII hexadecimal)' },
+});
+
+export const ZplDownloadFormat = new ZplCommandTemplate<{
+	d: DriveLocation,
+	o: string,
+	x: 'ZPL',
+}>('^DFd:o.x', {
+	d : { type : DriveLocations,    description : 'device to store format' },
+	o : { type : Alphanumeric(1,8), description : 'format name' },
+	x : { type : OneOf('ZPL'),      description : 'extension' },
+});
+
 // F Class Commands (Field)
 export const ZplFieldBlock = new ZplCommandTemplate<{
 	a: number,
@@ -121,7 +271,13 @@ export const ZplFieldBlock = new ZplCommandTemplate<{
   e : { type : IntegerBetween(0, 9999),     description : 'hanging indent (in dots) of the second and remaining lines' },
 });
 export const ZplFieldData   = new ZplCommandTemplate<{ a: string }>('^FDa', {
-	a : { type : 'string', description : 'data to be printed' },
+	a : { type : FieldDataString(), description : 'data to be printed' },
+});
+export const ZplFieldHexadecimalIndicator = new ZplCommandTemplate<{ a?: string }>('^FHa', {
+	a : { type : /^[^\^~]$/, description : 'hexadecimal indicator' },
+});
+export const ZplFieldNumber = new ZplCommandTemplate<{ a: number }>('^FNa', {
+	a : { type : IntegerBetween(0, 9999), description : 'number to be assigned to the field' },
 });
 export const ZplFieldOrigin = new ZplCommandTemplate<{
 	x: number,
@@ -142,7 +298,7 @@ export const ZplFieldParameter = new ZplCommandTemplate<{
 export const ZplFieldReversePrint = new ZplCommandTemplate('^FR');
 export const ZplFieldSeparator    = new ZplCommandTemplate('^FS');
 export const ZplFieldVariable     = new ZplCommandTemplate<{ a: string }>('^FVa', {
-	a : { type : 'string', description : 'variable field data to be printed' },
+	a : { type : FieldDataString(), description : 'variable field data to be printed' },
 });
 export const ZplFieldOrientation  = new ZplCommandTemplate<{
 	r: FieldOrientation,
@@ -169,6 +325,19 @@ export const ZplGraphicBox = new ZplCommandTemplate<{
   c : { type : OneOf('B','W'),           description : 'line color' },
   r : { type : IntegerBetween(0, 8),     description : 'degree of corner-rounding' },
 });
+export const ZplGraphicField = new ZplCommandTemplate<{
+	a: 'A'|'B'|'C',
+	b: number,
+	c: number,
+	d: number,
+	data: string,
+}>('^GFa,b,c,d,data', {
+	a    : { type : OneOf('A','B','C'),         description : 'compression type' },
+	b    : { type : IntegerBetween(1, 99999),   description : 'binary byte count' },
+	c    : { type : IntegerBetween(1, 99999),   description : 'graphic field count' },
+	d    : { type : IntegerBetween(1, 99999),   description : 'bytes per row' },
+	data : { type : 'string',                   description : 'data' },
+});
 export const ZplGraphicCircle = new ZplCommandTemplate<{
 	d: number,
 	t: number,
@@ -272,7 +441,7 @@ export const ZplPrintingMirrorImageOfLabel = new ZplCommandTemplate<{ a: boolean
 	a : { type : YesOrNo, description : 'print mirror image of entire label' },
 });
 export const ZplPrintOrientation           = new ZplCommandTemplate<{ a: boolean }>('^POa', {
-	a : { type : new ZplParameterTypeBooleanValue('N','I'), description : 'invert label 180 degrees'           },
+	a : { type : new ZplParameterTypeBooleanValue('I','N'), description : 'invert label 180 degrees'           },
 });
 export const ZplProgrammablePause = new ZplCommandTemplate('^PP'); // Also ~PP
 export const ZplPrintQuantity     = new ZplCommandTemplate<{
@@ -299,6 +468,27 @@ export const ZplPrintQuantity     = new ZplCommandTemplate<{
 // 	b : { type : [IntegerBetween(2, 14), OneOf('A','B','C','D','E')],    description : 'backfeed speed' },
 // });
 export const ZplPrintStart = new ZplCommandTemplate('~PS');
+export const ZplPrintWidth = new ZplCommandTemplate<{ a: number }>('^PWa', {
+	a : { type : IntegerBetween(2, 32000), description : 'label width (in dots)' },
+});
+
+// S Class Commands (Serialization)
+export const ZplSerializationField = new ZplCommandTemplate<{
+	a: string,
+	b: string,
+}>('^SFa,b', {
+	a : { type : /^[DdHhOoAaNn%]+$/, description : 'mask string (D decimal, H hexadecimal, O octal, A alphabetic, N alphanumeric, % ignored)' },
+	b : { type : 'string',             description : 'increment string' },
+});
+export const ZplSerializationData  = new ZplCommandTemplate<{
+	v: string,
+	n: number,
+	z: boolean,
+}>('^SNv,n,z', {
+	v : { type : 'string', description : 'starting value (the last 12 digits or less are indexed)' },
+	n : { type : 'number', description : 'increment or decrement value' },
+	z : { type : YesOrNo,  description : 'add leading zeros' },
+});
 
 // W Class Commands
 export const ZplPrintConfigurationLabel = new ZplCommandTemplate('~WC');
@@ -319,8 +509,8 @@ export const ZplRecallFormat = new ZplCommandTemplate<{
 	o: string,
 	x: 'ZPL',
 }>('^XFd:o.x', {
-	d : { type : DriveLocations,    description : 'source device of stored image' },
-	o : { type : Alphanumeric(1,8), description : 'name of stored image' },
+	d : { type : DriveLocations,    description : 'source device of stored format' },
+	o : { type : Alphanumeric(1,8), description : 'name of stored format' },
 	x : { type : OneOf('ZPL'),      description : 'extension' },
 });
 export const ZplRecallGraphic = new ZplCommandTemplate<{
@@ -336,4 +526,9 @@ export const ZplRecallGraphic = new ZplCommandTemplate<{
 	mx : { type : IntegerBetween(1, 10), description : 'magnification factor on the x-axis' },
 	my : { type : IntegerBetween(1, 10), description : 'magnification factor on the y-axis' },
 });
-export const ZplEndFormat = new ZplCommandTemplate('^XZ');
\ No newline at end of file
+export const ZplEndFormat = new ZplCommandTemplate('^XZ');
+
+// Raw Data (not a command, used for text that is kept as is, such as unknown commands and whitespace)
+export const ZplRawData = new ZplCommandTemplate<{ data: string }>('data', {
+	data : { type : 'string', description : 'raw text' },
+});
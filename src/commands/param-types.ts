@@ -3,6 +3,7 @@ export const Alphanumeric = (minLength? : number, maxLength? : number) => new Zp
 export const AlphanumericOfLength = (length : number) => new ZplParameterTypeAlphanumericString(length, length);
 export const IntegerBetween = (min : number, max : number) => new ZplParameterTypeIntegerRange(min, max);
 export const OneOf = <T extends string>(...values : T[]) => new Set(values);
+export const FieldDataString = () => new ZplParameterTypeFieldData();
 
 /**
  * Interface for custom ZPL parameter types that have runtime validation
@@ -67,4 +68,10 @@ export class ZplParameterTypeBooleanValue implements ZplParameterType {
 	validate(value: any) : string | void {
 		if (typeof value !== 'boolean') return 'should be a boolean value';
 	}
-}
\ No newline at end of file
+}
+export class ZplParameterTypeFieldData implements ZplParameterType {
+	validate(value : any) : void | string {
+		if (typeof value !== 'string') return 'should be a string';
+		if (/[\^~]/.test(value)) return 'should not contain command prefixes (^ or ~), escape them with ^FH';
+	}
+}
@@ -0,0 +1,97 @@
+import { GrayscaleImage } from './image-types';
+import { MonochromeBitmap, createMonochromeBitmap } from '../utils/utils-graphics';
+
+/**
+ * Dithering algorithms used to reduce a grayscale image to black and white.
+ * 
+ * threshold (every pixel darker than the threshold is black)
+ * bayer (ordered dithering with an 8x8 Bayer matrix, a regular pattern that prints predictably)
+ * floyd-steinberg (error diffusion, the most detail for photos)
+ */
+export type DitherMethod = 'threshold'|'bayer'|'floyd-steinberg';
+
+/**
+ * Builds a normalized Bayer threshold matrix (values between 0 and 1) of size 2^n.
+ * 
+ * @param order - n, where the matrix has 2^n rows and columns
+ * @returns the matrix as an array of rows
+ */
+function createBayerMatrix(order : number) : number[][]
+{
+    let matrix = [ [ 0 ] ];
+    for (let n = 0; n < order; n++) {
+        const size = matrix.length;
+        const next : number[][] = [];
+        for (let y = 0; y < size * 2; y++) {
+            next.push([]);
+            for (let x = 0; x < size * 2; x++) {
+                const base = 4 * matrix[y % size][x % size];
+                const offset = [ [ 0, 2 ], [ 3, 1 ] ][y < size ? 0 : 1][x < size ? 0 : 1];
+                next[y].push(base + offset);
+            }
+        }
+        matrix = next;
+    }
+
+    const cells = matrix.length * matrix.length;
+    return matrix.map(row => row.map(value => (value + 0.5) / cells));
+}
+
+const BAYER_MATRIX = createBayerMatrix(3);
+
+/**
+ * Reduces a grayscale image to a packed 1-bit bitmap.
+ * 
+ * @param image - grayscale image, from 0 (black) to 255 (white)
+ * @param options.method    - dithering algorithm (defaults to threshold)
+ * @param options.threshold - luminance below which a pixel is printed, for the threshold method (defaults to 128)
+ * @param options.invert    - prints light pixels instead of dark pixels
+ * @returns a bitmap where set bits are printed dots
+ */
+export function ditherGrayscaleImage(image : GrayscaleImage, options : {
+    method?    : DitherMethod;
+    threshold? : number;
+    invert?    : boolean;
+} = {}) : MonochromeBitmap
+{
+    const { width, height } = image;
+    const method    = options.method || 'threshold';
+    const threshold = options.threshold ?? 128;
+    const bitmap    = createMonochromeBitmap(width, height);
+
+    // Work on a copy, inverting first so that every algorithm prints the dark side
+    const values = new Float32Array(image.data.length);
+    for (let i = 0, ilen = values.length; i < ilen; i++) {
+        values[i] = options.invert ? 255 - image.data[i] : image.data[i];
+    }
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            const index = y * width + x;
+            const value = values[index];
+
+            let black : boolean;
+            if (method === 'bayer') {
+                black = value < BAYER_MATRIX[y % BAYER_MATRIX.length][x % BAYER_MATRIX.length] * 255;
+            }
+            else if (method === 'floyd-steinberg') {
+                black = value < 128;
+
+                const error = value - (black ? 0 : 255);
+                if (x + 1 < width) values[index + 1] += error * 7 / 16;
+                if (y + 1 < height) {
+                    if (x > 0) values[index + width - 1] += error * 3 / 16;
+                    values[index + width] += error * 5 / 16;
+                    if (x + 1 < width) values[index + width + 1] += error * 1 / 16;
+                }
+            }
+            else {
+                black = value < threshold;
+            }
+
+            if (black) bitmap.data[y * bitmap.bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+        }
+    }
+
+    return bitmap;
+}
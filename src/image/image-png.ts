@@ -0,0 +1,286 @@
+import { inflateSync, deflateSync } from 'zlib';
+
+import { RasterImage } from './image-types';
+import { MonochromeBitmap } from '../utils/utils-graphics';
+import { computeCRCTable, computeCRCFromTable } from '../utils/utils-crc';
+
+const PNG_SIGNATURE = [ 137, 80, 78, 71, 13, 10, 26, 10 ];
+const PNG_CRC_TABLE = computeCRCTable();
+
+/**
+ * Number of channels per pixel, by PNG color type.
+ */
+const PNG_CHANNELS : { [ colorType : number ] : number } = {
+    0 : 1, // grayscale
+    2 : 3, // truecolor
+    3 : 1, // indexed
+    4 : 2, // grayscale and alpha
+    6 : 4, // truecolor and alpha
+};
+
+/**
+ * Adam7 interlacing passes, as [ x start, y start, x step, y step ].
+ */
+const ADAM7_PASSES = [
+    [ 0, 0, 8, 8 ], [ 4, 0, 8, 8 ], [ 0, 4, 4, 8 ], [ 2, 0, 4, 4 ], [ 0, 2, 2, 4 ], [ 1, 0, 2, 2 ], [ 0, 1, 1, 2 ],
+];
+
+type PngHeader = {
+    width     : number;
+    height    : number;
+    bitDepth  : number;
+    colorType : number;
+    interlace : number;
+};
+
+/**
+ * Paeth predictor used by PNG filter type 4.
+ */
+function paethPredictor(a : number, b : number, c : number) : number
+{
+    const p  = a + b - c;
+    const pa = Math.abs(p - a);
+    const pb = Math.abs(p - b);
+    const pc = Math.abs(p - c);
+    if (pa <= pb && pa <= pc) return a;
+    if (pb <= pc) return b;
+    return c;
+}
+
+/**
+ * Reverses the PNG scanline filters of a (sub) image in place.
+ * 
+ * @param data - inflated image data
+ * @param offset - offset of the first scanline in data
+ * @param bytesPerRow - number of bytes per scanline (without the filter type byte)
+ * @param rows - number of scanlines
+ * @param bytesPerPixel - number of bytes per complete pixel (rounded up to 1)
+ * @returns an array of unfiltered scanlines
+ */
+function unfilterScanlines(data : Uint8Array, offset : number, bytesPerRow : number, rows : number, bytesPerPixel : number) : Uint8Array[]
+{
+    const scanlines : Uint8Array[] = [];
+    let previous = new Uint8Array(bytesPerRow);
+    for (let y = 0; y < rows; y++) {
+        const filterType = data[offset];
+        const line = data.slice(offset + 1, offset + 1 + bytesPerRow);
+        offset += bytesPerRow + 1;
+
+        for (let i = 0; i < bytesPerRow; i++) {
+            const left  = i >= bytesPerPixel ? line[i - bytesPerPixel] : 0;
+            const up    = previous[i];
+            const upperLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+
+            switch (filterType) {
+                case 0: break;
+                case 1: line[i] = line[i] + left; break;
+                case 2: line[i] = line[i] + up; break;
+                case 3: line[i] = line[i] + ((left + up) >> 1); break;
+                case 4: line[i] = line[i] + paethPredictor(left, up, upperLeft); break;
+                default: throw new TypeError(`Invalid PNG filter type ${filterType}`);
+            }
+        }
+
+        scanlines.push(line);
+        previous = line;
+    }
+    return scanlines;
+}
+
+/**
+ * Reads a single sample from a scanline, scaled to 8 bits.
+ */
+function readSample(line : Uint8Array, index : number, bitDepth : number) : number
+{
+    switch (bitDepth) {
+        case 16: return line[index * 2];
+        case 8:  return line[index];
+        default: {
+            const bitOffset = index * bitDepth;
+            const byte  = line[bitOffset >> 3];
+            const shift = 8 - bitDepth - (bitOffset & 7);
+            const value = (byte >> shift) & ((1 << bitDepth) - 1);
+            return Math.round(value * 255 / ((1 << bitDepth) - 1));
+        }
+    }
+}
+
+/**
+ * Reads a single raw sample from a scanline (without scaling, used for palette indices and tRNS).
+ */
+function readRawSample(line : Uint8Array, index : number, bitDepth : number) : number
+{
+    if (bitDepth === 16) return (line[index * 2] << 8) | line[index * 2 + 1];
+    if (bitDepth === 8)  return line[index];
+
+    const bitOffset = index * bitDepth;
+    return (line[bitOffset >> 3] >> (8 - bitDepth - (bitOffset & 7))) & ((1 << bitDepth) - 1);
+}
+
+/**
+ * Decodes a PNG file into an 8-bit RGBA raster image. Supports every color type, bit depth and
+ * Adam7 interlacing, along with palette and tRNS transparency.
+ * 
+ * @param png - contents of a PNG file
+ * @returns the decoded image
+ * @throws a TypeError if the file is not a valid PNG
+ */
+export function decodePng(png : Uint8Array) : RasterImage
+{
+    if (png.length < 8 || PNG_SIGNATURE.some((byte, i) => png[i] !== byte)) throw new TypeError('Invalid PNG signature');
+
+    const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+    let header : PngHeader | void = undefined;
+    let palette : Uint8Array | void = undefined;
+    let transparency : Uint8Array | void = undefined;
+    const imageData : Uint8Array[] = [];
+
+    for (let offset = 8; offset + 8 <= png.length;) {
+        const length = view.getUint32(offset);
+        const type   = String.fromCharCode(png[offset + 4], png[offset + 5], png[offset + 6], png[offset + 7]);
+        const dataOffset = offset + 8;
+        const data   = png.subarray(dataOffset, dataOffset + length);
+        offset += length + 12;
+
+        if (type === 'IHDR') {
+            header = {
+                width     : view.getUint32(dataOffset),
+                height    : view.getUint32(dataOffset + 4),
+                bitDepth  : data[8],
+                colorType : data[9],
+                interlace : data[12],
+            };
+        }
+        else if (type === 'PLTE') palette = data;
+        else if (type === 'tRNS') transparency = data;
+        else if (type === 'IDAT') imageData.push(data);
+        else if (type === 'IEND') break;
+    }
+
+    if (!header) throw new TypeError('PNG is missing an IHDR chunk');
+    const { width, height, bitDepth, colorType, interlace } = header;
+    const channels = PNG_CHANNELS[colorType];
+    if (!channels) throw new TypeError(`Invalid PNG color type ${colorType}`);
+    if (colorType === 3 && !palette) throw new TypeError('PNG is missing a PLTE chunk');
+
+    const compressedSize = imageData.reduce((size, chunk) => size + chunk.length, 0);
+    const compressed = new Uint8Array(compressedSize);
+    imageData.reduce((index, chunk) => (compressed.set(chunk, index), index + chunk.length), 0);
+    const inflated = new Uint8Array(inflateSync(compressed));
+
+    const bitsPerPixel  = channels * bitDepth;
+    const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+    const rgba = new Uint8ClampedArray(width * height * 4);
+
+    const writePixel = (line : Uint8Array, index : number, x : number, y : number) => {
+        const target = (y * width + x) * 4;
+        let r : number, g : number, b : number, a = 255;
+
+        if (colorType === 3) {
+            const paletteIndex = readRawSample(line, index, bitDepth);
+            r = (palette as Uint8Array)[paletteIndex * 3];
+            g = (palette as Uint8Array)[paletteIndex * 3 + 1];
+            b = (palette as Uint8Array)[paletteIndex * 3 + 2];
+            if (transparency && paletteIndex < transparency.length) a = transparency[paletteIndex];
+        }
+        else if (colorType === 0 || colorType === 4) {
+            r = g = b = readSample(line, index * channels, bitDepth);
+            if (colorType === 4) a = readSample(line, index * channels + 1, bitDepth);
+            else if (transparency && readRawSample(line, index, bitDepth) === ((transparency[0] << 8) | transparency[1])) a = 0;
+        }
+        else {
+            r = readSample(line, index * channels, bitDepth);
+            g = readSample(line, index * channels + 1, bitDepth);
+            b = readSample(line, index * channels + 2, bitDepth);
+            if (colorType === 6) a = readSample(line, index * channels + 3, bitDepth);
+            else if (transparency
+                && readRawSample(line, index * 3, bitDepth)     === ((transparency[0] << 8) | transparency[1])
+                && readRawSample(line, index * 3 + 1, bitDepth) === ((transparency[2] << 8) | transparency[3])
+                && readRawSample(line, index * 3 + 2, bitDepth) === ((transparency[4] << 8) | transparency[5])) a = 0;
+        }
+
+        rgba[target]     = r;
+        rgba[target + 1] = g;
+        rgba[target + 2] = b;
+        rgba[target + 3] = a;
+    };
+
+    const passes = interlace ? ADAM7_PASSES : [ [ 0, 0, 1, 1 ] ];
+    let offset = 0;
+    for (const [ xStart, yStart, xStep, yStep ] of passes) {
+        const passWidth  = Math.ceil((width  - xStart) / xStep);
+        const passHeight = Math.ceil((height - yStart) / yStep);
+        if (passWidth <= 0 || passHeight <= 0) continue;
+
+        const bytesPerRow = Math.ceil(passWidth * bitsPerPixel / 8);
+        const scanlines = unfilterScanlines(inflated, offset, bytesPerRow, passHeight, bytesPerPixel);
+        offset += (bytesPerRow + 1) * passHeight;
+
+        scanlines.forEach((line, row) => {
+            for (let column = 0; column < passWidth; column++) {
+                writePixel(line, column, xStart + column * xStep, yStart + row * yStep);
+            }
+        });
+    }
+
+    return { width, height, data : rgba };
+}
+
+/**
+ * Creates a PNG chunk, with its length and CRC.
+ */
+function createPngChunk(type : string, data : Uint8Array) : Uint8Array
+{
+    const chunk = new Uint8Array(data.length + 12);
+    const view  = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(data, 8);
+    view.setUint32(data.length + 8, computeCRCFromTable(chunk.subarray(4, data.length + 8), PNG_CRC_TABLE));
+    return chunk;
+}
+
+/**
+ * Encodes a bitmap as a 1-bit grayscale PNG file (set bits are black).
+ * 
+ * @param bitmap - a packed bitmap
+ * @param dpi - resolution stored in the file, if any
+ * @returns contents of the PNG file
+ */
+export function encodeMonochromePng(bitmap : MonochromeBitmap, dpi? : number) : Uint8Array
+{
+    const { width, height, bytesPerRow, data } = bitmap;
+
+    const header = new Uint8Array(13);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint32(0, width);
+    headerView.setUint32(4, height);
+    header[8] = 1; // bit depth
+    header[9] = 0; // grayscale
+
+    // Grayscale samples are white when set, so every byte is inverted behind a filter type of 0
+    const scanlines = new Uint8Array((bytesPerRow + 1) * height);
+    for (let y = 0; y < height; y++) {
+        for (let i = 0; i < bytesPerRow; i++) {
+            scanlines[y * (bytesPerRow + 1) + 1 + i] = ~data[y * bytesPerRow + i];
+        }
+    }
+
+    const chunks = [ createPngChunk('IHDR', header) ];
+    if (dpi) {
+        const physical = new Uint8Array(9);
+        const physicalView = new DataView(physical.buffer);
+        const pixelsPerMeter = Math.round(dpi / 0.0254);
+        physicalView.setUint32(0, pixelsPerMeter);
+        physicalView.setUint32(4, pixelsPerMeter);
+        physical[8] = 1; // unit is the meter
+        chunks.push(createPngChunk('pHYs', physical));
+    }
+    chunks.push(createPngChunk('IDAT', new Uint8Array(deflateSync(scanlines))));
+    chunks.push(createPngChunk('IEND', new Uint8Array(0)));
+
+    const png = new Uint8Array(PNG_SIGNATURE.length + chunks.reduce((size, chunk) => size + chunk.length, 0));
+    png.set(PNG_SIGNATURE);
+    chunks.reduce((index, chunk) => (png.set(chunk, index), index + chunk.length), PNG_SIGNATURE.length);
+    return png;
+}
@@ -0,0 +1,53 @@
+import { GrayscaleImage } from './image-types';
+
+/**
+ * Resizing algorithms.
+ * 
+ * nearest (nearest-neighbour, keeps hard edges, best for line art and bar codes)
+ * bilinear (interpolates between the 4 closest pixels, best for photos and logos)
+ */
+export type ResizeMethod = 'nearest'|'bilinear';
+
+/**
+ * Resizes a grayscale image.
+ * 
+ * @param image - source image
+ * @param width - width of the resized image
+ * @param height - height of the resized image
+ * @param method - resizing algorithm (defaults to bilinear)
+ * @returns a new, resized image
+ */
+export function resizeGrayscaleImage(image : GrayscaleImage, width : number, height : number, method : ResizeMethod = 'bilinear') : GrayscaleImage
+{
+    width  = Math.max(1, Math.round(width));
+    height = Math.max(1, Math.round(height));
+
+    const data = new Float32Array(width * height);
+    const scaleX = image.width  / width;
+    const scaleY = image.height / height;
+
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            if (method === 'nearest') {
+                const sourceX = Math.min(image.width  - 1, Math.floor((x + 0.5) * scaleX));
+                const sourceY = Math.min(image.height - 1, Math.floor((y + 0.5) * scaleY));
+                data[y * width + x] = image.data[sourceY * image.width + sourceX];
+            }
+            else {
+                // Sample at the pixel center, clamped to the edges of the source image
+                const sourceX = Math.min(image.width  - 1, Math.max(0, (x + 0.5) * scaleX - 0.5));
+                const sourceY = Math.min(image.height - 1, Math.max(0, (y + 0.5) * scaleY - 0.5));
+                const x0 = Math.floor(sourceX), x1 = Math.min(image.width  - 1, x0 + 1);
+                const y0 = Math.floor(sourceY), y1 = Math.min(image.height - 1, y0 + 1);
+                const dx = sourceX - x0;
+                const dy = sourceY - y0;
+
+                const top    = image.data[y0 * image.width + x0] * (1 - dx) + image.data[y0 * image.width + x1] * dx;
+                const bottom = image.data[y1 * image.width + x0] * (1 - dx) + image.data[y1 * image.width + x1] * dx;
+                data[y * width + x] = top * (1 - dy) + bottom * dy;
+            }
+        }
+    }
+
+    return { width, height, data };
+}
@@ -0,0 +1,17 @@
+/**
+ * 8-bit RGBA raster image, laid out row by row (same layout as the DOM's ImageData).
+ */
+export type RasterImage = {
+    width  : number;
+    height : number;
+    data   : Uint8ClampedArray;
+};
+
+/**
+ * Grayscale raster image with one luminance value per pixel, from 0 (black) to 255 (white).
+ */
+export type GrayscaleImage = {
+    width  : number;
+    height : number;
+    data   : Float32Array;
+};
@@ -0,0 +1,85 @@
+import { RasterImage, GrayscaleImage } from './image-types';
+import { decodePng } from './image-png';
+import { ResizeMethod, resizeGrayscaleImage } from './image-resize';
+import { DitherMethod, ditherGrayscaleImage } from './image-dither';
+import { Unit, unitsToDots } from '../utils/utils-units';
+import { MonochromeBitmap } from '../utils/utils-graphics';
+
+export { RasterImage, GrayscaleImage } from './image-types';
+export { decodePng, encodeMonochromePng } from './image-png';
+export { ResizeMethod, resizeGrayscaleImage } from './image-resize';
+export { DitherMethod, ditherGrayscaleImage } from './image-dither';
+
+/**
+ * Converts an RGBA image to grayscale, compositing transparent pixels onto a white background.
+ * 
+ * @param image - RGBA image
+ * @returns the grayscale image (ITU-R BT.601 luma)
+ */
+export function rasterImageToGrayscale(image : RasterImage) : GrayscaleImage
+{
+    const { width, height } = image;
+    const data = new Float32Array(width * height);
+    for (let i = 0, ilen = data.length; i < ilen; i++) {
+        const r = image.data[i * 4];
+        const g = image.data[i * 4 + 1];
+        const b = image.data[i * 4 + 2];
+        const a = image.data[i * 4 + 3] / 255;
+
+        const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+        data[i] = luminance * a + 255 * (1 - a);
+    }
+    return { width, height, data };
+}
+
+/**
+ * Converts an image into a packed 1-bit bitmap at the printer's resolution, ready for the ZPL
+ * graphic commands (see ZplLabel.image).
+ * 
+ * When only one of options.width or options.height is set, the other is calculated to keep the
+ * aspect ratio of the image. When neither is set, each image pixel becomes a dot.
+ * 
+ * @param image - RGBA image, or the contents of a PNG file
+ * @param options.width     - width of the printed image
+ * @param options.height    - height of the printed image
+ * @param options.unit      - unit of options.width and options.height (defaults to dots)
+ * @param options.dpi       - dots per inch of the printer, required when options.unit is not set to dots
+ * @param options.resize    - resizing algorithm (defaults to bilinear)
+ * @param options.dither    - dithering algorithm (defaults to threshold)
+ * @param options.threshold - luminance below which a pixel is printed, for the threshold method (defaults to 128)
+ * @param options.invert    - prints light pixels instead of dark pixels
+ * @returns a bitmap where set bits are printed dots
+ */
+export function convertImageToBitmap(image : RasterImage | Uint8Array, options : {
+    width?     : number;
+    height?    : number;
+    unit?      : Unit;
+    dpi?       : number;
+    resize?    : ResizeMethod;
+    dither?    : DitherMethod;
+    threshold? : number;
+    invert?    : boolean;
+} = {}) : MonochromeBitmap
+{
+    const { unit, dpi } = options;
+    if (unit && unit !== 'dots' && !dpi) throw new TypeError(`options.dpi is required to calculate unit ${unit}`);
+
+    const raster = (image instanceof Uint8Array) ? decodePng(image) : image;
+    let grayscale = rasterImageToGrayscale(raster);
+
+    const toDots = (value : number) => unitsToDots(value, unit || 'dots', dpi || 300);
+    let width  = options.width  !== undefined ? toDots(options.width)  : undefined;
+    let height = options.height !== undefined ? toDots(options.height) : undefined;
+    if (width !== undefined && height === undefined)      height = width * raster.height / raster.width;
+    else if (height !== undefined && width === undefined) width  = height * raster.width / raster.height;
+
+    if (width !== undefined && height !== undefined) {
+        grayscale = resizeGrayscaleImage(grayscale, width, height, options.resize);
+    }
+
+    return ditherGrayscaleImage(grayscale, {
+        method    : options.dither,
+        threshold : options.threshold,
+        invert    : options.invert,
+    });
+}
@@ -0,0 +1,2 @@
+export { LayoutPadding, LayoutTrack, LayoutGapOptions, ZplLayoutBox } from './layout-box';
+export { FragmentRotation, getFragmentSize, transformFragmentCommands } from './layout-fragment';
@@ -0,0 +1,166 @@
+/**
+ * Padding of a box, either the same on every side or per side.
+ */
+export type LayoutPadding = number | {
+    top?    : number;
+    right?  : number;
+    bottom? : number;
+    left?   : number;
+};
+
+/**
+ * Size of a row or column: a fixed size, or a share of the remaining space (e.g. "1fr", "2fr").
+ */
+export type LayoutTrack = number | `${number}fr`;
+
+/**
+ * Gaps between the rows and columns of a box.
+ */
+export type LayoutGapOptions = {
+    gap?       : number;
+    rowGap?    : number;
+    columnGap? : number;
+};
+
+/**
+ * Splits a length into tracks. Fixed tracks and gaps are subtracted first, the remaining length is
+ * shared between the fractional tracks by weight.
+ *
+ * @param length - length to split
+ * @param tracks - number of equal tracks, or the size of each track
+ * @param gap - gap between tracks
+ * @returns the offset and size of each track
+ * @throws a RangeError if the fixed tracks and gaps do not fit the length
+ */
+function splitTracks(length : number, tracks : number | LayoutTrack[], gap : number) : Array<{ offset : number, size : number }>
+{
+    if (typeof tracks === 'number') {
+        if (!Number.isInteger(tracks) || tracks < 1) throw new RangeError(`Invalid number of tracks ${tracks}, should be a positive integer`);
+        tracks = new Array<LayoutTrack>(tracks).fill('1fr');
+    }
+
+    const weights = tracks.map(track => {
+        if (typeof track === 'number') return 0;
+
+        const weight = parseFloat(track);
+        if (!/^[0-9.]+fr$/.test(track) || !(weight > 0)) throw new TypeError(`Invalid track size "${track}", should be a number or a fraction like "1fr"`);
+        return weight;
+    });
+    const fixed = tracks.reduce<number>((sum, track) => sum + (typeof track === 'number' ? track : 0), 0) + gap * (tracks.length - 1);
+    if (fixed > length + 1e-9) throw new RangeError(`Tracks of ${fixed} (including gaps) do not fit in ${length}`);
+
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const remaining = length - fixed;
+
+    let offset = 0;
+    return tracks.map((track, index) => {
+        const size = (typeof track === 'number') ? track : remaining * weights[index] / totalWeight;
+        const result = { offset, size };
+        offset += size + gap;
+        return result;
+    });
+}
+
+/**
+ * Rectangle of a label used to lay out elements, in the units of the label. Boxes are split into
+ * padded areas, rows, columns and grids, and their coordinates are passed to the methods of the
+ * label, which converts them to dots.
+ */
+export class ZplLayoutBox
+{
+    readonly x      : number;
+    readonly y      : number;
+    readonly width  : number;
+    readonly height : number;
+
+    /**
+     * Rectangle of a label, in the units of the label.
+     *
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param width - width of the box
+     * @param height - height of the box
+     */
+    constructor(x : number, y : number, width : number, height : number) {
+        if (width < 0 || height < 0) throw new RangeError(`Invalid box size ${width}x${height}, should not be negative`);
+
+        this.x      = x;
+        this.y      = y;
+        this.width  = width;
+        this.height = height;
+    }
+
+    get right() : number {
+        return this.x + this.width;
+    }
+
+    get bottom() : number {
+        return this.y + this.height;
+    }
+
+    get centerX() : number {
+        return this.x + this.width / 2;
+    }
+
+    get centerY() : number {
+        return this.y + this.height / 2;
+    }
+
+    /**
+     * Computes the area of this box within padding.
+     *
+     * @param padding - padding on every side, or per side
+     * @returns the padded box
+     * @throws a RangeError if the padding is larger than the box
+     */
+    pad(padding : LayoutPadding) : ZplLayoutBox {
+        const { top = 0, right = 0, bottom = 0, left = 0 } = (typeof padding === 'number')
+            ? { top : padding, right : padding, bottom : padding, left : padding }
+            : padding;
+
+        const width  = this.width - left - right;
+        const height = this.height - top - bottom;
+        if (width < 0 || height < 0) throw new RangeError(`Padding does not fit in a ${this.width}x${this.height} box`);
+
+        return new ZplLayoutBox(this.x + left, this.y + top, width, height);
+    }
+
+    /**
+     * Splits this box into rows, stacked from top to bottom.
+     *
+     * @param rows - number of rows of equal height, or the height of each row (fixed or fractional, e.g. [ 0.5, '1fr' ])
+     * @param options.gap - space between rows
+     * @returns a box for each row
+     */
+    rows(rows : number | LayoutTrack[], options : { gap? : number } = {}) : ZplLayoutBox[] {
+        return splitTracks(this.height, rows, options.gap ?? 0)
+            .map(({ offset, size }) => new ZplLayoutBox(this.x, this.y + offset, this.width, size));
+    }
+
+    /**
+     * Splits this box into columns, side by side from left to right.
+     *
+     * @param columns - number of columns of equal width, or the width of each column (fixed or fractional, e.g. [ 1, '2fr' ])
+     * @param options.gap - space between columns
+     * @returns a box for each column
+     */
+    columns(columns : number | LayoutTrack[], options : { gap? : number } = {}) : ZplLayoutBox[] {
+        return splitTracks(this.width, columns, options.gap ?? 0)
+            .map(({ offset, size }) => new ZplLayoutBox(this.x + offset, this.y, size, this.height));
+    }
+
+    /**
+     * Splits this box into a grid of cells.
+     *
+     * @param rows - number of rows of equal height, or the height of each row
+     * @param columns - number of columns of equal width, or the width of each column
+     * @param options.gap - space between rows and between columns
+     * @param options.rowGap - space between rows (defaults to options.gap)
+     * @param options.columnGap - space between columns (defaults to options.gap)
+     * @returns the cells of the grid, row by row
+     */
+    grid(rows : number | LayoutTrack[], columns : number | LayoutTrack[], options : LayoutGapOptions = {}) : ZplLayoutBox[][] {
+        return this.rows(rows, { gap : options.rowGap ?? options.gap })
+            .map(row => row.columns(columns, { gap : options.columnGap ?? options.gap }));
+    }
+}
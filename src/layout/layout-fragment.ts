@@ -0,0 +1,166 @@
+import { ZplCommand, ZplCommandSet } from '../commands/command-set';
+import { ZplCommandTemplate } from '../commands/command-template';
+import {
+    ZplFieldOrigin,
+    ZplFieldSeparator,
+    ZplGraphicBox,
+    ZplGraphicDiagonalLine,
+    ZplGraphicEllipse,
+    ZplGraphicField,
+} from '../commands';
+import { getRenderFields, getRenderFieldBounds } from '../render';
+
+/**
+ * Rotation of a fragment, clockwise in degrees.
+ */
+export type FragmentRotation = 0|90|180|270;
+
+/**
+ * Field orientations in clockwise order, each a quarter turn from the previous one.
+ */
+const ClockwiseOrientations = [ 'N', 'R', 'I', 'B' ];
+
+/**
+ * Whether a parameter of a command is a field orientation (N, R, I or B).
+ */
+function isOrientationParameter(template : ZplCommandTemplate<any>, key : string) : boolean
+{
+    const type = template.paramSchema?.[key]?.type;
+    return (type instanceof Set) && type.size === 4 && ClockwiseOrientations.every(orientation => type.has(orientation));
+}
+
+/**
+ * Computes the area covered by the fields of commands.
+ *
+ * @param commands - commands of the fields
+ * @param dpi - resolution of the printer
+ * @returns the bounding box of the fields in dots, if any field is drawn
+ */
+function measureFields(commands : Array<ZplCommand<any>>, dpi : number) : void | { x : number, y : number, width : number, height : number }
+{
+    const commandSet = new ZplCommandSet();
+    commands.forEach(command => commandSet.addCommand(command));
+
+    const boxes = getRenderFields(commandSet, dpi).fields.map(getRenderFieldBounds);
+    if (!boxes.length) return;
+
+    const left = Math.min(...boxes.map(box => box.x));
+    const top  = Math.min(...boxes.map(box => box.y));
+    return {
+        x      : left,
+        y      : top,
+        width  : Math.max(...boxes.map(box => box.x + box.width)) - left,
+        height : Math.max(...boxes.map(box => box.y + box.height)) - top,
+    };
+}
+
+/**
+ * Computes the size of a fragment, from its origin to the right and bottom edges of its fields.
+ *
+ * @param commands - commands of the fragment, without the start and end of the format
+ * @param dpi - resolution of the printer
+ * @returns the width and height of the fragment in dots
+ */
+export function getFragmentSize(commands : Array<ZplCommand<any>>, dpi : number) : { width : number, height : number }
+{
+    const bounds = measureFields(commands, dpi);
+    if (!bounds) return { width : 0, height : 0 };
+
+    return { width : Math.max(0, bounds.x + bounds.width), height : Math.max(0, bounds.y + bounds.height) };
+}
+
+/**
+ * Moves the fields of a fragment to an offset, rotating the fragment within its size first. Rotated
+ * fields are positioned by their bounds measured on a preview, turning text and bar code orientations
+ * and swapping the sides of graphics.
+ *
+ * @param commands - commands of the fragment, without the start and end of the format
+ * @param options.x - x-axis offset in dots
+ * @param options.y - y-axis offset in dots
+ * @param options.rotation - clockwise rotation of the fragment
+ * @param options.width - width of the fragment in dots, before rotation
+ * @param options.height - height of the fragment in dots, before rotation
+ * @param options.dpi - resolution of the printer
+ * @returns the commands of the fragment at the offset
+ * @throws a TypeError if a rotated field is an image, or its size is unknown (bar codes that are not previewed)
+ */
+export function transformFragmentCommands(commands : Array<ZplCommand<any>>, options : { x : number, y : number, rotation : FragmentRotation, width : number, height : number, dpi : number }) : Array<ZplCommand<any>>
+{
+    const { x, y, rotation, width, height, dpi } = options;
+    const quarterTurns = rotation / 90;
+    const rotateOrientations = (command : ZplCommand<any>) : ZplCommand<any> => {
+        const keys = Object.keys(command.params ?? {}).filter(key => isOrientationParameter(command.schema, key));
+        if (!keys.length) return command;
+
+        const params = { ...command.params };
+        for (const key of keys) {
+            const index = ClockwiseOrientations.indexOf(String(params[key]).toUpperCase());
+            if (index >= 0) params[key] = ClockwiseOrientations[(index + quarterTurns) % 4];
+        }
+        return { schema : command.schema, params };
+    };
+
+    const state  : Array<ZplCommand<any>> = [];
+    const result : Array<ZplCommand<any>> = [];
+    let field : void | Array<ZplCommand<any>> = undefined;
+
+    const transformField = (commands : Array<ZplCommand<any>>) => {
+        if (!quarterTurns) {
+            return commands.map(command => (command.schema === ZplFieldOrigin)
+                ? { schema : command.schema, params : { ...command.params, x : (command.params.x ?? 0) + x, y : (command.params.y ?? 0) + y } }
+                : command);
+        }
+
+        const image = commands.find(({ schema }) => schema === ZplGraphicField);
+        if (image) throw new TypeError('Images cannot be rotated in a fragment');
+
+        const bounds = measureFields([ ...state, ...commands ], dpi);
+        const symbol = commands.find(({ schema }) => schema !== ZplFieldOrigin && schema !== ZplFieldSeparator);
+        if (!bounds) throw new TypeError(`Fields ${symbol?.schema.mnemonic ?? ''} cannot be rotated in a fragment, their size is unknown`);
+
+        const rotated = (quarterTurns === 1) ? { x : height - bounds.y - bounds.height, y : bounds.x }
+                      : (quarterTurns === 2) ? { x : width - bounds.x - bounds.width, y : height - bounds.y - bounds.height }
+                      :                        { x : bounds.y, y : width - bounds.x - bounds.width };
+
+        return commands.map(command => {
+            const { schema, params } = command;
+            if (schema !== ZplFieldOrigin && schema !== ZplGraphicBox && schema !== ZplGraphicEllipse && schema !== ZplGraphicDiagonalLine) {
+                return rotateOrientations(command);
+            }
+
+            const transformed = { ...params };
+            if (schema === ZplFieldOrigin) {
+                // Right justified fields are positioned by their left edge once rotated
+                const isJustified = (params.z === 1);
+                transformed.x = x + rotated.x + (isJustified ? 0 : (params.x ?? 0) - bounds.x);
+                transformed.y = y + rotated.y + (isJustified ? 0 : (params.y ?? 0) - bounds.y);
+                if (isJustified) transformed.z = 0;
+            }
+            else if (quarterTurns % 2) {
+                transformed.w = params.h;
+                transformed.h = params.w;
+                if (schema === ZplGraphicDiagonalLine) transformed.o = (String(params.o).toUpperCase() === 'L') ? 'R' : 'L';
+            }
+            return { schema, params : transformed };
+        });
+    };
+
+    for (const command of commands) {
+        if (command.schema === ZplFieldOrigin) field = [];
+
+        if (!field) {
+            state.push(command);
+            result.push(quarterTurns ? rotateOrientations(command) : command);
+            continue;
+        }
+
+        field.push(command);
+        if (command.schema === ZplFieldSeparator) {
+            result.push(...transformField(field));
+            field = undefined;
+        }
+    }
+    if (field) result.push(...transformField(field));
+
+    return result;
+}
@@ -0,0 +1,81 @@
+import { ZplCommandSet } from '../commands/command-set';
+import { parseZpl } from '../commands/command-parser';
+import { MonochromeBitmap } from '../utils/utils-graphics';
+import { inchesToDots } from '../utils/utils-units';
+import { encodeMonochromePng } from '../image/image-png';
+import { getRenderFields } from './render-fields';
+import { rasterizeLabel } from './render-raster';
+import { drawLabelSvg } from './render-svg';
+
+export { RenderBar, RenderField, RenderLabel, RenderTextLine, getRenderFields, getRenderFieldBounds } from './render-fields';
+export { RenderFont, BitmapFontCells, DefaultFont, getFontHeight, getCharacterAdvances, getTextWidth } from './render-fonts';
+export { rasterizeLabel } from './render-raster';
+export { drawLabelSvg } from './render-svg';
+
+/**
+ * Options for rendering a label.
+ * 
+ * width     - width of the label in dots (defaults to ^PW, or 4 inches)
+ * height    - height of the label in dots (defaults to ^LL, or 6 inches)
+ * dpi       - resolution of the printer the label is written for (defaults to 300)
+ * outputDpi - resolution of the rendered image (defaults to dpi, one pixel per dot)
+ */
+export type RenderOptions = {
+    width?     : number;
+    height?    : number;
+    dpi?       : number;
+    outputDpi? : number;
+};
+
+/**
+ * Renders a label offline onto a 1-bit bitmap, as a preview of the printed label. Covers graphic boxes
+ * (with rounding), circles, ellipses, diagonal lines and fields, reverse printing, text (drawn with a
+ * preview font using the metrics of the resident fonts), linear bar codes (Code 128, Code 39, EAN-13,
+ * UPC-A and Interleaved 2 of 5) and QR codes (drawn with their finder patterns at their actual size).
+ * 
+ * @param zpl - commands of the label, or ZPL as a string or buffer
+ * @param options - render options
+ * @returns the bitmap, with a set bit for each black pixel
+ */
+export function renderZplToBitmap(zpl : ZplCommandSet | string | Uint8Array, options : RenderOptions = {}) : MonochromeBitmap
+{
+    const commandSet = (zpl instanceof ZplCommandSet) ? zpl : parseZpl(zpl);
+    const dpi = options.dpi || 300;
+
+    const label  = getRenderFields(commandSet, dpi);
+    const width  = options.width  ?? label.width  ?? inchesToDots(4, dpi);
+    const height = options.height ?? label.height ?? inchesToDots(6, dpi);
+    return rasterizeLabel(label, width, height, (options.outputDpi || dpi) / dpi);
+}
+
+/**
+ * Renders a label offline into a PNG file, as a preview of the printed label (see renderZplToBitmap).
+ * 
+ * @param zpl - commands of the label, or ZPL as a string or buffer
+ * @param options - render options
+ * @returns contents of the PNG file
+ */
+export function renderZplToPng(zpl : ZplCommandSet | string | Uint8Array, options : RenderOptions = {}) : Uint8Array
+{
+    return encodeMonochromePng(renderZplToBitmap(zpl, options), options.outputDpi || options.dpi || 300);
+}
+
+/**
+ * Renders a label offline into an SVG document, as a scalable preview of the printed label. Covers the
+ * same fields as renderZplToBitmap, each drawn as vector shapes in dot coordinates, text is drawn as
+ * text elements so that the SVG stays readable.
+ * 
+ * @param zpl - commands of the label, or ZPL as a string or buffer
+ * @param options - render options (options.outputDpi is ignored, the document is sized in CSS pixels)
+ * @returns the SVG document
+ */
+export function renderZplToSvg(zpl : ZplCommandSet | string | Uint8Array, options : RenderOptions = {}) : string
+{
+    const commandSet = (zpl instanceof ZplCommandSet) ? zpl : parseZpl(zpl);
+    const dpi = options.dpi || 300;
+
+    const label  = getRenderFields(commandSet, dpi);
+    const width  = options.width  ?? label.width  ?? inchesToDots(4, dpi);
+    const height = options.height ?? label.height ?? inchesToDots(6, dpi);
+    return drawLabelSvg(label, width, height, dpi);
+}
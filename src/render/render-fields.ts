@@ -0,0 +1,551 @@
+import { QRErrorCorrectionLevel, QRModel, encodeQRCode } from '../utils/utils-qr-code';
+import { LinearBarCodeSymbology, computeMod10CheckDigit, encodeLinearBarCode, normalizeLinearBarCodeData } from '../utils/utils-barcodes';
+import { MonochromeBitmap, createMonochromeBitmap, hexStringToBitmap } from '../utils/utils-graphics';
+import { unescapeFieldDataHex } from '../utils/utils-encodings';
+import { ZplCommandSet } from '../commands/command-set';
+import { ZplCommandTemplate, ZplCommandParams } from '../commands/command-template';
+import {
+    ZplEndFormat,
+    ZplLabelHome,
+    ZplLabelLength,
+    ZplLabelReversePrint,
+    ZplPrintWidth,
+
+    // Generic Fields
+    ZplFieldBlock,
+    ZplFieldData,
+    ZplFieldHexadecimalIndicator,
+    ZplFieldOrientation,
+    ZplFieldOrigin,
+    ZplFieldReversePrint,
+    ZplFieldSeparator,
+    ZplFieldVariable,
+    ZplSerializationData,
+
+    // Barcodes
+    ZplBarCodeFieldDefault,
+    ZplCode128BarCode,
+    ZplCode39BarCode,
+    ZplEAN13BarCode,
+    ZplInterleaved2of5BarCode,
+    ZplQRCodeBarCode,
+    ZplUPCABarCode,
+
+    // Fonts
+    ZplScalableFont,
+    ZplBitmappedFont,
+    ZplUseFontNameToCallFont,
+
+    // Graphics
+    ZplGraphicBox,
+    ZplGraphicCircle,
+    ZplGraphicDiagonalLine,
+    ZplGraphicEllipse,
+    ZplGraphicField,
+} from '../commands';
+import { RenderFont, DefaultFont, getFontHeight, getCharacterAdvances } from './render-fonts';
+
+export type RenderOrientation = 'N'|'R'|'I'|'B';
+export type RenderColor = 'B'|'W';
+
+/**
+ * Line of a text field, positioned (in dots) within the text field as if it was not rotated.
+ */
+export type RenderTextLine = {
+    text     : string;
+    x        : number;
+    y        : number;
+    advances : number[];
+    gaps     : number[];
+};
+
+/**
+ * Bar of a linear bar code, positioned (in dots) within the bar code as if it was not rotated.
+ */
+export type RenderBar = {
+    x      : number;
+    y      : number;
+    width  : number;
+    height : number;
+};
+
+/**
+ * Field of a label, resolved into dot coordinates. Fields are positioned by the top left
+ * corner of their bounding box, reverse fields invert the dots they cover.
+ */
+export type RenderField = { x : number, y : number, reverse : boolean } & (
+    { type : 'box',      width : number, height : number, thickness : number, color : RenderColor, rounding : number } |
+    { type : 'ellipse',  width : number, height : number, thickness : number, color : RenderColor } |
+    { type : 'diagonal', width : number, height : number, thickness : number, color : RenderColor, direction : 'L'|'R' } |
+    { type : 'graphic',  bitmap : MonochromeBitmap } |
+    { type : 'text',     width : number, height : number, orientation : RenderOrientation, font : RenderFont, lineHeight : number, lines : RenderTextLine[] } |
+    { type : 'barcode',  width : number, height : number, orientation : RenderOrientation, bars : RenderBar[], font : RenderFont, lineHeight : number, lines : RenderTextLine[] } |
+    { type : 'qrcode',   data : string, errorCorrection : QRErrorCorrectionLevel, magnification : number, model : QRModel }
+);
+
+/**
+ * Label as a list of fields to draw, in order.
+ */
+export type RenderLabel = {
+    width?  : number;
+    height? : number;
+    fields  : RenderField[];
+};
+
+/**
+ * Field being read, until its field separator (^FS).
+ */
+type PendingField = {
+    x?             : number;
+    y?             : number;
+    justification? : number;
+    font?          : RenderFont;
+    orientation?   : RenderOrientation;
+    reverse?       : boolean;
+    block?         : { width : number, maxLines : number, lineSpacing : number, justify : string, hangingIndent : number };
+    symbol?        : { schema : ZplCommandTemplate<any>, params : ZplCommandParams };
+    hexIndicator?  : string;
+    data?          : string;
+};
+
+/**
+ * Margin the printer leaves above QR codes (^BQ), in dots.
+ */
+const QRCodeTopMargin = 10;
+
+/**
+ * Symbology of the linear bar code commands that are drawn.
+ */
+const LinearBarCodeSymbologies = new Map<ZplCommandTemplate<any>, LinearBarCodeSymbology>([
+    [ ZplCode128BarCode,         'code128' ],
+    [ ZplCode39BarCode,          'code39' ],
+    [ ZplEAN13BarCode,           'ean13' ],
+    [ ZplUPCABarCode,            'upca' ],
+    [ ZplInterleaved2of5BarCode, 'interleaved2of5' ],
+]);
+
+/**
+ * Reads a numeric parameter, which may be omitted or (for parsed commands) invalid.
+ *
+ * @param value - value of the parameter
+ * @param fallback - default value of the parameter
+ * @returns the number
+ */
+function numberParam(value : unknown, fallback : number) : number
+{
+    const number = Number(value);
+    return (value === undefined || value === '' || isNaN(number)) ? fallback : number;
+}
+
+/**
+ * Reads a field orientation parameter.
+ *
+ * @param value - value of the parameter
+ * @param fallback - orientation when the parameter is omitted or invalid
+ * @returns the orientation
+ */
+function orientationParam(value : unknown, fallback : RenderOrientation) : RenderOrientation
+{
+    const orientation = String(value ?? '').toUpperCase();
+    return /^[NRIB]$/.test(orientation) ? orientation as RenderOrientation : fallback;
+}
+
+/**
+ * Reads a font command (^A, ^A@) into the font of a field. Fonts called by name are measured
+ * like font 0.
+ *
+ * @param schema - font command
+ * @param params - parameters of the font command
+ * @returns the font
+ */
+function readFont(schema : ZplCommandTemplate<any>, params : ZplCommandParams) : RenderFont
+{
+    const name = (schema === ZplUseFontNameToCallFont) ? '0' : String(params.f ?? 'A');
+
+    let height = numberParam(params.h, NaN);
+    let width  = numberParam(params.w, NaN);
+    if (isNaN(height) && isNaN(width)) {
+        height = DefaultFont.height;
+        width  = DefaultFont.width;
+    }
+    return { name, height : isNaN(height) ? width : height, width : isNaN(width) ? height : width };
+}
+
+/**
+ * Splits field block data into lines, wrapping words to fit the width of the block. Within a
+ * field block, "\&" is a line break and "\\" is a backslash.
+ *
+ * @param font - font of the text
+ * @param data - field data
+ * @param width - width of the block
+ * @param hangingIndent - indent of the second and remaining lines
+ * @returns the lines of text
+ */
+function wrapText(font : RenderFont, data : string, width : number, hangingIndent : number) : string[]
+{
+    const paragraphs = [ '' ];
+    for (let i = 0; i < data.length; i++) {
+        if (data[i] === '\\' && data[i + 1] === '&') {
+            paragraphs.push('');
+            i++;
+        }
+        else {
+            if (data[i] === '\\' && data[i + 1] === '\\') i++;
+            paragraphs[paragraphs.length - 1] += data[i];
+        }
+    }
+
+    const measure = (text : string) => getCharacterAdvances(font, text).advances.reduce((sum, advance) => sum + advance, 0);
+    const lines : string[] = [];
+    for (const paragraph of paragraphs) {
+        let line : string | undefined = undefined;
+        for (const word of paragraph.split(' ')) {
+            const candidate = (line === undefined) ? word : `${line} ${word}`;
+            const indent = lines.length ? hangingIndent : 0;
+            if (line === undefined || measure(candidate) + indent <= width) {
+                line = candidate;
+            }
+            else {
+                lines.push(line);
+                line = word;
+            }
+        }
+        lines.push(line || '');
+    }
+    return lines;
+}
+
+/**
+ * Lays out the data of a text field into lines.
+ *
+ * @param field - text field
+ * @param font - font of the text
+ * @returns object.lines - lines of the text
+ * @returns object.width - width of the text, as if it was not rotated
+ * @returns object.height - height of the text, as if it was not rotated
+ */
+function layoutText(field : PendingField, font : RenderFont)
+{
+    const lineHeight = getFontHeight(font);
+    const block = field.block;
+    if (!block) {
+        const { advances, gaps } = getCharacterAdvances(font, field.data);
+        const width = advances.reduce((sum, advance) => sum + advance, 0);
+        return { lines : [ { text : field.data, x : 0, y : 0, advances, gaps } ], width, height : lineHeight, lineHeight };
+    }
+
+    // Lines past the maximum number of lines overwrite the last line
+    const texts = wrapText(font, field.data, block.width, block.hangingIndent);
+    const lines = texts.map((text, index) => {
+        const { advances, gaps } = getCharacterAdvances(font, text);
+        const lineWidth = advances.reduce((sum, advance) => sum + advance, 0);
+        const indent = index ? block.hangingIndent : 0;
+
+        let x = indent;
+        if (block.justify === 'C') x = indent + (block.width - indent - lineWidth) / 2;
+        if (block.justify === 'R') x = block.width - lineWidth;
+
+        const y = Math.min(index, block.maxLines - 1) * (lineHeight + block.lineSpacing);
+        return { text, x, y, advances, gaps };
+    });
+
+    const lineCount = Math.min(lines.length, block.maxLines);
+    return { lines, width : block.width, height : lineCount * lineHeight + (lineCount - 1) * block.lineSpacing, lineHeight };
+}
+
+/**
+ * Reads the field data of a QR code (e.g. "QA,data", "MM,Bnnnndata" or the mixed mode "MM,N123,AABC") into
+ * the encoded data, after the structured append header if any (e.g. "D0102FF,").
+ *
+ * @param data - field data of the QR code
+ * @param errorCorrection - error correction level of the ^BQ command
+ * @returns object.data - the encoded data
+ * @returns object.errorCorrection - the error correction level
+ */
+function readQRCodeData(data : string, errorCorrection : QRErrorCorrectionLevel)
+{
+    const match = /^(?:D[0-9]{4}[0-9A-F]{2},)?([HQML]?)([AM]?),([\s\S]*)$/i.exec(data);
+    if (!match) return { data, errorCorrection };
+
+    let encoded = match[3];
+    if (match[2].toUpperCase() === 'M') {
+        // Segments are separated by commas, byte segments have their length
+        let segments = '';
+        for (let i = 0; i < encoded.length;) {
+            const mode = encoded[i].toUpperCase();
+            const length = (mode === 'B') ? parseInt(encoded.substring(i + 1, i + 5), 10) : NaN;
+            const end = isNaN(length) ? encoded.indexOf(',', i) : i + 5 + length;
+            segments += encoded.substring(i + ((mode === 'B') ? 5 : 1), (end === -1) ? encoded.length : end);
+            if (end === -1) break;
+            i = end + ((encoded[end] === ',') ? 1 : 0);
+        }
+        encoded = segments;
+    }
+    return { data : encoded, errorCorrection : (match[1].toUpperCase() || errorCorrection) as QRErrorCorrectionLevel };
+}
+
+/**
+ * Lays out the bars of a linear bar code and its interpretation line.
+ *
+ * @param symbology - bar code symbology
+ * @param params - parameters of the bar code command
+ * @param data - field data of the bar code
+ * @param defaults - bar code field defaults (^BY)
+ * @returns the bars and interpretation line, as if the bar code was not rotated, or nothing if the data cannot be encoded
+ */
+function layoutLinearBarCode(symbology : LinearBarCodeSymbology, params : ZplCommandParams, data : string, defaults : { moduleWidth : number, ratio : number, height : number })
+{
+    let normalized : string;
+    try {
+        normalized = normalizeLinearBarCodeData(symbology, data);
+    }
+    catch (e) {
+        return;
+    }
+
+    const checkDigit = (params.e === true);
+    const widths = encodeLinearBarCode(symbology, normalized, { ratio : defaults.ratio, checkDigit });
+    const { moduleWidth } = defaults;
+    const barHeight = numberParam(params.h, defaults.height);
+
+    let interpretation = normalized;
+    if (symbology === 'ean13' || symbology === 'upca') interpretation += computeMod10CheckDigit((symbology === 'upca' ? '0' : '') + normalized);
+    if (symbology === 'interleaved2of5' && checkDigit) interpretation += computeMod10CheckDigit(normalized);
+    if (symbology === 'code39') interpretation = `*${normalized}*`;
+
+    // The interpretation line is printed in a font scaled with the module width
+    const font : RenderFont = { name : 'A', height : 9 * moduleWidth, width : 5 * moduleWidth };
+    const lineHeight = getFontHeight(font);
+    const hasInterpretation = (params.f !== false);
+    const isAbove = hasInterpretation && (params.g === true);
+    const barsTop = isAbove ? lineHeight + moduleWidth : 0;
+
+    const bars : RenderBar[] = [];
+    let offset = 0;
+    widths.forEach((width, index) => {
+        if (index % 2 === 0) bars.push({ x : offset * moduleWidth, y : barsTop, width : width * moduleWidth, height : barHeight });
+        offset += width;
+    });
+    const width = offset * moduleWidth;
+
+    const lines : RenderTextLine[] = [];
+    if (hasInterpretation) {
+        const { advances, gaps } = getCharacterAdvances(font, interpretation);
+        const textWidth = advances.reduce((sum, advance) => sum + advance, 0);
+        lines.push({ text : interpretation, x : (width - textWidth) / 2, y : isAbove ? 0 : barHeight + moduleWidth, advances, gaps });
+    }
+
+    return { width, height : barHeight + (hasInterpretation ? lineHeight + moduleWidth : 0), bars, font, lineHeight, lines };
+}
+
+/**
+ * Builds the module matrix drawn for a QR code, encoded as the printer encodes it. Model 1 symbols are
+ * drawn as model 2 symbols of the same size.
+ *
+ * @param data - data of the QR code
+ * @param errorCorrection - error correction level
+ * @returns the module matrix, true for dark modules (empty when the data does not fit a QR code)
+ */
+export function getQRCodeMatrix(data : string, errorCorrection : QRErrorCorrectionLevel) : boolean[][]
+{
+    try {
+        return encodeQRCode(data, { errorCorrectionLevel : errorCorrection });
+    }
+    catch (e) {
+        return [];
+    }
+}
+
+/**
+ * Computes the area covered by a field, rotated fields (text, bar codes) included.
+ *
+ * @param field - field of the label, in dots
+ * @returns the bounding box of the field, in dots
+ */
+export function getRenderFieldBounds(field : RenderField) : { x : number, y : number, width : number, height : number }
+{
+    const { x, y } = field;
+
+    switch (field.type) {
+        case 'graphic':
+            return { x, y, width : field.bitmap.width, height : field.bitmap.height };
+
+        case 'qrcode': {
+            const size = getQRCodeMatrix(field.data, field.errorCorrection).length * field.magnification;
+            return { x, y, width : size, height : size };
+        }
+
+        case 'text':
+        case 'barcode': {
+            const isVertical = (field.orientation === 'R' || field.orientation === 'B');
+            return { x, y, width : isVertical ? field.height : field.width, height : isVertical ? field.width : field.height };
+        }
+
+        default:
+            return { x, y, width : field.width, height : field.height };
+    }
+}
+
+/**
+ * Reads a command set into the fields of a label, resolving the label home (^LH), field origins,
+ * orientations, reverse printing (^FR, ^LR) and hex escapes (^FH) into dot coordinates. Fields are
+ * read until the end of the first label (^XZ), commands that do not draw anything are ignored.
+ *
+ * @param commandSet - commands of the label
+ * @param dpi - resolution of the printer, for the default magnification of QR codes
+ * @returns the label width and height (^PW, ^LL) if any, and its fields
+ */
+export function getRenderFields(commandSet : ZplCommandSet, dpi : number = 300) : RenderLabel
+{
+    const label : RenderLabel = { width : undefined, height : undefined, fields : [] };
+
+    let home = { x : 0, y : 0 };
+    let labelReverse = false;
+    let defaultOrientation : RenderOrientation = 'N';
+    let defaultJustification = 0;
+    let barCodeDefaults = { moduleWidth : 2, ratio : 3, height : 10 };
+    let field : PendingField = {};
+
+    const endField = () => {
+        const renderField = createRenderField(field);
+        if (renderField) label.fields.push(renderField);
+        field = {};
+    };
+
+    const createRenderField = (field : PendingField) : void | RenderField => {
+        const x = home.x + (field.x ?? 0);
+        const y = home.y + (field.y ?? 0);
+        const reverse = !!field.reverse || labelReverse;
+        const { schema, params } = field.symbol ?? { schema : undefined, params : {} };
+
+        if (schema === ZplGraphicBox || schema === ZplGraphicEllipse || schema === ZplGraphicDiagonalLine || schema === ZplGraphicCircle) {
+            const thickness = numberParam(params.t, 1);
+            const color : RenderColor = String(params.c).toUpperCase() === 'W' ? 'W' : 'B';
+            const size = (schema === ZplGraphicCircle) ? numberParam(params.d, 3) : undefined;
+            const width  = Math.max(size ?? numberParam(params.w, thickness), thickness);
+            const height = Math.max(size ?? numberParam(params.h, thickness), thickness);
+
+            if (schema === ZplGraphicBox) return { type : 'box', x, y, reverse, width, height, thickness, color, rounding : numberParam(params.r, 0) };
+            if (schema === ZplGraphicDiagonalLine) return { type : 'diagonal', x, y, reverse, width, height, thickness, color, direction : String(params.o).toUpperCase() === 'L' ? 'L' : 'R' };
+            return { type : 'ellipse', x, y, reverse, width, height, thickness, color };
+        }
+
+        if (schema === ZplGraphicField) {
+            const totalBytes  = numberParam(params.b, 0);
+            const bytesPerRow = Math.max(1, numberParam(params.d, 1));
+            const data = String(params.data ?? '');
+
+            let bitmap : MonochromeBitmap;
+            if (String(params.a).toUpperCase() === 'B') {
+                bitmap = createMonochromeBitmap(bytesPerRow * 8, Math.ceil(totalBytes / bytesPerRow));
+                for (let i = 0, ilen = Math.min(bitmap.data.length, data.length); i < ilen; i++) bitmap.data[i] = data.charCodeAt(i);
+            }
+            else {
+                bitmap = hexStringToBitmap(data, totalBytes, bytesPerRow);
+            }
+            return { type : 'graphic', x, y, reverse, bitmap };
+        }
+
+        if (field.data === undefined) return;
+
+        if (schema === ZplQRCodeBarCode) {
+            const magnification = numberParam(params.c, dpi <= 150 ? 1 : dpi <= 200 ? 2 : dpi <= 300 ? 3 : 6);
+            const { data, errorCorrection } = readQRCodeData(field.data, (String(params.d ?? 'Q').toUpperCase()) as QRErrorCorrectionLevel);
+            const model = (numberParam(params.b, 2) === 1) ? 1 : 2;
+            return { type : 'qrcode', x, y : y + QRCodeTopMargin, reverse, data, errorCorrection, magnification, model };
+        }
+
+        const orientation = field.orientation ?? defaultOrientation;
+        if (LinearBarCodeSymbologies.has(schema)) {
+            const barCode = layoutLinearBarCode(LinearBarCodeSymbologies.get(schema), params, field.data, barCodeDefaults);
+            if (!barCode) return;
+
+            return { type : 'barcode', x, y, reverse, orientation : orientationParam(params.o, orientation), ...barCode };
+        }
+
+        // Other bar codes are not drawn yet
+        if (schema) return;
+
+        const font = field.font ?? DefaultFont;
+        const { lines, width, height, lineHeight } = layoutText(field, font);
+
+        // Right justified fields are positioned by their right edge
+        const justification = field.justification ?? defaultJustification;
+        const extent = (orientation === 'R' || orientation === 'B') ? height : width;
+        return { type : 'text', x : justification === 1 ? x - extent : x, y, reverse, width, height, orientation, font, lineHeight, lines };
+    };
+
+    for (const { schema, params = {} } of commandSet.getCommands()) {
+        switch (schema) {
+            case ZplPrintWidth:
+                label.width = numberParam(params.a, undefined);
+                break;
+            case ZplLabelLength:
+                label.height = numberParam(params.y, undefined);
+                break;
+            case ZplLabelHome:
+                home = { x : numberParam(params.x, 0), y : numberParam(params.y, 0) };
+                break;
+            case ZplLabelReversePrint:
+                labelReverse = (params.a === true);
+                break;
+            case ZplFieldOrientation:
+                defaultOrientation   = orientationParam(params.r, defaultOrientation);
+                defaultJustification = numberParam(params.z, defaultJustification);
+                break;
+
+            case ZplFieldOrigin:
+                field.x = numberParam(params.x, 0);
+                field.y = numberParam(params.y, 0);
+                field.justification = numberParam(params.z, undefined);
+                break;
+            case ZplScalableFont:
+            case ZplBitmappedFont:
+            case ZplUseFontNameToCallFont:
+                field.font = readFont(schema, params);
+                field.orientation = orientationParam(params.o, defaultOrientation);
+                break;
+            case ZplFieldReversePrint:
+                field.reverse = true;
+                break;
+            case ZplFieldBlock:
+                field.block = {
+                    width         : numberParam(params.a, 0),
+                    maxLines      : Math.max(1, numberParam(params.b, 1)),
+                    lineSpacing   : numberParam(params.c, 0),
+                    justify       : String(params.d ?? 'L').toUpperCase(),
+                    hangingIndent : numberParam(params.e, 0),
+                };
+                break;
+            case ZplFieldHexadecimalIndicator:
+                field.hexIndicator = String(params.a ?? '_');
+                break;
+            case ZplFieldData:
+            case ZplFieldVariable:
+                field.data = String(params.a ?? '');
+                if (field.hexIndicator) field.data = unescapeFieldDataHex(field.data, field.hexIndicator);
+                break;
+            case ZplSerializationData:
+                field.data = String(params.v ?? '');
+                break;
+            case ZplFieldSeparator:
+                endField();
+                break;
+            case ZplBarCodeFieldDefault:
+                barCodeDefaults = {
+                    moduleWidth : numberParam(params.w, barCodeDefaults.moduleWidth),
+                    ratio       : numberParam(params.r, barCodeDefaults.ratio),
+                    height      : numberParam(params.h, barCodeDefaults.height),
+                };
+                break;
+            case ZplEndFormat:
+                return label;
+
+            default:
+                // Bar codes and graphics are drawn with the data of their field
+                if (/^\^[BG]/.test(schema.mnemonic)) field.symbol = { schema, params };
+        }
+    }
+
+    return label;
+}
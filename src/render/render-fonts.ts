@@ -0,0 +1,161 @@
+/**
+ * Font of a text field, with its height and width in dots as requested by ^A.
+ */
+export type RenderFont = {
+    name   : string;
+    height : number;
+    width  : number;
+};
+
+/**
+ * Default font (^CF default) for text fields without ^A.
+ */
+export const DefaultFont : RenderFont = { name : 'A', height : 9, width : 5 };
+
+/**
+ * Cell size of the resident bitmap fonts (A to H) in dots at magnification 1, with the gap
+ * between characters.
+ */
+export const BitmapFontCells : { [ name : string ] : { height : number, width : number, gap : number } } = {
+    A : { height : 9,  width : 5,  gap : 1 },
+    B : { height : 11, width : 7,  gap : 2 },
+    C : { height : 18, width : 10, gap : 2 },
+    D : { height : 18, width : 10, gap : 2 },
+    E : { height : 28, width : 15, gap : 5 },
+    F : { height : 26, width : 13, gap : 3 },
+    G : { height : 60, width : 40, gap : 8 },
+    H : { height : 21, width : 13, gap : 6 },
+};
+
+/**
+ * Advance widths of the printable ASCII characters (32 to 126) of the scalable font 0, in
+ * thousandths of the character width. Font 0 is a bold sans-serif, these proportions follow
+ * the metrics of Helvetica Bold.
+ */
+const Font0Widths = [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,  //   ! " # $ % & ' ( ) * + , - . /
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,  // 0 1 2 3 4 5 6 7 8 9 : ; < = > ?
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,  // @ A B C D E F G H I J K L M N O
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,  // P Q R S T U V W X Y Z [ \ ] ^ _
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,  // ` a b c d e f g h i j k l m n o
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,       // p q r s t u v w x y z { | } ~
+];
+
+/**
+ * 5x7 glyphs of the printable ASCII characters (32 to 126), used to draw text in previews. Each glyph
+ * is 5 columns from left to right, with the least significant bit as the top row.
+ */
+const Glyphs5x7 = [
+    0x00,0x00,0x00,0x00,0x00, 0x00,0x00,0x5F,0x00,0x00, 0x00,0x07,0x00,0x07,0x00, 0x14,0x7F,0x14,0x7F,0x14,
+    0x24,0x2A,0x7F,0x2A,0x12, 0x23,0x13,0x08,0x64,0x62, 0x36,0x49,0x55,0x22,0x50, 0x00,0x05,0x03,0x00,0x00,
+    0x00,0x1C,0x22,0x41,0x00, 0x00,0x41,0x22,0x1C,0x00, 0x08,0x2A,0x1C,0x2A,0x08, 0x08,0x08,0x3E,0x08,0x08,
+    0x00,0x50,0x30,0x00,0x00, 0x08,0x08,0x08,0x08,0x08, 0x00,0x60,0x60,0x00,0x00, 0x20,0x10,0x08,0x04,0x02,
+    0x3E,0x51,0x49,0x45,0x3E, 0x00,0x42,0x7F,0x40,0x00, 0x42,0x61,0x51,0x49,0x46, 0x21,0x41,0x45,0x4B,0x31,
+    0x18,0x14,0x12,0x7F,0x10, 0x27,0x45,0x45,0x45,0x39, 0x3C,0x4A,0x49,0x49,0x30, 0x01,0x71,0x09,0x05,0x03,
+    0x36,0x49,0x49,0x49,0x36, 0x06,0x49,0x49,0x29,0x1E, 0x00,0x36,0x36,0x00,0x00, 0x00,0x56,0x36,0x00,0x00,
+    0x08,0x14,0x22,0x41,0x00, 0x14,0x14,0x14,0x14,0x14, 0x00,0x41,0x22,0x14,0x08, 0x02,0x01,0x51,0x09,0x06,
+    0x32,0x49,0x79,0x41,0x3E, 0x7E,0x11,0x11,0x11,0x7E, 0x7F,0x49,0x49,0x49,0x36, 0x3E,0x41,0x41,0x41,0x22,
+    0x7F,0x41,0x41,0x22,0x1C, 0x7F,0x49,0x49,0x49,0x41, 0x7F,0x09,0x09,0x09,0x01, 0x3E,0x41,0x49,0x49,0x7A,
+    0x7F,0x08,0x08,0x08,0x7F, 0x00,0x41,0x7F,0x41,0x00, 0x20,0x40,0x41,0x3F,0x01, 0x7F,0x08,0x14,0x22,0x41,
+    0x7F,0x40,0x40,0x40,0x40, 0x7F,0x02,0x0C,0x02,0x7F, 0x7F,0x04,0x08,0x10,0x7F, 0x3E,0x41,0x41,0x41,0x3E,
+    0x7F,0x09,0x09,0x09,0x06, 0x3E,0x41,0x51,0x21,0x5E, 0x7F,0x09,0x19,0x29,0x46, 0x46,0x49,0x49,0x49,0x31,
+    0x01,0x01,0x7F,0x01,0x01, 0x3F,0x40,0x40,0x40,0x3F, 0x1F,0x20,0x40,0x20,0x1F, 0x3F,0x40,0x38,0x40,0x3F,
+    0x63,0x14,0x08,0x14,0x63, 0x07,0x08,0x70,0x08,0x07, 0x61,0x51,0x49,0x45,0x43, 0x00,0x7F,0x41,0x41,0x00,
+    0x02,0x04,0x08,0x10,0x20, 0x00,0x41,0x41,0x7F,0x00, 0x04,0x02,0x01,0x02,0x04, 0x40,0x40,0x40,0x40,0x40,
+    0x00,0x01,0x02,0x04,0x00, 0x20,0x54,0x54,0x54,0x78, 0x7F,0x48,0x44,0x44,0x38, 0x38,0x44,0x44,0x44,0x20,
+    0x38,0x44,0x44,0x48,0x7F, 0x38,0x54,0x54,0x54,0x18, 0x08,0x7E,0x09,0x01,0x02, 0x0C,0x52,0x52,0x52,0x3E,
+    0x7F,0x08,0x04,0x04,0x78, 0x00,0x44,0x7D,0x40,0x00, 0x20,0x40,0x44,0x3D,0x00, 0x7F,0x10,0x28,0x44,0x00,
+    0x00,0x41,0x7F,0x40,0x00, 0x7C,0x04,0x18,0x04,0x78, 0x7C,0x08,0x04,0x04,0x78, 0x38,0x44,0x44,0x44,0x38,
+    0x7C,0x14,0x14,0x14,0x08, 0x08,0x14,0x14,0x18,0x7C, 0x7C,0x08,0x04,0x04,0x08, 0x48,0x54,0x54,0x54,0x20,
+    0x04,0x3F,0x44,0x40,0x20, 0x3C,0x40,0x40,0x20,0x7C, 0x1C,0x20,0x40,0x20,0x1C, 0x3C,0x40,0x30,0x40,0x3C,
+    0x44,0x28,0x10,0x28,0x44, 0x0C,0x50,0x50,0x50,0x3C, 0x44,0x64,0x54,0x4C,0x44, 0x00,0x08,0x36,0x41,0x00,
+    0x00,0x00,0x7F,0x00,0x00, 0x00,0x41,0x36,0x08,0x00, 0x08,0x04,0x08,0x10,0x08,
+];
+
+/**
+ * Whether a font is one of the resident bitmap fonts, as opposed to font 0 (or a downloaded
+ * scalable font, which is measured like font 0).
+ *
+ * @param font - font of a text field
+ * @returns true for fonts A to H
+ */
+function isBitmapFont(font : RenderFont) : boolean
+{
+    return BitmapFontCells.hasOwnProperty(font.name.toUpperCase());
+}
+
+/**
+ * Calculates the height that a font actually prints at. Bitmap fonts are magnified by whole
+ * multiples of their cell, scalable fonts print at the requested height.
+ *
+ * @param font - font of a text field
+ * @returns the height of a line of text in dots
+ */
+export function getFontHeight(font : RenderFont) : number
+{
+    if (!isBitmapFont(font)) return font.height;
+
+    const cell = BitmapFontCells[font.name.toUpperCase()];
+    return cell.height * Math.max(1, Math.round(font.height / cell.height));
+}
+
+/**
+ * Calculates the advance width of each character of a text.
+ *
+ * @param font - font of a text field
+ * @param text - text to measure
+ * @returns object.advances - advance width of each character in dots
+ * @returns object.gaps - space after the glyph of each character in dots (included in its advance)
+ */
+export function getCharacterAdvances(font : RenderFont, text : string) : { advances : number[], gaps : number[] }
+{
+    const advances : number[] = [];
+    const gaps     : number[] = [];
+
+    if (isBitmapFont(font)) {
+        const cell = BitmapFontCells[font.name.toUpperCase()];
+        const magnification = Math.max(1, Math.round(font.width / cell.width));
+        for (let i = 0; i < text.length; i++) {
+            advances.push((cell.width + cell.gap) * magnification);
+            gaps.push(cell.gap * magnification);
+        }
+    }
+    else {
+        for (let i = 0; i < text.length; i++) {
+            const advance = (Font0Widths[text.charCodeAt(i) - 32] ?? 556) * font.width / 1000;
+            advances.push(advance);
+            gaps.push(advance * 0.15);
+        }
+    }
+
+    return { advances, gaps };
+}
+
+/**
+ * Calculates the width of a line of text, as the sum of the advance widths of its characters.
+ *
+ * @param font - font of a text field
+ * @param text - text to measure
+ * @returns the width of the text in dots
+ */
+export function getTextWidth(font : RenderFont, text : string) : number
+{
+    return getCharacterAdvances(font, text).advances.reduce((sum, advance) => sum + advance, 0);
+}
+
+/**
+ * Looks up whether a dot of the preview glyph of a character is set.
+ *
+ * @param character - character to draw (characters without a glyph are drawn as a question mark)
+ * @param column - column of the glyph, from 0 to 4
+ * @param row - row of the glyph, from 0 (top) to 7 (row 7 is always blank, as space below the text)
+ * @returns true if the dot is part of the glyph
+ */
+export function getGlyphDot(character : string, column : number, row : number) : boolean
+{
+    let code = character.charCodeAt(0) - 32;
+    if (code < 0 || code * 5 >= Glyphs5x7.length) code = '?'.charCodeAt(0) - 32;
+    if (column < 0 || column > 4 || row < 0 || row > 6) return false;
+
+    return !!(Glyphs5x7[code * 5 + column] & (1 << row));
+}
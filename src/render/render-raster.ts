@@ -0,0 +1,218 @@
+import { MonochromeBitmap, createMonochromeBitmap } from '../utils/utils-graphics';
+import { RenderColor, RenderField, RenderLabel, RenderOrientation, RenderTextLine, getQRCodeMatrix } from './render-fields';
+import { getGlyphDot } from './render-fonts';
+
+/**
+ * Canvas with one byte per pixel (1 for black), painted at a number of pixels per dot.
+ */
+type RasterCanvas = {
+    width  : number;
+    height : number;
+    scale  : number;
+    pixels : Uint8Array;
+};
+
+/**
+ * Paints the pixels of a canvas covered by a shape, sampling the shape (in dots) at the center of
+ * each pixel. Reverse shapes invert the pixels they cover instead of painting them.
+ *
+ * @param canvas - canvas to paint
+ * @param bounds - bounding box of the shape in dots, as [ left, top, right, bottom ]
+ * @param inside - whether a point (in dots) is inside the shape
+ * @param color - color of the shape
+ * @param reverse - whether the shape is reverse printed
+ */
+function paintShape(canvas : RasterCanvas, bounds : [ number, number, number, number ], inside : (x : number, y : number) => boolean, color : RenderColor, reverse : boolean)
+{
+    const { width, height, scale, pixels } = canvas;
+    const [ left, top, right, bottom ] = bounds;
+    const startX = Math.max(0, Math.floor(left * scale)), endX = Math.min(width,  Math.ceil(right  * scale));
+    const startY = Math.max(0, Math.floor(top  * scale)), endY = Math.min(height, Math.ceil(bottom * scale));
+
+    for (let py = startY; py < endY; py++) {
+        const y = (py + 0.5) / scale;
+        for (let px = startX; px < endX; px++) {
+            if (!inside((px + 0.5) / scale, y)) continue;
+
+            const index = py * width + px;
+            pixels[index] = reverse ? pixels[index] ^ 1 : (color === 'B' ? 1 : 0);
+        }
+    }
+}
+
+/**
+ * Whether a point is inside a rectangle with rounded corners.
+ */
+function insideRoundedRect(x : number, y : number, left : number, top : number, right : number, bottom : number, radius : number) : boolean
+{
+    if (x < left || x >= right || y < top || y >= bottom) return false;
+
+    const cornerX = Math.min(Math.max(x, left + radius), right - radius);
+    const cornerY = Math.min(Math.max(y, top + radius), bottom - radius);
+    return (x - cornerX) * (x - cornerX) + (y - cornerY) * (y - cornerY) <= radius * radius;
+}
+
+/**
+ * Whether a point is inside an ellipse.
+ */
+function insideEllipse(x : number, y : number, centerX : number, centerY : number, radiusX : number, radiusY : number) : boolean
+{
+    if (radiusX <= 0 || radiusY <= 0) return false;
+
+    const dx = (x - centerX) / radiusX;
+    const dy = (y - centerY) / radiusY;
+    return dx * dx + dy * dy <= 1;
+}
+
+/**
+ * Whether a point is on a dot of the glyphs of lines of text.
+ *
+ * @param lines - lines of text
+ * @param lineHeight - height of a line of text
+ * @param u - horizontal position within the text, as if it was not rotated
+ * @param v - vertical position within the text, as if it was not rotated
+ */
+function insideTextLines(lines : RenderTextLine[], lineHeight : number, u : number, v : number) : boolean
+{
+    return lines.some(line => {
+        if (v < line.y || v >= line.y + lineHeight) return false;
+
+        let start = line.x;
+        for (let i = 0; i < line.text.length; i++) {
+            const advance = line.advances[i];
+            if (u >= start && u < start + advance) {
+                const glyphWidth = advance - line.gaps[i];
+                const column = Math.floor((u - start) * 5 / glyphWidth);
+                const row = Math.floor((v - line.y) * 8 / lineHeight);
+                return getGlyphDot(line.text[i], column, row);
+            }
+            start += advance;
+        }
+        return false;
+    });
+}
+
+/**
+ * Paints a rotated field (text or bar code), mapping each point of the canvas back to the
+ * field as if it was not rotated.
+ *
+ * @param canvas - canvas to paint
+ * @param field - text or bar code field
+ * @param inside - whether a point (in dots, as if the field was not rotated) is inside the field
+ */
+function paintOrientedField(canvas : RasterCanvas, field : RenderField & { width : number, height : number, orientation : RenderOrientation }, inside : (u : number, v : number) => boolean)
+{
+    const { x, y, width, height, orientation, reverse } = field;
+    const isVertical = (orientation === 'R' || orientation === 'B');
+    paintShape(canvas, [ x, y, x + (isVertical ? height : width), y + (isVertical ? width : height) ], (px, py) => {
+        const rx = px - x, ry = py - y;
+        const u = orientation === 'R' ? ry : orientation === 'I' ? width - rx : orientation === 'B' ? width - ry : rx;
+        const v = orientation === 'R' ? height - rx : orientation === 'I' ? height - ry : orientation === 'B' ? rx : ry;
+        return inside(u, v);
+    }, 'B', reverse);
+}
+
+/**
+ * Paints a field onto a canvas.
+ *
+ * @param canvas - canvas to paint
+ * @param field - field of the label, in dots
+ */
+function paintField(canvas : RasterCanvas, field : RenderField)
+{
+    const { x, y, reverse } = field;
+
+    switch (field.type) {
+        case 'box': {
+            const { width, height, thickness, rounding } = field;
+            const radius = rounding * Math.min(width, height) / 16;
+            const innerRadius = Math.max(0, radius - thickness);
+            paintShape(canvas, [ x, y, x + width, y + height ], (px, py) =>
+                insideRoundedRect(px, py, x, y, x + width, y + height, radius)
+                && !insideRoundedRect(px, py, x + thickness, y + thickness, x + width - thickness, y + height - thickness, innerRadius),
+                field.color, reverse);
+            break;
+        }
+
+        case 'ellipse': {
+            const { width, height, thickness } = field;
+            const centerX = x + width / 2, centerY = y + height / 2;
+            paintShape(canvas, [ x, y, x + width, y + height ], (px, py) =>
+                insideEllipse(px, py, centerX, centerY, width / 2, height / 2)
+                && !insideEllipse(px, py, centerX, centerY, width / 2 - thickness, height / 2 - thickness),
+                field.color, reverse);
+            break;
+        }
+
+        case 'diagonal': {
+            const { width, height, thickness, direction } = field;
+            paintShape(canvas, [ x, y, x + width, y + height ], (px, py) => {
+                const progress = (py - y) / height;
+                const left = x + (width - thickness) * (direction === 'L' ? progress : 1 - progress);
+                return px >= left && px < left + thickness;
+            }, field.color, reverse);
+            break;
+        }
+
+        case 'graphic': {
+            const { width, height, bytesPerRow, data } = field.bitmap;
+            paintShape(canvas, [ x, y, x + width, y + height ], (px, py) => {
+                const column = Math.floor(px - x), row = Math.floor(py - y);
+                return !!(data[row * bytesPerRow + (column >> 3)] & (0x80 >> (column & 7)));
+            }, 'B', reverse);
+            break;
+        }
+
+        case 'text': {
+            const { lineHeight, lines } = field;
+            paintOrientedField(canvas, field, (u, v) => insideTextLines(lines, lineHeight, u, v));
+            break;
+        }
+
+        case 'barcode': {
+            const { bars, lineHeight, lines } = field;
+            paintOrientedField(canvas, field, (u, v) =>
+                bars.some(bar => u >= bar.x && u < bar.x + bar.width && v >= bar.y && v < bar.y + bar.height)
+                || insideTextLines(lines, lineHeight, u, v));
+            break;
+        }
+
+        case 'qrcode': {
+            const { magnification } = field;
+            const matrix = getQRCodeMatrix(field.data, field.errorCorrection);
+            const size = matrix.length * magnification;
+            paintShape(canvas, [ x, y, x + size, y + size ], (px, py) =>
+                !!matrix[Math.floor((py - y) / magnification)]?.[Math.floor((px - x) / magnification)],
+                'B', reverse);
+            break;
+        }
+    }
+}
+
+/**
+ * Draws the fields of a label onto a bitmap.
+ *
+ * @param label - fields of the label, in dots
+ * @param width - width of the bitmap in dots
+ * @param height - height of the bitmap in dots
+ * @param scale - number of pixels per dot (defaults to 1)
+ * @returns the bitmap, with a set bit for each black pixel
+ */
+export function rasterizeLabel(label : RenderLabel, width : number, height : number, scale : number = 1) : MonochromeBitmap
+{
+    const canvas : RasterCanvas = {
+        width  : Math.round(width * scale),
+        height : Math.round(height * scale),
+        scale,
+        pixels : new Uint8Array(Math.round(width * scale) * Math.round(height * scale)),
+    };
+    for (const field of label.fields) paintField(canvas, field);
+
+    const bitmap = createMonochromeBitmap(canvas.width, canvas.height);
+    for (let y = 0; y < canvas.height; y++) {
+        for (let x = 0; x < canvas.width; x++) {
+            if (canvas.pixels[y * canvas.width + x]) bitmap.data[y * bitmap.bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+        }
+    }
+    return bitmap;
+}
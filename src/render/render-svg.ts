@@ -0,0 +1,221 @@
+import { MonochromeBitmap } from '../utils/utils-graphics';
+import { dotsToCSSPixels } from '../utils/utils-units';
+import { RenderField, RenderLabel, RenderOrientation, RenderTextLine, getQRCodeMatrix } from './render-fields';
+import { RenderFont, BitmapFontCells } from './render-fonts';
+
+/**
+ * Formats a coordinate, rounded to a hundredth of a dot.
+ */
+function formatNumber(value : number) : string
+{
+    return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Escapes text for an XML attribute or element.
+ */
+function escapeXml(text : string) : string
+{
+    return text.replace(/[&<>"']/g, character => `&#${character.charCodeAt(0)};`);
+}
+
+/**
+ * Builds the fill attributes of a shape. Reverse shapes are drawn white with a difference blend, which
+ * inverts what they cover on a black and white label.
+ *
+ * @param color - color of the shape
+ * @param reverse - whether the shape is reverse printed
+ */
+function fillAttributes(color : 'B'|'W', reverse : boolean) : string
+{
+    if (reverse) return 'fill="#fff" style="mix-blend-mode:difference"';
+    return `fill="${color === 'W' ? '#fff' : '#000'}"`;
+}
+
+/**
+ * Builds the path of a rectangle with rounded corners.
+ */
+function roundedRectPath(left : number, top : number, right : number, bottom : number, radius : number) : string
+{
+    const [ l, t, r, b, rr ] = [ left, top, right, bottom, radius ].map(formatNumber);
+    if (radius <= 0) return `M${l},${t}H${r}V${b}H${l}Z`;
+
+    return `M${formatNumber(left + radius)},${t}H${formatNumber(right - radius)}A${rr},${rr} 0 0 1 ${r},${formatNumber(top + radius)}`
+         + `V${formatNumber(bottom - radius)}A${rr},${rr} 0 0 1 ${formatNumber(right - radius)},${b}`
+         + `H${formatNumber(left + radius)}A${rr},${rr} 0 0 1 ${l},${formatNumber(bottom - radius)}`
+         + `V${formatNumber(top + radius)}A${rr},${rr} 0 0 1 ${formatNumber(left + radius)},${t}Z`;
+}
+
+/**
+ * Builds the path of an ellipse.
+ */
+function ellipsePath(centerX : number, centerY : number, radiusX : number, radiusY : number) : string
+{
+    if (radiusX <= 0 || radiusY <= 0) return '';
+
+    const [ rx, ry ] = [ radiusX, radiusY ].map(formatNumber);
+    return `M${formatNumber(centerX - radiusX)},${formatNumber(centerY)}A${rx},${ry} 0 1 0 ${formatNumber(centerX + radiusX)},${formatNumber(centerY)}`
+         + `A${rx},${ry} 0 1 0 ${formatNumber(centerX - radiusX)},${formatNumber(centerY)}Z`;
+}
+
+/**
+ * Builds a path covering the set cells of a matrix, one rectangle per horizontal run of cells.
+ *
+ * @param x - left of the matrix in dots
+ * @param y - top of the matrix in dots
+ * @param rows - number of rows of the matrix
+ * @param columns - number of columns of the matrix
+ * @param cellSize - size of a cell in dots
+ * @param isSet - whether a cell is set
+ */
+function matrixPath(x : number, y : number, rows : number, columns : number, cellSize : number, isSet : (row : number, column : number) => boolean) : string
+{
+    const runs : string[] = [];
+    for (let row = 0; row < rows; row++) {
+        for (let column = 0; column < columns;) {
+            if (!isSet(row, column)) {
+                column++;
+                continue;
+            }
+
+            let end = column + 1;
+            while (end < columns && isSet(row, end)) end++;
+            runs.push(`M${formatNumber(x + column * cellSize)},${formatNumber(y + row * cellSize)}h${formatNumber((end - column) * cellSize)}v${formatNumber(cellSize)}h${formatNumber(-(end - column) * cellSize)}Z`);
+            column = end;
+        }
+    }
+    return runs.join('');
+}
+
+/**
+ * Builds the transform of a rotated field (text or bar code) laid out as if it was not rotated.
+ *
+ * @param x - left of the field on the label
+ * @param y - top of the field on the label
+ * @param width - width of the field, as if it was not rotated
+ * @param height - height of the field, as if it was not rotated
+ * @param orientation - orientation of the field
+ */
+function orientationTransform(x : number, y : number, width : number, height : number, orientation : RenderOrientation) : string
+{
+    switch (orientation) {
+        case 'R': return `translate(${formatNumber(x + height)},${formatNumber(y)}) rotate(90)`;
+        case 'I': return `translate(${formatNumber(x + width)},${formatNumber(y + height)}) rotate(180)`;
+        case 'B': return `translate(${formatNumber(x)},${formatNumber(y + width)}) rotate(270)`;
+        default:  return `translate(${formatNumber(x)},${formatNumber(y)})`;
+    }
+}
+
+/**
+ * Builds the text elements of lines of text, stretched to the advance widths of the font.
+ *
+ * @param font - font of the text
+ * @param lineHeight - height of a line of text
+ * @param lines - lines of text, positioned as if they were not rotated
+ */
+function textElements(font : RenderFont, lineHeight : number, lines : RenderTextLine[]) : string[]
+{
+    const isBitmapFont = BitmapFontCells.hasOwnProperty(font.name.toUpperCase());
+    const family = isBitmapFont ? 'monospace' : 'Helvetica, Arial, sans-serif';
+
+    return lines.filter(line => line.text).map(line => {
+        const length = line.advances.reduce((sum, advance) => sum + advance, 0) - line.gaps[line.gaps.length - 1];
+        return `<text x="${formatNumber(line.x)}" y="${formatNumber(line.y + lineHeight * 0.8)}" font-family="${family}"`
+             + `${isBitmapFont ? '' : ' font-weight="bold"'} font-size="${formatNumber(lineHeight)}" textLength="${formatNumber(length)}"`
+             + ` lengthAdjust="spacingAndGlyphs" xml:space="preserve">${escapeXml(line.text)}</text>`;
+    });
+}
+
+/**
+ * Converts a field into SVG elements, in dot coordinates.
+ *
+ * @param field - field of the label, in dots
+ * @returns the SVG elements of the field
+ */
+function fieldToSvg(field : RenderField) : string[]
+{
+    const { x, y, reverse } = field;
+
+    switch (field.type) {
+        case 'box': {
+            const { width, height, thickness, rounding } = field;
+            const radius = rounding * Math.min(width, height) / 16;
+            const isFilled = (thickness * 2 >= Math.min(width, height));
+            const path = roundedRectPath(x, y, x + width, y + height, radius)
+                + (isFilled ? '' : roundedRectPath(x + thickness, y + thickness, x + width - thickness, y + height - thickness, Math.max(0, radius - thickness)));
+            return [ `<path d="${path}" fill-rule="evenodd" ${fillAttributes(field.color, reverse)}/>` ];
+        }
+
+        case 'ellipse': {
+            const { width, height, thickness } = field;
+            const centerX = x + width / 2, centerY = y + height / 2;
+            const path = ellipsePath(centerX, centerY, width / 2, height / 2) + ellipsePath(centerX, centerY, width / 2 - thickness, height / 2 - thickness);
+            return [ `<path d="${path}" fill-rule="evenodd" ${fillAttributes(field.color, reverse)}/>` ];
+        }
+
+        case 'diagonal': {
+            const { width, height, thickness, direction } = field;
+            const points = (direction === 'L')
+                ? [ [ x, y ], [ x + thickness, y ], [ x + width, y + height ], [ x + width - thickness, y + height ] ]
+                : [ [ x + width - thickness, y ], [ x + width, y ], [ x + thickness, y + height ], [ x, y + height ] ];
+            return [ `<polygon points="${points.map(point => point.map(formatNumber).join(',')).join(' ')}" ${fillAttributes(field.color, reverse)}/>` ];
+        }
+
+        case 'graphic': {
+            const { width, height, bytesPerRow, data } : MonochromeBitmap = field.bitmap;
+            const path = matrixPath(x, y, height, width, 1, (row, column) => !!(data[row * bytesPerRow + (column >> 3)] & (0x80 >> (column & 7))));
+            return path ? [ `<path d="${path}" ${fillAttributes('B', reverse)}/>` ] : [];
+        }
+
+        case 'text': {
+            const { width, height, orientation, font, lineHeight, lines } = field;
+            return [
+                `<g transform="${orientationTransform(x, y, width, height, orientation)}" ${fillAttributes('B', reverse)}>`,
+                ...textElements(font, lineHeight, lines).map(element => `  ${element}`),
+                '</g>',
+            ];
+        }
+
+        case 'barcode': {
+            const { width, height, orientation, bars, font, lineHeight, lines } = field;
+            return [
+                `<g transform="${orientationTransform(x, y, width, height, orientation)}" ${fillAttributes('B', reverse)}>`,
+                `  <path d="${bars.map(bar => `M${formatNumber(bar.x)},${formatNumber(bar.y)}h${formatNumber(bar.width)}v${formatNumber(bar.height)}h${formatNumber(-bar.width)}Z`).join('')}"/>`,
+                ...textElements(font, lineHeight, lines).map(element => `  ${element}`),
+                '</g>',
+            ];
+        }
+
+        case 'qrcode': {
+            const matrix = getQRCodeMatrix(field.data, field.errorCorrection);
+            const path = matrixPath(x, y, matrix.length, matrix.length, field.magnification, (row, column) => matrix[row][column]);
+            return [ `<path d="${path}" ${fillAttributes('B', reverse)}/>` ];
+        }
+    }
+}
+
+/**
+ * Draws the fields of a label as an SVG document. Shapes are drawn in dot coordinates (the view box
+ * is the label in dots), and the document is sized in CSS pixels for the resolution of the label.
+ * Reverse fields are blended (within the isolated label group) so that they invert what they cover.
+ *
+ * @param label - fields of the label, in dots
+ * @param width - width of the label in dots
+ * @param height - height of the label in dots
+ * @param dpi - resolution of the printer, for the size of the document
+ * @returns the SVG document
+ */
+export function drawLabelSvg(label : RenderLabel, width : number, height : number, dpi : number) : string
+{
+    const elements = label.fields.map(fieldToSvg).reduce((all, field) => all.concat(field), []);
+
+    return [
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${formatNumber(dotsToCSSPixels(width, dpi))}" height="${formatNumber(dotsToCSSPixels(height, dpi))}" viewBox="0 0 ${formatNumber(width)} ${formatNumber(height)}" shape-rendering="crispEdges">`,
+        '<g style="isolation:isolate">',
+        `  <rect width="${formatNumber(width)}" height="${formatNumber(height)}" fill="#fff"/>`,
+        ...elements.map(element => `  ${element}`),
+        '</g>',
+        '</svg>',
+        '',
+    ].join('\n');
+}
@@ -0,0 +1,359 @@
+/**
+ * Linear (1D) bar code symbologies supported by the label.
+ *
+ * code128 (^BC, full ASCII)
+ * code39 (^B3, uppercase alphanumeric plus - . $ / + % and space)
+ * ean13 (^BE, 12 digits plus check digit)
+ * upca (^BU, 11 digits plus check digit)
+ * interleaved2of5 (^B2, digits only)
+ */
+export type LinearBarCodeSymbology = 'code128'|'code39'|'ean13'|'upca'|'interleaved2of5';
+
+/**
+ * Regular expressions describing the valid character set for each symbology.
+ */
+const LinearBarCodeCharacterSets : { [ K in LinearBarCodeSymbology ] : RegExp } = {
+    code128         : /^[\x00-\x7F]+$/,
+    code39          : /^[0-9A-Z \-.$/+%]+$/,
+    ean13           : /^[0-9]{12,13}$/,
+    upca            : /^[0-9]{11,12}$/,
+    interleaved2of5 : /^[0-9]+$/,
+};
+
+/**
+ * Human readable description of each character set, used in error messages.
+ */
+const LinearBarCodeCharacterSetDescriptions : { [ K in LinearBarCodeSymbology ] : string } = {
+    code128         : 'ASCII characters',
+    code39          : 'uppercase letters, digits, space and - . $ / + %',
+    ean13           : '12 digits (or 13 digits including a valid check digit)',
+    upca            : '11 digits (or 12 digits including a valid check digit)',
+    interleaved2of5 : 'digits',
+};
+
+/**
+ * Computes the modulo 10 check digit used by EAN and UPC symbologies.
+ *
+ * @param digits - digits to compute the check digit for (without the check digit)
+ * @returns the check digit
+ */
+export function computeMod10CheckDigit(digits : string) : number
+{
+    let sum = 0;
+    for (let i = digits.length - 1, weight = 3; i >= 0; i--, weight = (weight === 3 ? 1 : 3)) {
+        sum += parseInt(digits[i], 10) * weight;
+    }
+    return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Validates data against the character set of a linear bar code symbology, and normalizes
+ * it into the form expected by the printer (e.g. strips a verified check digit from EAN-13
+ * and UPC-A data, since the printer always calculates it).
+ *
+ * @param symbology - bar code symbology
+ * @param data - data to encode in the bar code
+ * @returns the data to place in the field data of the bar code
+ * @throws a TypeError if the data is not valid for the symbology
+ */
+export function normalizeLinearBarCodeData(symbology : LinearBarCodeSymbology, data : string) : string
+{
+    if (!LinearBarCodeCharacterSets[symbology].test(data)) {
+        throw new TypeError(`Invalid ${symbology} data "${data}", should be ${LinearBarCodeCharacterSetDescriptions[symbology]}`);
+    }
+
+    const dataLength = (symbology === 'ean13') ? 12 : (symbology === 'upca') ? 11 : undefined;
+    if (dataLength && data.length > dataLength) {
+        const checkDigit = parseInt(data[dataLength], 10);
+        data = data.substring(0, dataLength);
+        if (computeMod10CheckDigit(data) !== checkDigit) {
+            throw new TypeError(`Invalid ${symbology} check digit ${checkDigit} for data "${data}"`);
+        }
+    }
+
+    return data;
+}
+
+/**
+ * Data Matrix (ECC 200) symbol sizes, as [ rows, columns, data codeword capacity ].
+ */
+const DataMatrixSquareSymbols : Array<[ number, number, number ]> = [
+    [ 10, 10, 3 ], [ 12, 12, 5 ], [ 14, 14, 8 ], [ 16, 16, 12 ], [ 18, 18, 18 ], [ 20, 20, 22 ], [ 22, 22, 30 ], [ 24, 24, 36 ],
+    [ 26, 26, 44 ], [ 32, 32, 62 ], [ 36, 36, 86 ], [ 40, 40, 114 ], [ 44, 44, 144 ], [ 48, 48, 174 ], [ 52, 52, 204 ],
+    [ 64, 64, 280 ], [ 72, 72, 368 ], [ 80, 80, 456 ], [ 88, 88, 576 ], [ 96, 96, 696 ], [ 104, 104, 816 ], [ 120, 120, 1050 ],
+    [ 132, 132, 1304 ], [ 144, 144, 1558 ],
+];
+const DataMatrixRectangularSymbols : Array<[ number, number, number ]> = [
+    [ 8, 18, 5 ], [ 8, 32, 10 ], [ 12, 26, 16 ], [ 12, 36, 22 ], [ 16, 36, 32 ], [ 16, 48, 49 ],
+];
+
+/**
+ * Estimates the smallest Data Matrix (ECC 200) symbol that fits the data, assuming ASCII encodation
+ * (digit pairs take 1 codeword, ASCII characters take 1 codeword, extended characters take 2 codewords).
+ *
+ * @param data - data for the Data Matrix
+ * @param aspect - shape of the symbol
+ * @returns object.rows - number of module rows of the symbol
+ * @returns object.columns - number of module columns of the symbol
+ */
+export function getDataMatrixSymbolSize(data : string, aspect : 'square'|'rectangular' = 'square')
+{
+    let codewords = 0;
+    for (let i = 0, ilen = data.length; i < ilen; i++) {
+        if (/[0-9]/.test(data[i]) && /[0-9]/.test(data[i + 1] || '')) {
+            i++;
+            codewords += 1;
+        }
+        else {
+            codewords += data.charCodeAt(i) > 127 ? 2 : 1;
+        }
+    }
+
+    const symbols = (aspect === 'rectangular') ? DataMatrixRectangularSymbols.concat(DataMatrixSquareSymbols) : DataMatrixSquareSymbols;
+    const [ rows, columns ] = symbols.find(([ , , capacity ]) => codewords <= capacity) ?? DataMatrixSquareSymbols[DataMatrixSquareSymbols.length - 1];
+
+    return { rows, columns };
+}
+
+/**
+ * Estimates the number of PDF417 codewords needed for the data (including the symbol length descriptor
+ * and the error correction codewords for the security level).
+ *
+ * @param data - data for the PDF417 symbol
+ * @param securityLevel - error correction level (0 to 8)
+ * @returns number of codewords
+ */
+export function getPDF417Codewords(data : string, securityLevel : number = 0) : number
+{
+    let dataCodewords : number;
+    if (/^[0-9]+$/.test(data)) {
+        dataCodewords = Math.ceil(data.length / 2.93) + 1; // numeric compaction
+    }
+    else if (/^[\x20-\x7E\t\r\n]+$/.test(data)) {
+        dataCodewords = Math.ceil(data.length / 2); // text compaction
+    }
+    else {
+        dataCodewords = Math.ceil(data.length * 5 / 6) + 1; // byte compaction
+    }
+
+    return 1 + dataCodewords + Math.pow(2, securityLevel + 1);
+}
+
+/**
+ * Chooses a column count for a PDF417 symbol that keeps the symbol roughly square, assuming rows
+ * 3 modules tall.
+ *
+ * @param codewords - total number of codewords in the symbol
+ * @param columns - fixed number of data columns, if the caller already chose one
+ * @returns object.columns - number of data columns (1 to 30)
+ * @returns object.rows - number of rows (3 to 90)
+ */
+export function getPDF417SymbolSize(codewords : number, columns? : number)
+{
+    if (columns) return { columns, rows : Math.min(90, Math.max(3, Math.ceil(codewords / columns))) };
+
+    let best = { columns : 30, rows : Math.max(3, Math.ceil(codewords / 30)) };
+    let bestDifference = Infinity;
+    for (let c = 1; c <= 30; c++) {
+        const rows = Math.max(3, Math.ceil(codewords / c));
+        if (rows > 90) continue;
+
+        const difference = Math.abs(rows * 3 - getPDF417ModuleWidth(c));
+        if (difference < bestDifference) {
+            best = { columns : c, rows };
+            bestDifference = difference;
+        }
+    }
+    return best;
+}
+
+/**
+ * Calculates the width of a PDF417 symbol in modules, including start/stop patterns and row indicators.
+ *
+ * @param columns - number of data columns
+ * @returns width in modules
+ */
+export function getPDF417ModuleWidth(columns : number) : number
+{
+    return 17 * (columns + 4) + 1;
+}
+
+/**
+ * Estimates the smallest Aztec symbol that fits the data.
+ *
+ * @param data - data for the Aztec symbol
+ * @param errorCorrection - percentage of the symbol used for error correction (defaults to 23)
+ * @returns object.compact - whether the symbol is a compact symbol
+ * @returns object.layers - number of data layers
+ * @returns object.size - width (and height) of the symbol in modules
+ */
+export function getAztecSymbolSize(data : string, errorCorrection : number = 23)
+{
+    let bits = 0;
+    for (const c of data) {
+        if (/[0-9,.]/.test(c))          bits += 4;
+        else if (/[A-Za-z ]/.test(c))   bits += 5;
+        else if (/[\x20-\x7E]/.test(c)) bits += 10; // shift to punctuation or mixed mode
+        else                            bits += 13; // binary shift
+    }
+    const requiredBits = bits + Math.floor(bits * errorCorrection / 100) + 11;
+
+    for (const compact of [ true, false ]) {
+        for (let layers = 1, max = compact ? 4 : 32; layers <= max; layers++) {
+            const totalBits = ((compact ? 88 : 112) + 16 * layers) * layers;
+            if (requiredBits <= totalBits) {
+                const baseSize = (compact ? 11 : 14) + 4 * layers;
+                const size = compact ? baseSize : baseSize + 1 + 2 * Math.floor((baseSize / 2 - 1) / 15);
+                return { compact, layers, size };
+            }
+        }
+    }
+    return { compact : false, layers : 32, size : 151 };
+}
+
+/**
+ * MaxiCode symbols have a fixed physical size, in inches.
+ */
+export const MaxiCodeSize = { width : 1.11, height : 1.054 } as const;
+
+/**
+ * Code 128 symbol patterns, as the widths (in modules) of alternating bars and spaces. Values 103 to 105
+ * are the start characters of code sets A, B and C, and value 106 is the stop pattern.
+ */
+const Code128Patterns = [
+    '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+    '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+    '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+    '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+    '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+    '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+    '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+    '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+    '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+    '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+    '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+/**
+ * Code 39 character patterns, as the 9 alternating bars and spaces of each character (1 for wide elements).
+ */
+const Code39Patterns : { [ character : string ] : string } = {
+    '0' : '000110100', '1' : '100100001', '2' : '001100001', '3' : '101100000', '4' : '000110001',
+    '5' : '100110000', '6' : '001110000', '7' : '000100101', '8' : '100100100', '9' : '001100100',
+    'A' : '100001001', 'B' : '001001001', 'C' : '101001000', 'D' : '000011001', 'E' : '100011000',
+    'F' : '001011000', 'G' : '000001101', 'H' : '100001100', 'I' : '001001100', 'J' : '000011100',
+    'K' : '100000011', 'L' : '001000011', 'M' : '101000010', 'N' : '000010011', 'O' : '100010010',
+    'P' : '001010010', 'Q' : '000000111', 'R' : '100000110', 'S' : '001000110', 'T' : '000010110',
+    'U' : '110000001', 'V' : '011000001', 'W' : '111000000', 'X' : '010010001', 'Y' : '110010000',
+    'Z' : '011010000', '-' : '010000101', '.' : '110000100', ' ' : '011000100', '$' : '010101000',
+    '/' : '010100010', '+' : '010001010', '%' : '000101010', '*' : '010010100',
+};
+const Code39Characters = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ-. $/+%';
+
+/**
+ * Interleaved 2 of 5 digit patterns, as 5 elements (1 for wide elements).
+ */
+const Interleaved2of5Patterns = [ '00110', '10001', '01001', '11000', '00101', '10100', '01100', '00011', '10010', '01010' ];
+
+/**
+ * EAN/UPC digit patterns in modules (1 for bars), for the left-hand odd (L) and even (G) parity sets.
+ * Right-hand (R) patterns are the complement of the L patterns.
+ */
+const EANPatternsL = [ '0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011' ];
+const EANPatternsG = [ '0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111' ];
+const EANParities  = [ 'LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL' ];
+
+/**
+ * Converts a pattern of modules (1 for bars) into the widths of alternating bars and spaces.
+ */
+function modulesToWidths(modules : string) : number[]
+{
+    const widths : number[] = [];
+    for (let i = 0; i < modules.length;) {
+        let j = i + 1;
+        while (j < modules.length && modules[j] === modules[i]) j++;
+        widths.push(j - i);
+        i = j;
+    }
+    return widths;
+}
+
+/**
+ * Encodes data into the bars and spaces of a linear bar code, for previews. Code 128 data is encoded
+ * with code set C when it is an even number of digits, and code set B otherwise.
+ *
+ * @param symbology - bar code symbology
+ * @param data - data to encode, normalized with normalizeLinearBarCodeData
+ * @param options.ratio - wide to narrow element ratio, for Code 39 and Interleaved 2 of 5 (defaults to 3)
+ * @param options.checkDigit - adds a check digit, for Code 39 (mod 43) and Interleaved 2 of 5 (mod 10)
+ * @returns the widths (in modules) of alternating bars and spaces, starting with a bar
+ */
+export function encodeLinearBarCode(symbology : LinearBarCodeSymbology, data : string, options : { ratio? : number, checkDigit? : boolean } = {}) : number[]
+{
+    const ratio = options.ratio ?? 3;
+
+    switch (symbology) {
+        case 'code128': {
+            const isCodeC = /^([0-9]{2})+$/.test(data);
+            const values = [ isCodeC ? 105 : 104 ];
+            if (isCodeC) {
+                for (let i = 0; i < data.length; i += 2) values.push(parseInt(data.substring(i, i + 2), 10));
+            }
+            else {
+                for (const character of data) values.push((character.charCodeAt(0) - 32 + 96) % 96);
+            }
+
+            const checksum = values.reduce((sum, value, index) => sum + value * Math.max(1, index), 0) % 103;
+            values.push(checksum, 106);
+            return values.map(value => Code128Patterns[value].split('').map(Number)).reduce((all, widths) => all.concat(widths), []);
+        }
+
+        case 'code39': {
+            let characters = data;
+            if (options.checkDigit) {
+                const sum = data.split('').reduce((sum, character) => sum + Code39Characters.indexOf(character), 0);
+                characters += Code39Characters[sum % 43];
+            }
+
+            const widths : number[] = [];
+            for (const character of `*${characters}*`) {
+                if (widths.length) widths.push(1); // inter-character gap
+                widths.push(...Code39Patterns[character].split('').map(wide => wide === '1' ? ratio : 1));
+            }
+            return widths;
+        }
+
+        case 'interleaved2of5': {
+            let digits = options.checkDigit ? data + computeMod10CheckDigit(data) : data;
+            if (digits.length % 2) digits = '0' + digits;
+
+            const widths = [ 1, 1, 1, 1 ];
+            for (let i = 0; i < digits.length; i += 2) {
+                const bars   = Interleaved2of5Patterns[parseInt(digits[i], 10)];
+                const spaces = Interleaved2of5Patterns[parseInt(digits[i + 1], 10)];
+                for (let j = 0; j < 5; j++) widths.push(bars[j] === '1' ? ratio : 1, spaces[j] === '1' ? ratio : 1);
+            }
+            widths.push(ratio, 1, 1);
+            return widths;
+        }
+
+        case 'ean13':
+        case 'upca': {
+            const digits = (symbology === 'upca' ? '0' : '') + data;
+            const full = digits + computeMod10CheckDigit(digits);
+            const parity = EANParities[parseInt(full[0], 10)];
+
+            let modules = '101';
+            for (let i = 1; i <= 6; i++) {
+                const digit = parseInt(full[i], 10);
+                modules += (parity[i - 1] === 'L' ? EANPatternsL : EANPatternsG)[digit];
+            }
+            modules += '01010';
+            for (let i = 7; i <= 12; i++) {
+                modules += EANPatternsL[parseInt(full[i], 10)].replace(/[01]/g, bit => bit === '1' ? '0' : '1');
+            }
+            modules += '101';
+            return modulesToWidths(modules);
+        }
+    }
+}
@@ -38,7 +38,12 @@ export function concatUint8Arrays(...uint8arrays : Uint8Array[]) : Uint8Array {
  * @returns - string
  */
  export function uint8ArrayToString(uint8array : Uint8Array) : string {
-    return String.fromCharCode.apply(null, uint8array);
+    // Converts in chunks, as large arrays exceed the maximum number of arguments
+    let string = '';
+    for (let i = 0, ilen = uint8array.length; i < ilen; i += 8192) {
+        string += String.fromCharCode.apply(null, uint8array.subarray(i, i + 8192));
+    }
+    return string;
 }
 
 /**
@@ -0,0 +1,126 @@
+import { stringToUint8Array } from './utils-buffers';
+
+/**
+ * Character encodings of field data, with the ^CI character set that tells the printer how to read them.
+ *
+ * utf-8  (^CI28, any character)
+ * cp850  (^CI13, Zebra code page 850, western European characters and box drawing)
+ * cp1252 (^CI27, Zebra code page 1252, western European characters and typographic punctuation)
+ */
+export type ZplEncoding = 'utf-8'|'cp850'|'cp1252';
+
+export const ZplEncodingCharacterSets : { [ K in ZplEncoding ] : number } = {
+    'utf-8'  : 28,
+    'cp850'  : 13,
+    'cp1252' : 27,
+};
+
+/**
+ * Characters of the upper half (0x80 to 0xFF) of the single byte code pages, \uFFFD marks unassigned bytes.
+ * Code page 1252 matches Latin-1 from 0xA0 to 0xFF.
+ */
+const CodePage850High = [
+    'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒ',
+    'áíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐',
+    '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀',
+    'ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00AD±‗¾¶§÷¸°¨·¹³²■\u00A0',
+].join('');
+const CodePage1252High = '€\uFFFD‚ƒ„…†‡ˆ‰Š‹Œ\uFFFDŽ\uFFFD\uFFFD‘’“”•–—˜™š›œ\uFFFDžŸ'
+    + Array.from({ length : 96 }, (_, i) => String.fromCharCode(0xA0 + i)).join('');
+
+/**
+ * Lookup of the byte of each character of the single byte code pages.
+ */
+const CodePageBytes : { [ K in Exclude<ZplEncoding, 'utf-8'> ] : Map<string, number> } = {
+    'cp850'  : createCodePageBytes(CodePage850High),
+    'cp1252' : createCodePageBytes(CodePage1252High),
+};
+
+function createCodePageBytes(high : string) : Map<string, number> {
+    const bytes = new Map<string, number>();
+    for (let i = 0; i < 0x80; i++) bytes.set(String.fromCharCode(i), i);
+    for (let i = 0; i < high.length; i++) {
+        if (high[i] !== '\uFFFD') bytes.set(high[i], 0x80 + i);
+    }
+    return bytes;
+}
+
+/**
+ * Error thrown when a string contains a character that cannot be represented in an encoding.
+ */
+export class ZplEncodingError extends TypeError {
+    readonly character : string;
+    readonly index     : number;
+    readonly encoding  : void | ZplEncoding;
+
+    constructor(character : string, index : number, encoding : void | ZplEncoding) {
+        const code = 'U+' + character.codePointAt(0).toString(16).toUpperCase().padStart(4, '0');
+        super(`Character "${character}" (${code}) at index ${index} cannot be encoded in ${encoding || 'a single byte'}`);
+        this.name      = 'ZplEncodingError';
+        this.character = character;
+        this.index     = index;
+        this.encoding  = encoding;
+    }
+}
+
+/**
+ * Encodes a string as UTF-8.
+ *
+ * @param string - string to encode
+ * @returns the UTF-8 bytes
+ * @throws a ZplEncodingError for unpaired surrogates
+ */
+function encodeUtf8(string : string) : Uint8Array {
+    const bytes : number[] = [];
+    for (let i = 0, ilen = string.length; i < ilen; i++) {
+        let code = string.charCodeAt(i);
+        if (code >= 0xD800 && code <= 0xDFFF) {
+            const next = string.charCodeAt(i + 1);
+            if (code > 0xDBFF || !(next >= 0xDC00 && next <= 0xDFFF)) throw new ZplEncodingError(string[i], i, 'utf-8');
+            code = 0x10000 + ((code - 0xD800) << 10) + (next - 0xDC00);
+            i++;
+        }
+
+        if (code < 0x80) {
+            bytes.push(code);
+        }
+        else if (code < 0x800) {
+            bytes.push(0xC0 | (code >> 6), 0x80 | (code & 0x3F));
+        }
+        else if (code < 0x10000) {
+            bytes.push(0xE0 | (code >> 12), 0x80 | ((code >> 6) & 0x3F), 0x80 | (code & 0x3F));
+        }
+        else {
+            bytes.push(0xF0 | (code >> 18), 0x80 | ((code >> 12) & 0x3F), 0x80 | ((code >> 6) & 0x3F), 0x80 | (code & 0x3F));
+        }
+    }
+    return new Uint8Array(bytes);
+}
+
+/**
+ * Encodes a string in the encoding of a label. Without an encoding, each character is written as a
+ * single byte (as the printer reads data without ^CI), and characters above 0xFF are rejected.
+ *
+ * @param string - string to encode
+ * @param encoding - character encoding
+ * @returns the encoded bytes
+ * @throws a ZplEncodingError if a character cannot be represented in the encoding
+ */
+export function encodeString(string : string, encoding? : ZplEncoding) : Uint8Array {
+    if (encoding === 'utf-8') return encodeUtf8(string);
+
+    if (!encoding) {
+        const index = string.search(/[^\x00-\xFF]/);
+        if (index !== -1) throw new ZplEncodingError(String.fromCodePoint(string.codePointAt(index)), index, encoding);
+        return stringToUint8Array(string);
+    }
+
+    const codePage = CodePageBytes[encoding];
+    const bytes = new Uint8Array(string.length);
+    for (let i = 0, ilen = string.length; i < ilen; i++) {
+        const byte = codePage.get(string[i]);
+        if (byte === undefined) throw new ZplEncodingError(String.fromCodePoint(string.codePointAt(i)), i, encoding);
+        bytes[i] = byte;
+    }
+    return bytes;
+}
@@ -65,4 +65,58 @@ export function uint8ArrayToHexString(array : Uint8Array) : string {
         b64.push(int.toString(16));
     }
     return b64.join('');
-}
\ No newline at end of file
+}
+/**
+ * Characters of field data that need to be escaped with ^FH: the command prefixes (^ and ~), which would
+ * end the field and run the rest of the data as commands, and control characters.
+ */
+const FIELD_DATA_UNSAFE_CHARS = /[\^~\x00-\x1F\x7F]/;
+
+/**
+ * Checks whether field data contains characters that need to be escaped with ^FH.
+ * 
+ * @param data - field data
+ * @returns true if the data contains command prefixes or control characters
+ */
+export function isUnsafeFieldData(data : string) : boolean {
+    return FIELD_DATA_UNSAFE_CHARS.test(data);
+}
+
+/**
+ * Escapes field data for ^FH, replacing command prefixes, control characters and the hexadecimal
+ * indicator itself with hex escapes (e.g. "^" becomes "_5E").
+ * 
+ * @param data - field data
+ * @param indicator - hexadecimal indicator of the field (defaults to _)
+ * @returns the escaped field data
+ */
+export function escapeFieldDataHex(data : string, indicator : string = '_') : string {
+    return data.replace(/[\s\S]/g, char => {
+        if (char !== indicator && !FIELD_DATA_UNSAFE_CHARS.test(char)) return char;
+
+        const code = char.charCodeAt(0);
+        return indicator + (code < 16 ? '0' : '') + code.toString(16).toUpperCase();
+    });
+}
+
+/**
+ * Decodes field data escaped for ^FH, the reverse of escapeFieldDataHex.
+ * 
+ * @param data - escaped field data
+ * @param indicator - hexadecimal indicator of the field (defaults to _)
+ * @returns the field data
+ */
+export function unescapeFieldDataHex(data : string, indicator : string = '_') : string {
+    let decoded = '';
+    for (let i = 0; i < data.length; i++) {
+        const hex = data.substring(i + 1, i + 3);
+        if (data[i] === indicator && /^[0-9A-F]{2}$/i.test(hex)) {
+            decoded += String.fromCharCode(parseInt(hex, 16));
+            i += 2;
+        }
+        else {
+            decoded += data[i];
+        }
+    }
+    return decoded;
+}
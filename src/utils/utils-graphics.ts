@@ -0,0 +1,174 @@
+/**
+ * 1-bit bitmap, packed into bytes row by row (most significant bit first). Each row is padded to a
+ * whole number of bytes. A set bit is a printed (black) dot.
+ */
+export type MonochromeBitmap = {
+    width       : number;
+    height      : number;
+    bytesPerRow : number;
+    data        : Uint8Array;
+};
+
+/**
+ * Creates an empty (white) bitmap.
+ * 
+ * @param width - width of the bitmap in dots
+ * @param height - height of the bitmap in dots
+ * @returns a blank bitmap
+ */
+export function createMonochromeBitmap(width : number, height : number) : MonochromeBitmap
+{
+    const bytesPerRow = Math.ceil(width / 8);
+    return { width, height, bytesPerRow, data : new Uint8Array(bytesPerRow * height) };
+}
+
+/**
+ * Draws a matrix of modules (e.g. of a QR code) into a bitmap, each module as a square of dots.
+ * 
+ * @param matrix - rows of modules, true for dark modules
+ * @param scale - size of a module in dots
+ * @returns a bitmap of the matrix
+ */
+export function matrixToBitmap(matrix : boolean[][], scale : number) : MonochromeBitmap
+{
+    const columns = matrix.reduce((max, row) => Math.max(max, row.length), 0);
+    const bitmap  = createMonochromeBitmap(columns * scale, matrix.length * scale);
+    for (let y = 0; y < bitmap.height; y++) {
+        const row = matrix[Math.floor(y / scale)];
+        for (let x = 0; x < bitmap.width; x++) {
+            if (row[Math.floor(x / scale)]) bitmap.data[y * bitmap.bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+        }
+    }
+    return bitmap;
+}
+
+/**
+ * Converts a bitmap into an uppercase ASCII hex string, as used by ^GF and ~DG.
+ * 
+ * @param bitmap - a packed bitmap
+ * @returns the bitmap as a hex string, 2 characters per byte
+ */
+export function bitmapToHexString(bitmap : MonochromeBitmap) : string
+{
+    const hex : string[] = [];
+    for (let i = 0, ilen = bitmap.data.length; i < ilen; i++) {
+        const byte = bitmap.data[i];
+        hex.push(byte < 16 ? '0' : '', byte.toString(16).toUpperCase());
+    }
+    return hex.join('');
+}
+
+/**
+ * Encodes the repeat count prefix of the ZPL ASCII compression scheme (ACS). Counts 1 to 19 use G to Y
+ * and multiples of 20 (up to 400) use g to z, so counts higher than 419 are split into several runs.
+ * 
+ * @param character - hex character to repeat
+ * @param count - number of times the character is repeated
+ * @returns the compressed run
+ */
+function compressHexRun(character : string, count : number) : string
+{
+    const parts : string[] = [];
+    while (count > 0) {
+        const run = Math.min(count, 419);
+        if (run === 1) {
+            parts.push(character);
+        }
+        else {
+            const high = Math.floor(run / 20);
+            const low  = run % 20;
+            if (high) parts.push(String.fromCharCode('f'.charCodeAt(0) + high)); // g = 20 ... z = 400
+            if (low)  parts.push(String.fromCharCode('F'.charCodeAt(0) + low));  // G = 1 ... Y = 19
+            parts.push(character);
+        }
+        count -= run;
+    }
+    return parts.join('');
+}
+
+/**
+ * Converts a bitmap into an ASCII hex string compressed with the ZPL ASCII compression scheme (ACS):
+ * - runs of the same hex character are prefixed with a repeat count (G to Y, g to z)
+ * - "," fills the remainder of the row with 0s (white)
+ * - "!" fills the remainder of the row with 1s (black)
+ * - ":" repeats the previous row
+ * 
+ * @param bitmap - a packed bitmap
+ * @returns the compressed bitmap data, usable as ^GF data with compression type A
+ */
+export function bitmapToCompressedHexString(bitmap : MonochromeBitmap) : string
+{
+    const hex = bitmapToHexString(bitmap);
+    const rowLength = bitmap.bytesPerRow * 2;
+
+    const rows : string[] = [];
+    let previousRow : string | void = undefined;
+    for (let offset = 0, ilen = hex.length; offset < ilen; offset += rowLength) {
+        const row = hex.substring(offset, offset + rowLength);
+        if (row === previousRow) {
+            rows.push(':');
+            continue;
+        }
+        previousRow = row;
+
+        // Trailing white or black dots are filled in with a single character
+        const trailing = /(0+|F+)$/.exec(row);
+        const body = trailing ? row.substring(0, trailing.index) : row;
+        const fill = trailing ? (trailing[1][0] === '0' ? ',' : '!') : '';
+
+        let compressed = '';
+        for (let i = 0, jlen = body.length; i < jlen;) {
+            let j = i + 1;
+            while (j < jlen && body[j] === body[i]) j++;
+            compressed += compressHexRun(body[i], j - i);
+            i = j;
+        }
+        rows.push(compressed + fill);
+    }
+    return rows.join('');
+}
+
+/**
+ * Converts ASCII hex data of a graphic (^GF, ~DG) into a bitmap, the reverse of bitmapToHexString and
+ * bitmapToCompressedHexString. Both uncompressed and ACS compressed data are supported.
+ * 
+ * @param data - ASCII hex data, optionally compressed with the ZPL ASCII compression scheme
+ * @param totalBytes - total number of bytes of the bitmap
+ * @param bytesPerRow - number of bytes per row of the bitmap
+ * @returns the bitmap
+ */
+export function hexStringToBitmap(data : string, totalBytes : number, bytesPerRow : number) : MonochromeBitmap
+{
+    const bitmap = createMonochromeBitmap(bytesPerRow * 8, Math.ceil(totalBytes / bytesPerRow));
+    const rowLength = bytesPerRow * 2;
+    const hex : string[] = [];
+
+    let count = 0;
+    for (const character of data.replace(/\s/g, '')) {
+        const row = Math.floor(hex.length / rowLength);
+        const column = hex.length % rowLength;
+
+        if (/[G-Y]/.test(character)) {
+            count += character.charCodeAt(0) - 'F'.charCodeAt(0);
+        }
+        else if (/[g-z]/.test(character)) {
+            count += (character.charCodeAt(0) - 'f'.charCodeAt(0)) * 20;
+        }
+        else if (character === ',' || character === '!') {
+            for (let i = column; i < rowLength; i++) hex.push(character === ',' ? '0' : 'F');
+        }
+        else if (character === ':') {
+            const previousRow = hex.slice((row - 1) * rowLength, row * rowLength);
+            if (column === 0 && previousRow.length === rowLength) hex.push(...previousRow);
+        }
+        else if (/[0-9A-F]/i.test(character)) {
+            for (let i = 0, ilen = count || 1; i < ilen; i++) hex.push(character);
+            count = 0;
+        }
+    }
+
+    for (let i = 0, ilen = Math.min(bitmap.data.length, Math.floor(hex.length / 2)); i < ilen; i++) {
+        bitmap.data[i] = parseInt(hex[i * 2] + hex[i * 2 + 1], 16);
+    }
+    return bitmap;
+}
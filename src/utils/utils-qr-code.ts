@@ -1,3 +1,6 @@
+import { concatUint8Arrays } from './utils-buffers';
+import { ZplEncoding, encodeString } from './utils-code-pages';
+
 /**
  * QR Code data input mode. Type is a single character string.
  * 
@@ -18,6 +21,17 @@ export type QRDataInputMode = 'N'|'A'|'B'|'K';
  */
 export type QRErrorCorrectionLevel = 'L'|'M'|'Q'|'H';
 
+/**
+ * QR Code model. Model 2 (versions 1 to 40) is the current standard, model 1 (versions 1 to 14) the
+ * original specification.
+ */
+export type QRModel = 1|2;
+
+/**
+ * Segment of QR Code data, encoded in a single data input mode.
+ */
+export type QRCodeSegment = { mode : QRDataInputMode, data : string };
+
 /**
  * Array of pixel sizes of hee 40 versions of QR code.
  * 
@@ -58,7 +72,220 @@ const QRCodeCapacities = {
 };
 
 /**
- * Calculates the QR code version that will fit the size of data provided
+ * Error correction codewords per block, and number of blocks, by error correction level and version
+ * (model 2). Padded with an initial null so that the arrays can be indexed by version.
+ */
+const QRCodeErrorCorrectionCodewords : { [ K in QRErrorCorrectionLevel ] : number[] } = {
+    L : [ null, 7,10,15,20,26,18,20,24,30,18,20,24,26,30,22,24,28,30,28,28,28,28,30,30,26,28,30,30,30,30,30,30,30,30,30,30,30,30,30,30 ],
+    M : [ null, 10,16,26,18,24,16,18,22,22,26,30,22,22,24,24,28,28,26,26,26,26,28,28,28,28,28,28,28,28,28,28,28,28,28,28,28,28,28,28,28 ],
+    Q : [ null, 13,22,18,26,18,24,18,22,20,24,28,26,24,20,30,24,28,28,26,30,28,30,30,30,30,28,30,30,30,30,30,30,30,30,30,30,30,30,30,30 ],
+    H : [ null, 17,28,22,16,22,28,26,26,24,28,24,28,22,24,24,30,28,28,26,28,30,24,30,30,30,30,30,30,30,30,30,30,30,30,30,30,30,30,30,30 ],
+};
+const QRCodeErrorCorrectionBlocks : { [ K in QRErrorCorrectionLevel ] : number[] } = {
+    L : [ null, 1,1,1,1,1,2,2,2,2,4,4,4,4,4,6,6,6,6,7,8,8,9,9,10,12,12,12,13,14,15,16,17,18,19,19,20,21,22,24,25 ],
+    M : [ null, 1,1,1,2,2,4,4,4,5,5,5,8,9,9,10,10,11,13,14,16,17,17,18,20,21,23,25,26,28,29,31,33,35,37,38,40,43,45,47,49 ],
+    Q : [ null, 1,1,2,2,4,4,6,6,8,8,8,10,12,16,12,17,16,18,21,20,23,23,25,27,29,34,34,35,38,40,43,45,48,51,53,56,59,62,65,68 ],
+    H : [ null, 1,1,2,4,4,4,5,6,8,8,11,11,16,16,18,16,19,21,25,25,25,34,30,32,35,37,40,42,45,48,51,54,57,60,63,66,70,74,77,81 ],
+};
+
+/**
+ * Highest version of each QR Code model.
+ */
+const QRCodeMaxVersions : { [ K in QRModel ] : number } = { 1 : 14, 2 : 40 };
+
+/**
+ * Bits of the character count indicator of each data input mode, for versions 1 to 9, 10 to 26 and 27 to 40.
+ */
+const QRCodeCountIndicatorBits : { [ K in QRDataInputMode ] : [ number, number, number ] } = {
+    N : [ 10, 12, 14 ],
+    A : [ 9, 11, 13 ],
+    B : [ 8, 16, 16 ],
+    K : [ 8, 10, 12 ],
+};
+
+/**
+ * Characters of the alphanumeric mode.
+ */
+const QRAlphanumericCharacters = /^[0-9A-Z $%*+\-./:]$/;
+
+/**
+ * Lookup of the Shift JIS code of the characters of the Kanji mode, built when first needed.
+ */
+let ShiftJISKanjiCodes : void | Map<string, number> = undefined;
+
+/**
+ * Reads the Shift JIS code of a character that the Kanji mode encodes: the double byte characters
+ * of JIS X 0208 (0x8140 to 0x9FFC and 0xE040 to 0xEBBF), kanji as well as kana and full width symbols.
+ *
+ * @param character - single character
+ * @returns the Shift JIS code, if the Kanji mode encodes the character
+ */
+export function getQRKanjiCode(character : string) : void | number
+{
+    if (!ShiftJISKanjiCodes) {
+        const codes = new Map<string, number>();
+        const decoder = new TextDecoder('shift_jis', { fatal : true });
+        for (const [ first, last ] of [ [ 0x81, 0x9F ], [ 0xE0, 0xEB ] ]) {
+            for (let lead = first; lead <= last; lead++) {
+                for (let trail = 0x40; trail <= 0xFC; trail++) {
+                    if (trail === 0x7F || (lead === 0xEB && trail > 0xBF)) continue;
+                    try {
+                        const decoded = decoder.decode(new Uint8Array([ lead, trail ]));
+                        if (decoded.length === 1 && !codes.has(decoded)) codes.set(decoded, (lead << 8) | trail);
+                    }
+                    catch (e) {
+                        // Unassigned code
+                    }
+                }
+            }
+        }
+        ShiftJISKanjiCodes = codes;
+    }
+    return ShiftJISKanjiCodes.get(character);
+}
+
+/**
+ * Private helper to read the size class of a version, the index of its character count indicator bits.
+ */
+function getVersionClass(version : number) : 0|1|2
+{
+    return (version <= 9) ? 0 : (version <= 26) ? 1 : 2;
+}
+
+/**
+ * Encodes text as the bytes of the byte mode: in the character encoding of the label, or in UTF-8 for
+ * characters the encoding cannot represent. The field data of a QR code counts its bytes the same way.
+ *
+ * @param text - data of a byte segment
+ * @param encoding - character encoding of the field data
+ * @returns the bytes of the segment
+ */
+export function encodeQRCodeBytes(text : string, encoding? : ZplEncoding) : Uint8Array
+{
+    return concatUint8Arrays(...Array.from(text).map(character => {
+        try {
+            return encodeString(character, encoding);
+        }
+        catch (e) {
+            return encodeString(character, 'utf-8');
+        }
+    }));
+}
+
+/**
+ * Calculates the number of bits of data segments in a QR code, including the mode and character count
+ * indicators of each segment.
+ *
+ * @param segments - data segments
+ * @param version - version of the QR code, which sets the size of the character count indicators
+ * @param encoding - character encoding of the field data, for the length of byte segments
+ * @returns the number of bits
+ */
+export function getQRCodeBitLength(segments : QRCodeSegment[], version : number, encoding? : ZplEncoding) : number
+{
+    const versionClass = getVersionClass(version);
+    return segments.reduce((bits, { mode, data }) => {
+        const length = Array.from(data).length;
+        const header = 4 + QRCodeCountIndicatorBits[mode][versionClass];
+        switch (mode) {
+            case 'N': return bits + header + Math.floor(length / 3) * 10 + [ 0, 4, 7 ][length % 3];
+            case 'A': return bits + header + Math.floor(length / 2) * 11 + (length % 2) * 6;
+            case 'K': return bits + header + length * 13;
+            default:  return bits + header + encodeQRCodeBytes(data, encoding).length * 8;
+        }
+    }, 0);
+}
+
+/**
+ * Calculates the number of data bits a QR code holds. Model 1 symbols are sized with the capacities
+ * of model 2, which are slightly smaller, so that a symbol never prints larger than calculated.
+ *
+ * @param version - version of the QR code
+ * @param errorCorrectionLevel - error correction level
+ * @returns the number of data bits
+ */
+export function getQRCodeDataCapacity(version : number, errorCorrectionLevel : QRErrorCorrectionLevel) : number
+{
+    // Modules left for data and error correction once the function patterns are placed
+    let modules = (16 * version + 128) * version + 64;
+    if (version >= 2) {
+        const alignments = Math.floor(version / 7) + 2;
+        modules -= (25 * alignments - 10) * alignments - 55;
+        if (version >= 7) modules -= 36;
+    }
+
+    const errorCorrection = QRCodeErrorCorrectionCodewords[errorCorrectionLevel][version] * QRCodeErrorCorrectionBlocks[errorCorrectionLevel][version];
+    return (Math.floor(modules / 8) - errorCorrection) * 8;
+}
+
+/**
+ * Splits text into the data segments that encode it in the fewest bits, switching data input modes
+ * where a run of digits, alphanumeric characters or Kanji is long enough to make up for the segment
+ * header.
+ *
+ * @param text - data for the QR code
+ * @param version - version of the QR code, which sets the size of the segment headers (defaults to 1)
+ * @param encoding - character encoding of the field data, for the length of byte segments
+ * @returns the data segments
+ */
+export function getQRCodeSegments(text : string, version : number = 1, encoding? : ZplEncoding) : QRCodeSegment[]
+{
+    const characters = Array.from(text);
+    if (!characters.length) return [];
+
+    // Costs are in sixths of a bit, the cost of a numeric (10 bits for 3) and alphanumeric (11 bits for 2) character
+    const modes : QRDataInputMode[] = [ 'N', 'A', 'B', 'K' ];
+    const versionClass = getVersionClass(version);
+    const headerCosts = modes.map(mode => (4 + QRCodeCountIndicatorBits[mode][versionClass]) * 6);
+
+    // modeOf[i][m] is the mode of character i, when the segment that character i + 1 continues is in mode m
+    const modeOf : Array<Array<void | QRDataInputMode>> = [];
+    let costs = headerCosts.slice();
+    let endCosts = costs;
+    for (const character of characters) {
+        const direct : number[] = modes.map(() => Infinity);
+        if (/^[0-9]$/.test(character))                  direct[0] = costs[0] + 20;
+        if (QRAlphanumericCharacters.test(character))   direct[1] = costs[1] + 33;
+        direct[2] = costs[2] + encodeQRCodeBytes(character, encoding).length * 48;
+        if (getQRKanjiCode(character) !== undefined)    direct[3] = costs[3] + 78;
+
+        const next = direct.slice();
+        const from : Array<void | QRDataInputMode> = direct.map((cost, m) => (cost < Infinity) ? modes[m] : undefined);
+        modes.forEach((_, m) => {
+            direct.forEach((cost, k) => {
+                const switched = Math.ceil(cost / 6) * 6 + headerCosts[m];
+                if (switched < next[m]) {
+                    next[m] = switched;
+                    from[m] = modes[k];
+                }
+            });
+        });
+
+        modeOf.push(from);
+        endCosts = direct;
+        costs = next;
+    }
+
+    // Ends with the segment of the cheapest mode, then follows the modes back to the first character
+    let mode = modes[endCosts.indexOf(Math.min(...endCosts))];
+    const characterModes : QRDataInputMode[] = [];
+    for (let i = characters.length - 1; i >= 0; i--) {
+        characterModes[i] = mode;
+        if (i > 0) mode = modeOf[i - 1][modes.indexOf(mode)] as QRDataInputMode;
+    }
+
+    const segments : QRCodeSegment[] = [];
+    characters.forEach((character, i) => {
+        const last = segments[segments.length - 1];
+        if (last && last.mode === characterModes[i]) last.data += character;
+        else segments.push({ mode : characterModes[i], data : character });
+    });
+    return segments;
+}
+
+/**
+ * Calculates the QR code version that will fit the size of data provided, in a single data input mode
+ * (model 2, see getQRCodeVersionAndSegments for data mixing modes)
  * 
  * @param dataInputMode - data mode for QR code data
  * @param errorCorrectionLevel - error correction level for QR code data
@@ -75,29 +302,446 @@ export function getQRCodeVersion(dataInputMode : QRDataInputMode, errorCorrectio
 }
 
 /**
- * Calculates the minimum data input mode and corresponding size for a QR Code
- * 
+ * Calculates the smallest QR code version that fits data, segmenting the data for each size of the
+ * segment headers.
+ *
  * @param text - data for the QR code
- * 
- * @returns object.mode - the QR code mode 
+ * @param errorCorrectionLevel - error correction level for QR code data
+ * @param model - QR code model (defaults to 2)
+ * @param encoding - character encoding of the field data, for the length of byte segments
+ * @returns object.version - the QR code version, the highest version of the model when the data does not fit
+ * @returns object.segments - the data segments
+ */
+export function getQRCodeVersionAndSegments(text : string, errorCorrectionLevel : QRErrorCorrectionLevel, model : QRModel = 2, encoding? : ZplEncoding) : { version : number, segments : QRCodeSegment[] }
+{
+    const maxVersion = QRCodeMaxVersions[model];
+    let segments : QRCodeSegment[] = [];
+    for (let version = 1; version <= maxVersion; version++) {
+        if (version === 1 || getVersionClass(version) !== getVersionClass(version - 1)) segments = getQRCodeSegments(text, version, encoding);
+        if (getQRCodeBitLength(segments, version, encoding) <= getQRCodeDataCapacity(version, errorCorrectionLevel)) return { version, segments };
+    }
+    return { version : maxVersion, segments };
+}
+
+/**
+ * Calculates the parity of the data of a structured append, the XOR of its bytes (Kanji as Shift JIS).
+ *
+ * @param text - complete data split across the symbols
+ * @param encoding - character encoding of the field data
+ * @returns the parity byte
+ */
+export function getQRCodeParity(text : string, encoding? : ZplEncoding) : number
+{
+    let parity = 0;
+    for (const character of Array.from(text)) {
+        const kanji = getQRKanjiCode(character);
+        const bytes = (typeof kanji === 'number') ? [ kanji >> 8, kanji & 0xFF ] : encodeString(character, encoding);
+        bytes.forEach(byte => parity ^= byte);
+    }
+    return parity;
+}
+
+/**
+ * Calculates the single data input mode and corresponding size for a QR Code, when every character
+ * can be encoded in it.
+ *
+ * @param text - data for the QR code
+ *
+ * @returns object.mode - the QR code mode
  * @returns object.size - size of the QR code data
  */
 export function getQRCodeDataInputMode(text : string)
 {
     let mode : QRDataInputMode, size : number;
+    const characters = Array.from(text);
     if (/^[0-9]+$/.test(text)) {
         mode = 'N';
-        size = text.split(/[0-9]/).length - 1;
+        size = characters.length;
     }
-    else if (/^[0-9A-Z $%*+-./:]+$/.test(text)) {
+    else if (characters.length && characters.every(character => QRAlphanumericCharacters.test(character))) {
         mode = 'A';
-        size = text.split(/[0-9A-Z $%*+-./:]/).length - 1;
+        size = characters.length;
+    }
+    else if (characters.length && characters.every(character => getQRKanjiCode(character) !== undefined)) {
+        mode = 'K';
+        size = characters.length;
     }
-    // Possible to-do - automatic support for Kanji?
     else {
         mode = 'B';
         size = text.length;
     }
 
     return { mode, size };
-}
\ No newline at end of file
+}
+
+/**
+ * Mode indicator of each data input mode, the first 4 bits of a segment.
+ */
+const QRModeIndicators : { [ K in QRDataInputMode ] : number } = { N : 0b0001, A : 0b0010, B : 0b0100, K : 0b1000 };
+
+/**
+ * Format information bits of each error correction level.
+ */
+const QRErrorCorrectionFormatBits : { [ K in QRErrorCorrectionLevel ] : number } = { L : 0b01, M : 0b00, Q : 0b11, H : 0b10 };
+
+/**
+ * Condition of each mask pattern (0 to 7): modules where it is true are inverted.
+ */
+const QRMaskPatterns : Array<(row : number, column : number) => boolean> = [
+    (row, column) => (row + column) % 2 === 0,
+    (row, column) => row % 2 === 0,
+    (row, column) => column % 3 === 0,
+    (row, column) => (row + column) % 3 === 0,
+    (row, column) => (Math.floor(row / 2) + Math.floor(column / 3)) % 2 === 0,
+    (row, column) => (row * column) % 2 + (row * column) % 3 === 0,
+    (row, column) => ((row * column) % 2 + (row * column) % 3) % 2 === 0,
+    (row, column) => ((row + column) % 2 + (row * column) % 3) % 2 === 0,
+];
+
+/**
+ * Writes the bits of data segments, followed by the terminator and padding up to the data capacity.
+ *
+ * @param segments - data segments
+ * @param version - version of the QR code
+ * @param capacity - data bits of the QR code
+ * @param encoding - character encoding of byte segments
+ * @returns the data codewords
+ */
+function encodeQRCodeData(segments : QRCodeSegment[], version : number, capacity : number, encoding? : ZplEncoding) : number[]
+{
+    const bits : number[] = [];
+    const append = (value : number, length : number) => {
+        for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+    };
+
+    const versionClass = getVersionClass(version);
+    for (const { mode, data } of segments) {
+        const characters = Array.from(data);
+        append(QRModeIndicators[mode], 4);
+
+        if (mode === 'B') {
+            const bytes = encodeQRCodeBytes(data, encoding);
+            append(bytes.length, QRCodeCountIndicatorBits.B[versionClass]);
+            bytes.forEach(byte => append(byte, 8));
+            continue;
+        }
+
+        append(characters.length, QRCodeCountIndicatorBits[mode][versionClass]);
+        if (mode === 'N') {
+            for (let i = 0; i < characters.length; i += 3) {
+                const digits = characters.slice(i, i + 3).join('');
+                append(parseInt(digits, 10), [ 0, 4, 7, 10 ][digits.length]);
+            }
+        }
+        else if (mode === 'A') {
+            const value = (character : string) => '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:'.indexOf(character);
+            for (let i = 0; i < characters.length; i += 2) {
+                if (i + 1 < characters.length) append(value(characters[i]) * 45 + value(characters[i + 1]), 11);
+                else append(value(characters[i]), 6);
+            }
+        }
+        else {
+            for (const character of characters) {
+                // Shift JIS codes are offset to 0x0000 (from 0x8140 or 0xC140), then packed in 13 bits
+                const code = (getQRKanjiCode(character) as number) - (((getQRKanjiCode(character) as number) <= 0x9FFC) ? 0x8140 : 0xC140);
+                append((code >> 8) * 0xC0 + (code & 0xFF), 13);
+            }
+        }
+    }
+
+    // Terminator, then padding to a whole byte, then alternating pad codewords
+    append(0, Math.min(4, capacity - bits.length));
+    append(0, (8 - bits.length % 8) % 8);
+    const codewords : number[] = [];
+    for (let i = 0; i < bits.length; i += 8) codewords.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+    for (let pad = 0xEC; codewords.length < capacity / 8; pad ^= 0xEC ^ 0x11) codewords.push(pad);
+    return codewords;
+}
+
+/**
+ * Multiplies two elements of the Galois field GF(256) of QR codes (polynomial 0x11D).
+ */
+function multiplyGF256(a : number, b : number) : number
+{
+    let product = 0;
+    for (let i = 7; i >= 0; i--) {
+        product = (product << 1) ^ ((product >>> 7) * 0x11D);
+        product ^= ((b >>> i) & 1) * a;
+    }
+    return product;
+}
+
+/**
+ * Calculates the Reed-Solomon error correction codewords of a block of data codewords.
+ *
+ * @param data - data codewords of the block
+ * @param degree - number of error correction codewords
+ * @returns the error correction codewords
+ */
+function getReedSolomonCodewords(data : number[], degree : number) : number[]
+{
+    // Generator polynomial (x - 2^0)(x - 2^1)...(x - 2^(degree - 1)), without its leading coefficient
+    const generator : number[] = new Array(degree).fill(0);
+    generator[degree - 1] = 1;
+    let root = 1;
+    for (let i = 0; i < degree; i++) {
+        for (let j = 0; j < degree; j++) {
+            generator[j] = multiplyGF256(generator[j], root) ^ (generator[j + 1] ?? 0);
+        }
+        root = multiplyGF256(root, 0x02);
+    }
+
+    const remainder : number[] = new Array(degree).fill(0);
+    for (const codeword of data) {
+        const factor = codeword ^ remainder.shift();
+        remainder.push(0);
+        generator.forEach((coefficient, i) => remainder[i] ^= multiplyGF256(coefficient, factor));
+    }
+    return remainder;
+}
+
+/**
+ * Splits data codewords into the blocks of a version, adds their error correction codewords and
+ * interleaves the blocks.
+ *
+ * @param data - data codewords
+ * @param version - version of the QR code
+ * @param errorCorrectionLevel - error correction level
+ * @returns the codewords in the order they are placed in the symbol
+ */
+function interleaveQRCodeBlocks(data : number[], version : number, errorCorrectionLevel : QRErrorCorrectionLevel) : number[]
+{
+    const numBlocks   = QRCodeErrorCorrectionBlocks[errorCorrectionLevel][version];
+    const eccPerBlock = QRCodeErrorCorrectionCodewords[errorCorrectionLevel][version];
+    const shortBlockData = Math.floor(data.length / numBlocks);
+    const numLongBlocks  = data.length % numBlocks;
+
+    // Short blocks come first, long blocks have one more data codeword
+    const blocks : Array<{ data : number[], ecc : number[] }> = [];
+    for (let i = 0, offset = 0; i < numBlocks; i++) {
+        const length = shortBlockData + ((i >= numBlocks - numLongBlocks) ? 1 : 0);
+        const block = data.slice(offset, offset + length);
+        blocks.push({ data : block, ecc : getReedSolomonCodewords(block, eccPerBlock) });
+        offset += length;
+    }
+
+    const codewords : number[] = [];
+    for (let i = 0; i <= shortBlockData; i++) {
+        blocks.forEach(block => { if (i < block.data.length) codewords.push(block.data[i]); });
+    }
+    for (let i = 0; i < eccPerBlock; i++) {
+        blocks.forEach(block => codewords.push(block.ecc[i]));
+    }
+    return codewords;
+}
+
+/**
+ * Calculates the remainder of a BCH code, for the format and version information.
+ */
+function getBCHRemainder(value : number, polynomial : number, degree : number) : number
+{
+    let remainder = value << degree;
+    for (let bit = 31 - Math.clz32(remainder); bit >= degree; bit--) {
+        if ((remainder >>> bit) & 1) remainder ^= polynomial << (bit - degree);
+    }
+    return remainder;
+}
+
+/**
+ * Calculates the positions of the alignment patterns of a version, on both axes.
+ */
+function getAlignmentPositions(version : number) : number[]
+{
+    if (version === 1) return [];
+
+    const count = Math.floor(version / 7) + 2;
+    const size  = QRCodeSizesByVersion[version];
+    const step  = (version === 32) ? 26 : Math.ceil((size - 13) / (count * 2 - 2)) * 2;
+    const positions = [ 6 ];
+    for (let position = size - 7; positions.length < count; position -= step) positions.splice(1, 0, position);
+    return positions;
+}
+
+/**
+ * Calculates the penalty of a masked symbol, the sum of the four rules of the QR code specification:
+ * runs of modules of the same color, 2 x 2 blocks of the same color, patterns that look like finder
+ * patterns, and the balance of dark and light modules.
+ *
+ * @param matrix - module matrix, true for dark modules
+ * @returns the penalty score
+ */
+export function getQRCodePenalty(matrix : boolean[][]) : number
+{
+    const size = matrix.length;
+    const lines = [
+        ...matrix,
+        ...matrix.map((_, column) => matrix.map(row => row[column])),
+    ];
+
+    let penalty = 0;
+    const finderLike = [ true, false, true, true, true, false, true ];
+    for (const line of lines) {
+        // Rule 1: 3 points for a run of 5 modules, 1 point per additional module
+        for (let i = 0, run = 0; i < size; i++) {
+            run = (i > 0 && line[i] === line[i - 1]) ? run + 1 : 1;
+            if (run === 5) penalty += 3;
+            else if (run > 5) penalty += 1;
+        }
+
+        // Rule 3: 40 points for a 1:1:3:1:1 pattern with 4 light modules on either side (outside the symbol is light)
+        const isLight = (from : number, to : number) => {
+            for (let i = from; i < to; i++) if (line[i]) return false;
+            return true;
+        };
+        for (let i = 0; i + 7 <= size; i++) {
+            if (finderLike.every((dark, j) => line[i + j] === dark) && (isLight(i - 4, i) || isLight(i + 7, i + 11))) penalty += 40;
+        }
+    }
+
+    // Rule 2: 3 points per 2 x 2 block of the same color
+    let dark = 0;
+    for (let row = 0; row < size; row++) {
+        for (let column = 0; column < size; column++) {
+            if (matrix[row][column]) dark++;
+            if (row < size - 1 && column < size - 1) {
+                const color = matrix[row][column];
+                if (matrix[row][column + 1] === color && matrix[row + 1][column] === color && matrix[row + 1][column + 1] === color) penalty += 3;
+            }
+        }
+    }
+
+    // Rule 4: 10 points per 5% of dark modules away from 50%
+    penalty += Math.floor(Math.abs(dark * 2 - size * size) * 10 / (size * size)) * 10;
+    return penalty;
+}
+
+/**
+ * Encodes data into the module matrix of a QR code (model 2), as a scanner reads it: data segments
+ * in the fewest bits, Reed-Solomon error correction, and the mask with the lowest penalty unless one
+ * is provided.
+ *
+ * @param text - data for the QR code
+ * @param options.errorCorrectionLevel - error correction level (defaults to Q)
+ * @param options.maskValue - mask pattern (0 to 7), otherwise the mask with the lowest penalty
+ * @param options.encoding - character encoding of byte segments (defaults to a single byte per character, UTF-8 above 0xFF)
+ * @returns the module matrix without quiet zone, true for dark modules
+ * @throws a RangeError if the data does not fit a QR code, or the mask is invalid
+ */
+export function encodeQRCode(text : string, options : {
+    errorCorrectionLevel? : QRErrorCorrectionLevel;
+    maskValue? : number;
+    encoding? : ZplEncoding;
+} = {}) : boolean[][]
+{
+    const errorCorrectionLevel = options.errorCorrectionLevel || 'Q';
+    const { maskValue, encoding } = options;
+    if (maskValue !== undefined && !(Number.isInteger(maskValue) && maskValue >= 0 && maskValue <= 7)) throw new RangeError(`Invalid mask value ${maskValue}, should be an integer between 0 and 7`);
+
+    const { version, segments } = getQRCodeVersionAndSegments(text, errorCorrectionLevel, 2, encoding);
+    const capacity = getQRCodeDataCapacity(version, errorCorrectionLevel);
+    if (getQRCodeBitLength(segments, version, encoding) > capacity) throw new RangeError(`Data does not fit a QR code at error correction level ${errorCorrectionLevel}`);
+
+    const size = QRCodeSizesByVersion[version];
+    const modules   : boolean[][] = Array.from({ length : size }, () => new Array(size).fill(false));
+    const reserved  : boolean[][] = Array.from({ length : size }, () => new Array(size).fill(false));
+    const setFunction = (row : number, column : number, dark : boolean) => {
+        modules[row][column]  = dark;
+        reserved[row][column] = true;
+    };
+
+    // Timing patterns
+    for (let i = 0; i < size; i++) {
+        setFunction(6, i, i % 2 === 0);
+        setFunction(i, 6, i % 2 === 0);
+    }
+
+    // Finder patterns, with their separators
+    for (const [ top, left ] of [ [ 0, 0 ], [ 0, size - 7 ], [ size - 7, 0 ] ]) {
+        for (let row = -1; row <= 7; row++) {
+            for (let column = -1; column <= 7; column++) {
+                if (top + row < 0 || top + row >= size || left + column < 0 || left + column >= size) continue;
+
+                const ring = Math.max(Math.abs(row - 3), Math.abs(column - 3));
+                setFunction(top + row, left + column, ring !== 2 && ring !== 4);
+            }
+        }
+    }
+
+    // Alignment patterns, except where they would overlap the finder patterns
+    const alignments = getAlignmentPositions(version);
+    alignments.forEach((row, i) => alignments.forEach((column, j) => {
+        const isFinder = (i === 0 && j === 0) || (i === 0 && j === alignments.length - 1) || (i === alignments.length - 1 && j === 0);
+        if (isFinder) return;
+
+        for (let dy = -2; dy <= 2; dy++) {
+            for (let dx = -2; dx <= 2; dx++) setFunction(row + dy, column + dx, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+        }
+    }));
+
+    // Format information (written once the mask is chosen) and the dark module
+    const drawFormat = (mask : number) => {
+        const data = (QRErrorCorrectionFormatBits[errorCorrectionLevel] << 3) | mask;
+        const bits = ((data << 10) | getBCHRemainder(data, 0x537, 10)) ^ 0x5412;
+        const bit = (i : number) => ((bits >>> i) & 1) === 1;
+
+        // Around the top left finder pattern, then split below the top right and beside the bottom left ones
+        for (let i = 0; i <= 5; i++) setFunction(i, 8, bit(i));
+        setFunction(7, 8, bit(6));
+        setFunction(8, 8, bit(7));
+        setFunction(8, 7, bit(8));
+        for (let i = 9; i < 15; i++) setFunction(8, 14 - i, bit(i));
+
+        for (let i = 0; i < 8; i++) setFunction(8, size - 1 - i, bit(i));
+        for (let i = 8; i < 15; i++) setFunction(size - 15 + i, 8, bit(i));
+        setFunction(size - 8, 8, true);
+    };
+    drawFormat(0);
+
+    // Version information, for versions 7 and up
+    if (version >= 7) {
+        const bits = (version << 12) | getBCHRemainder(version, 0x1F25, 12);
+        for (let i = 0; i < 18; i++) {
+            const dark = ((bits >>> i) & 1) === 1;
+            const a = size - 11 + i % 3;
+            const b = Math.floor(i / 3);
+            setFunction(a, b, dark);
+            setFunction(b, a, dark);
+        }
+    }
+
+    // Codewords are placed in pairs of columns from the bottom right, moving up and down in turn (skipping the vertical timing pattern)
+    const codewords = interleaveQRCodeBlocks(encodeQRCodeData(segments, version, capacity, encoding), version, errorCorrectionLevel);
+    let bitIndex = 0;
+    for (let right = size - 1; right >= 1; right -= 2) {
+        if (right === 6) right = 5;
+        for (let step = 0; step < size; step++) {
+            for (let j = 0; j < 2; j++) {
+                const column = right - j;
+                const upward = ((right + 1) & 2) === 0;
+                const row = upward ? size - 1 - step : step;
+                if (reserved[row][column]) continue;
+
+                if (bitIndex < codewords.length * 8) modules[row][column] = ((codewords[bitIndex >>> 3] >>> (7 - (bitIndex & 7))) & 1) === 1;
+                bitIndex++;
+            }
+        }
+    }
+
+    const applyMask = (mask : number) => modules.map((row, r) => row.map((dark, c) => (!reserved[r][c] && QRMaskPatterns[mask](r, c)) ? !dark : dark));
+
+    let mask = maskValue;
+    if (mask === undefined) {
+        let lowestPenalty = Infinity;
+        for (let candidate = 0; candidate < 8; candidate++) {
+            drawFormat(candidate);
+            const penalty = getQRCodePenalty(applyMask(candidate));
+            if (penalty < lowestPenalty) {
+                lowestPenalty = penalty;
+                mask = candidate;
+            }
+        }
+    }
+
+    drawFormat(mask);
+    return applyMask(mask);
+}
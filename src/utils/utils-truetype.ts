@@ -0,0 +1,134 @@
+/**
+ * Horizontal metrics of a TrueType font, in font units (see unitsPerEm).
+ *
+ * unitsPerEm      - size of the em square, the font size in font units
+ * ascender        - height above the baseline
+ * descender       - depth below the baseline (negative)
+ * getAdvanceWidth - advance width of the glyph of a code point, the width of the missing glyph
+ *                   for characters the font does not have
+ */
+export type TrueTypeMetrics = {
+    unitsPerEm      : number;
+    ascender        : number;
+    descender       : number;
+    getAdvanceWidth : (codePoint : number) => number;
+};
+
+/**
+ * Reads the table directory of a TrueType (or OpenType) font.
+ *
+ * @param view - contents of the font file
+ * @returns the offset of each table, by tag
+ * @throws a TypeError if the data is not a TrueType font
+ */
+function readTableOffsets(view : DataView) : Map<string, number>
+{
+    const version = (view.byteLength >= 12) ? view.getUint32(0) : 0;
+    if (version !== 0x00010000 && version !== 0x74727565 && version !== 0x4F54544F) throw new TypeError('Data is not a TrueType font');
+
+    const tables = new Map<string, number>();
+    for (let i = 0, ilen = view.getUint16(4); i < ilen; i++) {
+        const record = 12 + i * 16;
+        const tag = String.fromCharCode(view.getUint8(record), view.getUint8(record + 1), view.getUint8(record + 2), view.getUint8(record + 3));
+        tables.set(tag, view.getUint32(record + 8));
+    }
+
+    for (const tag of [ 'head', 'hhea', 'hmtx', 'cmap' ]) {
+        if (!tables.has(tag)) throw new TypeError(`TrueType font has no ${tag} table`);
+    }
+    return tables;
+}
+
+/**
+ * Reads the character to glyph mapping of a font, from its Unicode subtable (format 4 for the Basic
+ * Multilingual Plane, or format 12 for every code point).
+ *
+ * @param view - contents of the font file
+ * @param cmap - offset of the cmap table
+ * @returns the lookup of the glyph index of a code point (0 for the missing glyph)
+ * @throws a TypeError if the font has no Unicode subtable
+ */
+function readCharacterMap(view : DataView, cmap : number) : (codePoint : number) => number
+{
+    const subtables : { [ format : number ] : number } = {};
+    for (let i = 0, ilen = view.getUint16(cmap + 2); i < ilen; i++) {
+        const record     = cmap + 4 + i * 8;
+        const platformId = view.getUint16(record);
+        const encodingId = view.getUint16(record + 2);
+        const offset     = cmap + view.getUint32(record + 4);
+
+        // Unicode platform, or Windows platform with a Unicode (or symbol) encoding
+        if (platformId === 0 || (platformId === 3 && [ 0, 1, 10 ].includes(encodingId))) {
+            const format = view.getUint16(offset);
+            if (subtables[format] === undefined) subtables[format] = offset;
+        }
+    }
+
+    if (subtables[12] !== undefined) {
+        const subtable  = subtables[12];
+        const numGroups = view.getUint32(subtable + 12);
+        return codePoint => {
+            for (let i = 0; i < numGroups; i++) {
+                const group = subtable + 16 + i * 12;
+                const start = view.getUint32(group);
+                if (codePoint >= start && codePoint <= view.getUint32(group + 4)) return view.getUint32(group + 8) + codePoint - start;
+            }
+            return 0;
+        };
+    }
+
+    if (subtables[4] !== undefined) {
+        const subtable       = subtables[4];
+        const segCount       = view.getUint16(subtable + 6) / 2;
+        const endCodes       = subtable + 14;
+        const startCodes     = endCodes + segCount * 2 + 2;
+        const idDeltas       = startCodes + segCount * 2;
+        const idRangeOffsets = idDeltas + segCount * 2;
+        return codePoint => {
+            for (let i = 0; i < segCount; i++) {
+                if (codePoint > view.getUint16(endCodes + i * 2)) continue;
+
+                const start = view.getUint16(startCodes + i * 2);
+                if (codePoint < start) return 0;
+
+                const idDelta       = view.getUint16(idDeltas + i * 2);
+                const idRangeOffset = view.getUint16(idRangeOffsets + i * 2);
+                if (!idRangeOffset) return (codePoint + idDelta) & 0xFFFF;
+
+                const glyph = view.getUint16(idRangeOffsets + i * 2 + idRangeOffset + (codePoint - start) * 2);
+                return glyph ? (glyph + idDelta) & 0xFFFF : 0;
+            }
+            return 0;
+        };
+    }
+
+    throw new TypeError('TrueType font has no Unicode character map');
+}
+
+/**
+ * Reads the horizontal metrics of a TrueType font, to measure text before it is printed. Advance widths
+ * come from the hmtx table, through the Unicode character map (cmap).
+ *
+ * @param data - contents of the font file
+ * @returns the metrics of the font
+ * @throws a TypeError if the data is not a TrueType font, or a required table is missing
+ */
+export function parseTrueTypeMetrics(data : Uint8Array) : TrueTypeMetrics
+{
+    const view   = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const tables = readTableOffsets(view);
+
+    const head = tables.get('head') as number;
+    const hhea = tables.get('hhea') as number;
+    const hmtx = tables.get('hmtx') as number;
+    const numberOfHMetrics = view.getUint16(hhea + 34);
+    const glyphIndex = readCharacterMap(view, tables.get('cmap') as number);
+
+    return {
+        unitsPerEm      : view.getUint16(head + 18),
+        ascender        : view.getInt16(hhea + 4),
+        descender       : view.getInt16(hhea + 6),
+        // Glyphs past the last metric have the advance width of the last metric (e.g. monospaced fonts)
+        getAdvanceWidth : codePoint => view.getUint16(hmtx + Math.min(glyphIndex(codePoint), numberOfHMetrics - 1) * 4),
+    };
+}
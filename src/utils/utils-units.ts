@@ -14,6 +14,22 @@ export function dotsToInches(dots : number, dpi : number) : number
     return dots / dpi;
 }
 
+/**
+ * Converts from number of millimeters to dots based on DPI
+ */
+export function millimetersToDots(millimeters : number, dpi : number) : number
+{
+    return millimeters * dpi / 25.4;
+}
+
+/**
+ * Converts from number of dots to millimeters based on DPI
+ */
+export function dotsToMillimeters(dots : number, dpi : number) : number
+{
+    return dots * 25.4 / dpi;
+}
+
 /**
  * Converts from number of CSS pixels to dots based on DPI
  */
@@ -28,4 +44,63 @@ export function CSSPixelsToDots(pixels : number, dpi : number ) : number
 export function dotsToCSSPixels(dots : number, dpi : number ) : number
 {
     return dots * 96 / dpi;
-}
\ No newline at end of file
+}
+/**
+ * Resolutions of Zebra printers, named by dots per millimeter as on the printer configuration label.
+ */
+export const DpiPresets = {
+    '6dpmm'  : 152,
+    '8dpmm'  : 203,
+    '12dpmm' : 300,
+    '24dpmm' : 600,
+} as const;
+export type DpiPreset = keyof typeof DpiPresets;
+
+/**
+ * Converts a resolution, in dots per inch or named after a preset, to dots per inch.
+ *
+ * @throws a TypeError if the resolution is not a positive number or a preset
+ */
+export function resolveDpi(dpi : number | DpiPreset) : number
+{
+    if (typeof dpi === 'string') {
+        if (!DpiPresets.hasOwnProperty(dpi)) throw new TypeError(`Unknown DPI preset "${dpi}", should be one of ${Object.keys(DpiPresets).join(', ')}`);
+        return DpiPresets[dpi];
+    }
+    if (!(dpi > 0)) throw new TypeError(`Invalid DPI ${dpi}, should be a positive number`);
+    return dpi;
+}
+
+/**
+ * Rounds a number of dots to an integer.
+ */
+export type DotRounding = 'round'|'floor'|'ceil';
+
+/**
+ * Units that can be converted into dots.
+ */
+export type Unit = 'in'|'mm'|'cm'|'px'|'dots';
+
+/**
+ * Converts from a number in the provided units to dots based on DPI
+ */
+export function unitsToDots(value : number, unit : Unit, dpi : number) : number
+{
+    switch (unit) {
+        case 'in':
+            return inchesToDots(value, dpi);
+
+        case 'mm':
+            return millimetersToDots(value, dpi);
+
+        case 'cm':
+            return millimetersToDots(value * 10, dpi);
+
+        case 'px':
+            return CSSPixelsToDots(value, dpi);
+
+        case 'dots':
+        default:
+            return value;
+    }
+}
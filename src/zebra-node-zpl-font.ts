@@ -0,0 +1,168 @@
+import { basename, extname } from 'path';
+import { existsSync, readFileSync, promises as fsPromises } from 'fs';
+
+import { concatUint8Arrays, stringToUint8Array } from './utils/utils-buffers';
+import {
+    ZplDownloadObjects,
+    ZplDownloadUnboundedTrueTypeFont,
+    ZplFontIdentifier,
+    ZplObjectDelete,
+    ZplUseFontNameToCallFont,
+} from './commands';
+import { uint8ArrayToHexString } from './utils/utils-encodings';
+import { TrueTypeMetrics, parseTrueTypeMetrics } from './utils/utils-truetype';
+import { ZplFontDescription } from './zebra-zpl-font';
+
+export class ZplFont implements ZplFontDescription {
+    private _filepath   : string;
+    private _name       : string;
+    private _drive      : 'R'|'E'|'B'|'A';
+    private _identifier : void | string;
+    private _unbounded  : boolean;
+    private _metrics    : void | TrueTypeMetrics;
+
+    /**
+     * Object representation of a ZPL TrueType font (for Node)
+     * @param filepath - path to the TTF file (should be absolute)
+     * @param nameOnPrinter - name of the file on the printer, otherwise is the first 8 alphanumeric characters of the file
+     * @param options.drive - drive storing the font (defaults to E, the flash memory, which keeps it after a restart)
+     * @param options.identifier - letter or digit the font is called by, in place of a built-in font when it has the same one (^CW)
+     * @param options.unbounded - downloads the font as an unbounded font (~DU), for fonts with more than 256 characters (e.g. Asian fonts)
+     */
+    constructor(filepath : string, nameOnPrinter? : string, options : {
+        drive?      : 'R'|'E'|'B'|'A';
+        identifier? : string;
+        unbounded?  : boolean;
+    } = {}) {
+        const ext = extname(filepath);
+
+        if (ext.toLowerCase() !== '.ttf') throw new TypeError(`File should be a TTF, got a ${ext}`);
+        if (!existsSync(filepath))        throw new TypeError(`TTF file not found at ${filepath}`);
+        if (nameOnPrinter) {
+            if (/[^A-Z0-9]/i.test(nameOnPrinter)) throw new TypeError('nameOnPrinter argument should be alphanumeric');
+            if (nameOnPrinter.length > 8)         throw new TypeError('nameOnPrinter argument should be 8 characters or less');
+        }
+        if (options.drive && ![ 'R', 'E', 'B', 'A' ].includes(options.drive)) throw new TypeError(`Invalid drive "${options.drive}", should be R, E, B or A`);
+        if (options.identifier !== undefined && !/^[A-Z0-9]$/i.test(options.identifier)) throw new TypeError('options.identifier should be a single letter or digit');
+
+        this._filepath   = filepath;
+        this._name       = (nameOnPrinter ? nameOnPrinter : basename(filepath, ext).replace(/[^A-Z0-9]/gi, '').substring(0, 8)).toUpperCase();
+        this._drive      = options.drive || 'E';
+        this._identifier = options.identifier?.toUpperCase();
+        this._unbounded  = !!options.unbounded;
+    }
+
+    /**
+     * Name of the font on the printer
+     */
+    get name() : string {
+        return this._name;
+    }
+
+    /**
+     * Drive storing the font on the printer
+     */
+    get drive() : 'R'|'E'|'B'|'A' {
+        return this._drive;
+    }
+
+    /**
+     * Extension of the font on the printer, unbounded fonts are stored as .FNT
+     */
+    get extension() : 'TTF'|'FNT' {
+        return this._unbounded ? 'FNT' : 'TTF';
+    }
+
+    /**
+     * Letter or digit the font is called by, if any
+     */
+    get identifier() : void | string {
+        return this._identifier;
+    }
+
+    /**
+     * Horizontal metrics of the font, read from the TTF file when first needed (see ZplLabel.measureText)
+     * @throws a TypeError if the file is not a valid TrueType font
+     */
+    get metrics() : TrueTypeMetrics {
+        return this._metrics || (this._metrics = parseTrueTypeMetrics(readFileSync(this._filepath)));
+    }
+
+    /**
+     * @returns import statement as a buffer
+     */
+    async getImportBuffer() : Promise<Uint8Array> {
+        const ttfBuffer = await fsPromises.readFile(this._filepath);
+
+        const ttfSize = ttfBuffer.byteLength;
+        const ttfData = stringToUint8Array(uint8ArrayToHexString(ttfBuffer));
+
+        const zplBuffer = this._unbounded
+            ? ZplDownloadUnboundedTrueTypeFont.getCommandBuffer({ d : this._drive, o : this._name, x : 'FNT', s : ttfSize, data : ttfData })
+            : ZplDownloadObjects.getCommandBuffer({ d : this._drive, f : this._name, b : 'A', x : 'T', t : ttfSize, w : undefined, data : ttfData });
+
+        return concatUint8Arrays(
+            stringToUint8Array('^XA'),
+            zplBuffer,
+            stringToUint8Array('^XZ')
+        );
+    }
+
+    /**
+     * Command to call the font by its identifier, in a label format (as a string)
+     * @throws a TypeError if the font has no identifier
+     */
+    get aliasString() : string {
+        if (!this._identifier) throw new TypeError('The font has no identifier, see options.identifier');
+        return ZplFontIdentifier.getCommandString({ a : this._identifier, d : this._drive, o : this._name, x : this.extension });
+    }
+
+    /**
+     * Command to call the font by its identifier, in a label format (as a buffer)
+     * @throws a TypeError if the font has no identifier
+     */
+    get aliasBuffer() : Uint8Array {
+        return stringToUint8Array(this.aliasString);
+    }
+
+    /**
+     * Command to use the font for a field, by its drive and name (as a string)
+     * @param options.orientation - field orientation
+     * @param options.height - character height (in dots)
+     * @param options.width - character width (in dots)
+     */
+    getFontString(options : { orientation? : 'N'|'R'|'I'|'B', height? : number, width? : number } = {}) : string {
+        return ZplUseFontNameToCallFont.getCommandString({ o : options.orientation, h : options.height, w : options.width, d : this._drive, f : this._name, x : this.extension });
+    }
+
+    /**
+     * Command to use the font for a field, by its drive and name (as a buffer)
+     * @param options.orientation - field orientation
+     * @param options.height - character height (in dots)
+     * @param options.width - character width (in dots)
+     */
+    getFontBuffer(options : { orientation? : 'N'|'R'|'I'|'B', height? : number, width? : number } = {}) : Uint8Array {
+        return stringToUint8Array(this.getFontString(options));
+    }
+
+    /**
+     * Command to delete font from printer memory (as a string)
+     */
+    get deleteString() : string {
+        return ZplObjectDelete.getCommandString({ d : this._drive, o : this._name, x : this.extension });
+    }
+
+    /**
+     * Command to delete font from printer memory (as a buffer)
+     */
+    get deleteBuffer() : Uint8Array {
+        return ZplObjectDelete.getCommandBuffer({ d : this._drive, o : this._name, x : this.extension });
+    }
+
+    /**
+     * Location of the font on the printer (e.g. E:BRAND.TTF), used by JSON.stringify
+     */
+    toJSON() : string {
+        return `${this._drive}:${this._name}.${this.extension}`;
+    }
+}
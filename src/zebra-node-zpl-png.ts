@@ -2,13 +2,13 @@ import { basename, extname } from 'path';
 import { existsSync, promises as fsPromises } from 'fs';
 
 import { concatUint8Arrays, stringToUint8Array } from './utils/utils-buffers';
-import { ZplDownloadObjects, ZplImageLoad, ZplObjectDelete } from './zebra-zpl-commands';
+import { ZplDownloadObjects, ZplImageLoad, ZplObjectDelete } from './commands';
 import { uint8ArrayToHexString } from './utils/utils-encodings';
 
 export class ZplPng {
     private _filepath : string;
     private _name     : string;
-    private _drive    : string;
+    private _drive    : 'R'|'E'|'B'|'A';
 
     /**
      * Object representation of a ZPL PNG (for Node)
@@ -41,7 +41,7 @@ export class ZplPng {
         const pngSize = pngBuffer.byteLength;
         const pngData = uint8ArrayToHexString(pngBuffer);
 
-        zplBuffer = ZplDownloadObjects.applyAsBuffer(this._drive, this._name, 'P', 'P', pngSize, null, pngData);
+        zplBuffer = ZplDownloadObjects.getCommandBuffer({ d : this._drive, f : this._name, b : 'P', x : 'P', t : pngSize, w : undefined, data : stringToUint8Array(pngData) });
 
         /** ================================
          * Base 64 Implementation - Note this not viable because the 16-bit CRC is proprietary according the Zebra website:
@@ -70,27 +70,27 @@ export class ZplPng {
      * Command to draw image on the sticker (as a string)
      */
     get drawString() : string {
-        return ZplImageLoad.applyAsString(this._drive, this._name, 'PNG');
+        return ZplImageLoad.getCommandString({ d : this._drive, o : this._name, x : 'PNG' });
     }
 
     /**
      * Command to draw image on the sticker (as a buffer)
      */
     get drawBuffer() : Uint8Array {
-        return ZplImageLoad.applyAsBuffer(this._drive, this._name, 'PNG');
+        return ZplImageLoad.getCommandBuffer({ d : this._drive, o : this._name, x : 'PNG' });
     }
 
     /**
      * Command to delete image from printer memory (as a string)
      */
     get deleteString() : string {
-        return ZplObjectDelete.applyAsString(this._drive, this._name, 'PNG');
+        return ZplObjectDelete.getCommandString({ d : this._drive, o : this._name, x : 'PNG' });
     }
 
     /**
      * Command to delete image from printer memory (as a buffer)
      */
     get deleteBuffer() : Uint8Array {
-        return ZplObjectDelete.applyAsBuffer(this._drive, this._name, 'PNG');
+        return ZplObjectDelete.getCommandBuffer({ d : this._drive, o : this._name, x : 'PNG' });
     }
 }
\ No newline at end of file
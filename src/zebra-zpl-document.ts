@@ -0,0 +1,95 @@
+import { concatUint8Arrays, uint8ArrayToString } from './utils/utils-buffers';
+import { ZplCommandSet } from './commands/command-set';
+import { ZplStartFormat, ZplEndFormat } from './commands';
+import { ZplLabel } from './zebra-zpl-label';
+
+type ZplDocumentItem = ZplLabel | ZplCommandSet | Uint8Array;
+
+export class ZplDocument
+{
+    private _items     : ZplDocumentItem[];
+    private _downloads : Set<string>;
+    private _deletes   : Uint8Array[];
+
+    /**
+     * Object representation of a print job, made of labels, commands and downloads of stored objects
+     * (e.g. images or fonts) sent to the printer in a single transfer.
+     */
+    constructor() {
+        this._items     = [];
+        this._downloads = new Set();
+        this._deletes   = [];
+    }
+
+    /**
+     * Adds a label or a set of commands to this document. Items are serialized when the document is,
+     * so later changes to a label are included.
+     *
+     * @param item - label or set of commands
+     * @returns this ZplDocument object, for chaining
+     */
+    add(item : ZplLabel | ZplCommandSet) {
+        if (!(item instanceof ZplLabel) && !(item instanceof ZplCommandSet)) throw new TypeError('Item should be a ZplLabel or a ZplCommandSet');
+
+        this._items.push(item);
+        return this;
+    }
+
+    /**
+     * Adds the download of a stored object to this document (e.g. ZplPng.getImportBuffer). A download
+     * identical to a previous one is skipped, the object is already stored on the printer.
+     *
+     * @param importBuffer - commands downloading the object
+     * @param options.deleteBuffer - command deleting the object (e.g. ZplPng.deleteBuffer), appended at the end
+     *                               of the document to remove the object once every label is printed
+     * @returns this ZplDocument object, for chaining
+     */
+    download(importBuffer : Uint8Array, options : { deleteBuffer? : Uint8Array } = {}) {
+        if (!(importBuffer instanceof Uint8Array)) throw new TypeError('importBuffer should be an Uint8Array');
+
+        const key = uint8ArrayToString(importBuffer);
+        if (this._downloads.has(key)) return this;
+        this._downloads.add(key);
+
+        this._items.push(importBuffer);
+        if (options.deleteBuffer) this._deletes.push(options.deleteBuffer);
+        return this;
+    }
+
+    /**
+     * Private helper to build the format deleting the downloaded objects, if any.
+     *
+     * @returns the delete commands within a format, or an empty buffer
+     */
+    private _deleteBuffer() : Uint8Array {
+        if (!this._deletes.length) return new Uint8Array(0);
+
+        return concatUint8Arrays(
+            ZplStartFormat.getCommandBuffer({}),
+            ...this._deletes,
+            ZplEndFormat.getCommandBuffer({}),
+        );
+    }
+
+    /**
+     * Computes the whole document as a buffer, with labels encoded in their options.encoding.
+     *
+     * @returns the document as a command
+     */
+    getCommandBuffer() : Uint8Array {
+        return concatUint8Arrays(
+            ...this._items.map(item => (item instanceof Uint8Array) ? item : item.getCommandBuffer()),
+            this._deleteBuffer(),
+        );
+    }
+
+    /**
+     * Computes the whole document as a string, downloads are written one character per byte.
+     *
+     * @returns the document as a command
+     */
+    getCommandString() : string {
+        return this._items.map(item => (item instanceof Uint8Array) ? uint8ArrayToString(item) : item.getCommandString()).join('')
+             + uint8ArrayToString(this._deleteBuffer());
+    }
+}
@@ -0,0 +1,36 @@
+import { TrueTypeMetrics } from './utils/utils-truetype';
+
+/**
+ * Description of a font downloaded to the printer, as used by ZplLabel (e.g. a ZplFont for Node). Labels
+ * only read the location and identifier of the font, and its metrics to measure text.
+ *
+ * name       - name of the font on the printer (up to 8 alphanumeric characters)
+ * drive      - drive storing the font on the printer
+ * extension  - extension of the font on the printer, unbounded fonts are stored as .FNT
+ * identifier - letter or digit the font is called by (^CW), if any
+ * metrics    - horizontal metrics of the font, to measure text (see ZplLabel.measureText)
+ * toJSON     - location of the font on the printer (e.g. E:BRAND.TTF)
+ */
+export interface ZplFontDescription {
+    readonly name       : string;
+    readonly drive      : 'R'|'E'|'B'|'A';
+    readonly extension  : 'TTF'|'FNT';
+    readonly identifier : void | string;
+    readonly metrics    : TrueTypeMetrics;
+    toJSON() : string;
+}
+
+/**
+ * Checks whether a value describes a downloaded font, rather than a font name or a font with a size.
+ *
+ * @param value - font option of a label
+ * @returns whether the value is a font description
+ */
+export function isZplFontDescription(value : any) : value is ZplFontDescription
+{
+    return typeof value === 'object' && value !== null
+        && typeof value.name === 'string'
+        && typeof value.drive === 'string'
+        && typeof value.extension === 'string'
+        && typeof value.toJSON === 'function';
+}
@@ -0,0 +1,314 @@
+import { DotRounding, DpiPreset, DpiPresets, Unit } from './utils/utils-units';
+import { MonochromeBitmap, bitmapToHexString, createMonochromeBitmap, hexStringToBitmap } from './utils/utils-graphics';
+import { ZplEncoding, ZplEncodingCharacterSets } from './utils/utils-code-pages';
+import { LabelSettings, ZplFormatField, ZplLabelElementType, ZplSerialField } from './zebra-zpl-label';
+
+/**
+ * Types of elements that can be described in JSON, every element except mounted fragments.
+ */
+export type ZplLabelJSONElementType = Exclude<ZplLabelElementType, 'fragment'>;
+
+/**
+ * Bitmap of an image element, as ASCII hex (optionally ZPL compressed) rows of whole bytes.
+ */
+export type ZplLabelJSONBitmap = {
+    width  : number;
+    height : number;
+    data   : string;
+};
+
+/**
+ * Element of a label described in JSON, as listed in ZplLabel.elements: the position and options of
+ * the drawing call, sizes (width, height) being options. The data is the text or bar code data, the
+ * comment of a comment, or the bitmap of an image.
+ */
+export type ZplLabelJSONElement = {
+    type     : ZplLabelJSONElementType;
+    x        : number;
+    y        : number;
+    data?    : string | ZplFormatField | ZplSerialField | ZplLabelJSONBitmap;
+    options? : { [ option : string ] : any };
+};
+
+/**
+ * Label described in JSON, with the options of the ZplLabel constructor, the print options (see
+ * ZplLabel.print) and the elements in drawing order.
+ */
+export type ZplLabelJSON = {
+    unit?        : Unit;
+    dpi?         : number | DpiPreset;
+    rounding?    : DotRounding;
+    width?       : number;
+    height?      : number;
+    outOfBounds? : 'throw' | 'ignore';
+    format?      : { name : string, drive? : 'R'|'E'|'B'|'A' };
+    fieldData?   : 'escape' | 'strict' | 'raw';
+    encoding?    : ZplEncoding;
+    settings?    : LabelSettings;
+    print?       : { quantity? : number, replicates? : number, pauseEvery? : number, cutOnError? : boolean };
+    elements     : ZplLabelJSONElement[];
+};
+
+/**
+ * Error thrown when a label described in JSON is invalid, with the errors by path of the invalid value
+ * (e.g. elements[2].options.font.width).
+ */
+export class ZplLabelJSONValidationError extends Error {
+    errors : { [ path : string ] : string[] };
+
+    constructor() {
+        super('Invalid label definition.');
+        this.errors = {};
+    }
+
+    add(path : string, error : string) {
+        if (!this.errors[path]) this.errors[path] = [];
+        this.errors[path].push(error);
+
+        this.message = `Invalid label definition: ${Object.keys(this.errors).map(p => {
+            const errors = this.errors[p];
+            return `\nInvalid ${p ? `"${p}"` : 'value'} (${errors.join(', ')})`;
+        })}`;
+
+        return this;
+    }
+
+    hasErrors() {
+        return !!Object.keys(this.errors).length;
+    }
+}
+
+/**
+ * Type of a value in a JSON definition: a primitive type, a font (name, or name and size), or one of
+ * a list of values.
+ */
+type ValueType = 'number' | 'boolean' | 'string' | 'font' | ReadonlyArray<string|number>;
+type ValueSchema = { [ key : string ] : ValueType };
+
+const Orientations = [ 'normal', 'top-down', 'upside-down', 'bottom-up' ] as const;
+const Colors       = [ 'black', 'white' ] as const;
+
+const LinearBarCodeOptions : ValueSchema = {
+    height             : 'number',
+    moduleWidth        : 'number',
+    ratio              : 'number',
+    orientation        : Orientations,
+    interpretationLine : [ 'none', 'below', 'above' ],
+};
+
+/**
+ * Options of each element, as in the drawing methods of ZplLabel.
+ */
+const ElementOptions : { [ K in ZplLabelJSONElementType ] : ValueSchema } = {
+    text            : { orientation : Orientations, invertColor : 'boolean', font : 'font', align : [ 'left', 'center', 'right' ], width : 'number', fitWidth : 'number', overflow : [ 'shrink', 'ellipsis' ] },
+    textBlock       : { width : 'number', maxLines : 'number', lineSpacing : 'number', justify : [ 'left', 'center', 'right', 'justified' ], hangingIndent : 'number', orientation : Orientations, invertColor : 'boolean', font : 'font' },
+    line            : { width : 'number', height : 'number', color : Colors, invertColor : 'boolean', thickness : 'number' },
+    box             : { width : 'number', height : 'number', filled : 'boolean', color : Colors, invertColor : 'boolean', borderThickness : 'number', borderRadius : 'number' },
+    ellipse         : { width : 'number', height : 'number', filled : 'boolean', color : Colors, invertColor : 'boolean', positioning : [ 'center', 'top-left' ], borderThickness : 'number' },
+    image           : { compression : [ 'hex', 'acs' ], invertColor : 'boolean' },
+    qrcode          : { maxSize : 'number', autoMode : 'boolean', errorCorrectionLevel : [ 'L', 'M', 'Q', 'H' ], maskValue : 'number', model : [ 1, 2 ], symbolNumber : 'number', totalSymbols : 'number', fullData : 'string', graphic : 'boolean' },
+    code128         : { ...LinearBarCodeOptions, mode : [ 'N', 'U', 'A', 'D' ] },
+    code39          : { ...LinearBarCodeOptions, checkDigit : 'boolean' },
+    ean13           : LinearBarCodeOptions,
+    upca            : { ...LinearBarCodeOptions, printCheckDigit : 'boolean' },
+    interleaved2of5 : { ...LinearBarCodeOptions, checkDigit : 'boolean' },
+    dataMatrix      : { maxSize : 'number', orientation : Orientations, quality : [ 0, 50, 80, 100, 140, 200 ], columns : 'number', rows : 'number', aspect : [ 'square', 'rectangular' ] },
+    pdf417          : { maxSize : 'number', rowHeight : 'number', orientation : Orientations, securityLevel : 'number', columns : 'number', rows : 'number', truncate : 'boolean' },
+    aztec           : { maxSize : 'number', orientation : Orientations, errorCorrection : 'number' },
+    maxicode        : { maxSize : 'number', mode : [ 2, 3, 4, 5, 6 ], symbolNumber : 'number', totalSymbols : 'number' },
+    comment         : {},
+};
+
+/**
+ * Options required by each element, the sizes of the drawing call.
+ */
+const RequiredElementOptions : { [ K in ZplLabelJSONElementType ]? : string[] } = {
+    textBlock : [ 'width' ],
+    line      : [ 'width', 'height' ],
+    box       : [ 'width', 'height' ],
+    ellipse   : [ 'width', 'height' ],
+};
+
+const LabelOptions : ValueSchema = {
+    unit        : [ 'in', 'mm', 'cm', 'px', 'dots' ],
+    rounding    : [ 'round', 'floor', 'ceil' ],
+    width       : 'number',
+    height      : 'number',
+    outOfBounds : [ 'throw', 'ignore' ],
+    fieldData   : [ 'escape', 'strict', 'raw' ],
+    encoding    : Object.keys(ZplEncodingCharacterSets),
+};
+const FormatOptions   : ValueSchema = { name : 'string', drive : [ 'R', 'E', 'B', 'A' ] };
+const SettingsOptions : ValueSchema = { shift : 'number', top : 'number', reverse : 'boolean', mirror : 'boolean', invert : 'boolean' };
+const PrintOptions    : ValueSchema = { quantity : 'number', replicates : 'number', pauseEvery : 'number', cutOnError : 'boolean' };
+
+const isObject = (value : any) : boolean => typeof value === 'object' && value !== null && !Array.isArray(value);
+const join = (path : string, key : string | number) => (typeof key === 'number') ? `${path}[${key}]` : (path ? `${path}.${key}` : key);
+
+/**
+ * Validates a value against its type.
+ *
+ * @returns the error, if the value is invalid
+ */
+function validateValue(value : any, type : ValueType) : void | string {
+    if (Array.isArray(type)) {
+        if (!type.includes(value)) return `should be one of ${type.join(', ')}`;
+    }
+    else if (type === 'number') {
+        if (typeof value !== 'number' || !isFinite(value)) return 'should be a number';
+    }
+    else if (type === 'font') {
+        if (typeof value === 'string') return;
+        if (!isObject(value) || typeof value.name !== 'string' || typeof value.width !== 'number' || (value.height !== undefined && typeof value.height !== 'number')) {
+            return 'should be a font name, or an object with a name, width and optional height';
+        }
+    }
+    else if (typeof value !== type) {
+        return `should be a ${type}`;
+    }
+}
+
+/**
+ * Validates the values of an object against a schema, reporting unknown keys.
+ *
+ * @param errors - validation error the errors are added to
+ * @param path - path of the object
+ * @param object - object to validate
+ * @param schema - type of each key
+ * @param ignored - keys validated separately
+ */
+function validateObject(errors : ZplLabelJSONValidationError, path : string, object : any, schema : ValueSchema, ignored : string[] = []) {
+    if (!isObject(object)) {
+        errors.add(path, 'should be an object');
+        return;
+    }
+
+    for (const key of Object.keys(object)) {
+        if (ignored.includes(key) || object[key] === undefined) continue;
+        if (!schema.hasOwnProperty(key)) {
+            errors.add(join(path, key), 'unknown property');
+            continue;
+        }
+
+        const error = validateValue(object[key], schema[key]);
+        if (error) errors.add(join(path, key), error);
+    }
+}
+
+/**
+ * Validates the data of an element: a bitmap for images, a comment, or field data (a string, a
+ * variable field or a serial field).
+ */
+function validateElementData(errors : ZplLabelJSONValidationError, path : string, element : any) {
+    const { type, data } = element;
+    if (type === 'line' || type === 'box' || type === 'ellipse') {
+        if (data !== undefined) errors.add(path, `should not be set for ${type} elements`);
+    }
+    else if (type === 'image') {
+        validateObject(errors, path, data, { width : 'number', height : 'number', data : 'string' });
+        if (isObject(data) && (data.width === undefined || data.height === undefined || data.data === undefined)) {
+            errors.add(path, 'should have a width, height and data');
+        }
+    }
+    else if (type === 'comment' || typeof data === 'string') {
+        if (typeof data !== 'string') errors.add(path, 'should be a string');
+    }
+    else if (isObject(data) && 'serial' in data) {
+        validateObject(errors, path, data, { serial : 'string', padding : 'number', mask : 'string' }, [ 'increment' ]);
+        if (data.increment !== undefined && typeof data.increment !== 'number' && typeof data.increment !== 'string') {
+            errors.add(join(path, 'increment'), 'should be a number or a string');
+        }
+    }
+    else if (isObject(data) && 'field' in data) {
+        validateObject(errors, path, data, { field : 'number', default : 'string' });
+    }
+    else {
+        errors.add(path, 'should be a string, a variable field or a serial field');
+    }
+}
+
+/**
+ * Validates a label described in JSON (see ZplLabel.fromJSON), reporting every invalid value by path.
+ * Values are checked for their type, the label checks their range (e.g. a negative box width or a border
+ * radius over 8) when ZplLabel.fromJSON draws the elements.
+ *
+ * @param json - label described in JSON
+ * @returns the label, typed
+ * @throws a ZplLabelJSONValidationError if the label is invalid
+ */
+export function validateLabelJSON(json : any) : ZplLabelJSON {
+    const errors = new ZplLabelJSONValidationError();
+
+    validateObject(errors, '', json, LabelOptions, [ 'dpi', 'format', 'settings', 'print', 'elements' ]);
+    if (!isObject(json)) throw errors;
+
+    if (json.dpi !== undefined && !DpiPresets.hasOwnProperty(json.dpi) && !(typeof json.dpi === 'number' && json.dpi > 0)) {
+        errors.add('dpi', `should be a positive number or one of ${Object.keys(DpiPresets).join(', ')}`);
+    }
+    if (json.format !== undefined) {
+        validateObject(errors, 'format', json.format, FormatOptions);
+        if (isObject(json.format) && json.format.name === undefined) errors.add('format.name', 'is required');
+    }
+    if (json.settings !== undefined) {
+        validateObject(errors, 'settings', json.settings, SettingsOptions, [ 'home' ]);
+        if (json.settings?.home !== undefined) validateObject(errors, 'settings.home', json.settings.home, { x : 'number', y : 'number' });
+    }
+    if (json.print !== undefined) validateObject(errors, 'print', json.print, PrintOptions);
+
+    if (!Array.isArray(json.elements)) {
+        errors.add('elements', 'should be an array');
+        throw errors;
+    }
+
+    json.elements.forEach((element : any, index : number) => {
+        const path = join('elements', index);
+        if (!isObject(element)) {
+            errors.add(path, 'should be an object');
+            return;
+        }
+        if (!ElementOptions.hasOwnProperty(element.type)) {
+            errors.add(join(path, 'type'), `should be one of ${Object.keys(ElementOptions).join(', ')}`);
+            return;
+        }
+
+        validateObject(errors, path, element, { type : 'string', x : 'number', y : 'number' }, [ 'data', 'options' ]);
+        if (element.type !== 'comment' && (element.x === undefined || element.y === undefined)) errors.add(path, 'should have a x and y');
+
+        validateElementData(errors, join(path, 'data'), element);
+
+        const options = element.options ?? {};
+        validateObject(errors, join(path, 'options'), options, ElementOptions[element.type as ZplLabelJSONElementType]);
+        for (const key of RequiredElementOptions[element.type as ZplLabelJSONElementType] ?? []) {
+            if (isObject(options) && options[key] === undefined) errors.add(join(join(path, 'options'), key), 'is required');
+        }
+    });
+
+    if (errors.hasErrors()) throw errors;
+    return json;
+}
+
+/**
+ * Converts a bitmap into its JSON representation, ASCII hex rows of whole bytes.
+ *
+ * @param bitmap - bitmap of an image element
+ * @returns the bitmap described in JSON
+ */
+export function bitmapToJSON(bitmap : MonochromeBitmap) : ZplLabelJSONBitmap {
+    const bytesPerRow = Math.ceil(bitmap.width / 8);
+    const packed = createMonochromeBitmap(bitmap.width, bitmap.height);
+    for (let row = 0; row < bitmap.height; row++) {
+        packed.data.set(bitmap.data.subarray(row * bitmap.bytesPerRow, row * bitmap.bytesPerRow + bytesPerRow), row * bytesPerRow);
+    }
+    return { width : bitmap.width, height : bitmap.height, data : bitmapToHexString(packed) };
+}
+
+/**
+ * Converts the JSON representation of a bitmap into a bitmap, the reverse of bitmapToJSON.
+ *
+ * @param json - bitmap described in JSON
+ * @returns the bitmap of the image element
+ */
+export function bitmapFromJSON(json : ZplLabelJSONBitmap) : MonochromeBitmap {
+    const bytesPerRow = Math.ceil(json.width / 8);
+    return { ...hexStringToBitmap(json.data, bytesPerRow * json.height, bytesPerRow), width : json.width };
+}
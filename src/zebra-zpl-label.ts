@@ -1,22 +1,72 @@
-import { QRErrorCorrectionLevel, QRDataInputMode, QRCodeSizesByVersion, getQRCodeVersion, getQRCodeDataInputMode } from './utils/utils-qr-code';
-import { CSSPixelsToDots, inchesToDots } from './utils/utils-units';
+import { QRErrorCorrectionLevel, QRModel, QRCodeSegment, QRCodeSizesByVersion, encodeQRCode, encodeQRCodeBytes, getQRCodeParity, getQRCodeVersionAndSegments, getQRKanjiCode } from './utils/utils-qr-code';
+import { DotRounding, DpiPreset, Unit, inchesToDots, resolveDpi, unitsToDots } from './utils/utils-units';
+import { MonochromeBitmap, bitmapToHexString, bitmapToCompressedHexString, matrixToBitmap } from './utils/utils-graphics';
+import { escapeFieldDataHex, isUnsafeFieldData } from './utils/utils-encodings';
+import { ZplEncoding, ZplEncodingCharacterSets, encodeString } from './utils/utils-code-pages';
+import {
+    LinearBarCodeSymbology,
+    normalizeLinearBarCodeData,
+    encodeLinearBarCode,
+    getDataMatrixSymbolSize,
+    getPDF417Codewords,
+    getPDF417SymbolSize,
+    getPDF417ModuleWidth,
+    getAztecSymbolSize,
+    MaxiCodeSize,
+} from './utils/utils-barcodes';
+import { RenderOptions, BitmapFontCells, DefaultFont, getFontHeight, getRenderFields, getRenderFieldBounds, getTextWidth, renderZplToPng, renderZplToSvg } from './render';
+import { FragmentRotation, LayoutPadding, ZplLayoutBox, getFragmentSize, transformFragmentCommands } from './layout';
+import { ZplFontDescription, isZplFontDescription } from './zebra-zpl-font';
+import { ZplLabelJSON, ZplLabelJSONBitmap, ZplLabelJSONElement, ZplLabelJSONValidationError, bitmapFromJSON, bitmapToJSON, validateLabelJSON } from './zebra-zpl-label-json';
 
 import { ZplCommandSet } from './commands/command-set';
+import { ZplCommandTemplate } from './commands/command-template';
 import {
     ZplStartFormat,
     ZplEndFormat,
+    ZplDownloadFormat,
+    ZplRecallFormat,
+    ZplLabelLength,
+    ZplPrintWidth,
+    ZplPrintQuantity,
+    ZplChangeInternationalFont,
+    ZplFontIdentifier,
+
+    // Label Settings
+    ZplLabelHome,
+    ZplLabelShift,
+    ZplLabelTop,
+    ZplLabelReversePrint,
+    ZplPrintingMirrorImageOfLabel,
+    ZplPrintOrientation,
     
     // Generic Fields
+    ZplFieldBlock,
     ZplFieldOrientation,
     ZplFieldOrigin,
     ZplFieldData,
+    ZplFieldHexadecimalIndicator,
+    ZplFieldNumber,
     ZplFieldSeparator,
+    ZplSerializationData,
+    ZplSerializationField,
 
     // Barcodes
+    ZplAztecBarCode,
+    ZplBarCodeFieldDefault,
+    ZplCode128BarCode,
+    ZplCode39BarCode,
+    ZplDataMatrixBarCode,
+    ZplEAN13BarCode,
+    ZplInterleaved2of5BarCode,
+    ZplMaxiCodeBarCode,
+    ZplPDF417BarCode,
     ZplQRCodeBarCode,
+    ZplUPCABarCode,
     
     // Fonts and Text
     ZplScalableFont,
+    ZplUseFontNameToCallFont,
     ZplComment,
 
     // Graphics
@@ -24,6 +74,7 @@ import {
     ZplGraphicDiagonalLine,
     ZplGraphicCircle,
     ZplGraphicEllipse,
+    ZplGraphicField,
     ZplFieldReversePrint,
 } from './commands';
 
@@ -38,374 +89,2331 @@ const ColorFromHumanReadable = {
     'white' : 'W',    
 } as const;
 
-type orientation = keyof typeof OrientationFromHumanReadable;
-type color       = keyof typeof ColorFromHumanReadable;
+const JustificationFromHumanReadable = {
+    'left'      : 'L',
+    'center'    : 'C',
+    'right'     : 'R',
+    'justified' : 'J',
+} as const;
+const InterpretationLineFromHumanReadable = {
+    'none'  : { f : false, g : false },
+    'below' : { f : true,  g : false },
+    'above' : { f : true,  g : true  },
+} as const;
+
+/**
+ * Printer defaults of bar code fields (^BY), used to estimate the size of symbols that do not set them.
+ */
+const BarCodeFieldDefaults = { moduleWidth : 2, ratio : 3, height : 10 } as const;
+
+const AlignmentFromHumanReadable = {
+    'left'   : 'L',
+    'center' : 'C',
+    'right'  : 'R',
+} as const;
+
+type orientation        = keyof typeof OrientationFromHumanReadable;
+type color              = keyof typeof ColorFromHumanReadable;
+type interpretationLine = keyof typeof InterpretationLineFromHumanReadable;
+type justification      = keyof typeof JustificationFromHumanReadable;
+type alignment          = keyof typeof AlignmentFromHumanReadable;
+type font = string | ZplFontDescription | {
+    name: string | ZplFontDescription;
+    width: number;
+    height?: number;
+};
+
+/**
+ * Placeholder for a numbered variable field (^FN) of a stored format, filled in with data when the
+ * format is recalled. The default, if any, is printed when a recall does not provide data for the field.
+ * A field number can be used by several fields (e.g. as text and as a barcode), which all print its data.
+ */
+export type ZplFormatField = {
+    field    : number;
+    default? : string;
+};
+
+/**
+ * Serial field, incremented by the printer for each label printed (see ZplLabel.print). Without a
+ * mask the serial is numeric (^SN), a mask (^SF) increments alphanumeric serials character by character:
+ * D decimal, H hexadecimal, O octal, A alphabetic, N alphanumeric, % not incremented.
+ */
+export type ZplSerialField = {
+    serial     : string;
+    increment? : number | string;
+    padding?   : number;
+    mask?      : string;
+};
+type fieldData = string | ZplFormatField | ZplSerialField;
+
+export type ZplLabelElementType = 'text'|'textBlock'|'line'|'box'|'ellipse'|'image'|'qrcode'|LinearBarCodeSymbology|'dataMatrix'|'pdf417'|'aztec'|'maxicode'|'fragment'|'comment';
+
+/**
+ * Reusable component of a label, drawing its elements from data on a label mounted into another one
+ * (see ZplLabel.mount). Positions are relative to the top-left corner of the fragment.
+ */
+export type ZplFragment<T = any> = (label : ZplLabel, data : T) => void;
+
+/**
+ * Options of an element, as passed to its drawing method. The sizes of the drawing call are options too
+ * (width and height of lines, boxes and ellipses, width of text blocks), as is the mounted fragment.
+ */
+export type ZplLabelElementOptions = {
+    // Text and text blocks
+    readonly font?          : font;
+    readonly align?         : alignment;
+    readonly fitWidth?      : number;
+    readonly overflow?      : 'shrink'|'ellipsis';
+    readonly maxLines?      : number;
+    readonly lineSpacing?   : number;
+    readonly justify?       : justification;
+    readonly hangingIndent? : number;
+
+    // Shapes and images
+    readonly width?           : number;
+    readonly height?          : number;
+    readonly color?           : color;
+    readonly filled?          : boolean;
+    readonly thickness?       : number;
+    readonly borderThickness? : number;
+    readonly borderRadius?    : number;
+    readonly positioning?     : 'center'|'top-left';
+    readonly compression?     : 'hex'|'acs';
+
+    // Bar codes and 2D symbols
+    readonly moduleWidth?          : number;
+    readonly ratio?                : number;
+    readonly interpretationLine?   : interpretationLine;
+    readonly mode?                 : 'N'|'U'|'A'|'D' | 2|3|4|5|6;
+    readonly checkDigit?           : boolean;
+    readonly printCheckDigit?      : boolean;
+    readonly maxSize?              : number;
+    readonly autoMode?             : boolean;
+    readonly errorCorrectionLevel? : QRErrorCorrectionLevel;
+    readonly maskValue?            : number;
+    readonly model?                : QRModel;
+    readonly symbolNumber?         : number;
+    readonly totalSymbols?         : number;
+    readonly fullData?             : string;
+    readonly graphic?              : boolean;
+    readonly quality?              : 0|50|80|100|140|200;
+    readonly columns?              : number;
+    readonly rows?                 : number;
+    readonly aspect?               : 'square'|'rectangular';
+    readonly rowHeight?            : number;
+    readonly securityLevel?        : number;
+    readonly truncate?             : boolean;
+    readonly errorCorrection?      : number;
+
+    // Mounted fragments
+    readonly fragment? : ZplLabel | ZplFragment;
+    readonly rotation? : FragmentRotation;
+    readonly data?     : any;
+
+    // Common options
+    readonly orientation? : orientation;
+    readonly invertColor? : boolean;
+};
+
+/**
+ * Element of a label, returned by the drawing methods and listed in ZplLabel.elements. The position is
+ * the one of the drawing call (e.g. the center of a centered ellipse, the start of a line), in the units
+ * of the label. The bounds are measured on a preview of the element, or estimated from the encoded data for
+ * symbols that are not previewed (e.g. Data Matrix, PDF417).
+ */
+export interface ZplLabelElement {
+    readonly type    : ZplLabelElementType;
+    readonly x       : number;
+    readonly y       : number;
+    readonly data    : void | fieldData | MonochromeBitmap | Uint8Array;
+    readonly options : ZplLabelElementOptions;
+    readonly bounds  : ZplLayoutBox;
+}
+
+/**
+ * Element of a label, with the function drawing its commands at a position.
+ */
+class LabelElement implements ZplLabelElement {
+    readonly type    : ZplLabelElementType;
+    readonly data    : void | fieldData | MonochromeBitmap | Uint8Array;
+    readonly options : ZplLabelElementOptions;
+    readonly draw    : (x : number, y : number) => void;
+    x : number;
+    y : number;
+
+    private _measure : () => ZplLayoutBox;
+    private _bounds  : void | ZplLayoutBox;
+
+    constructor(type : ZplLabelElementType, x : number, y : number, data : ZplLabelElement['data'], options : ZplLabelElement['options'], draw : (x : number, y : number) => void, measure : (element : LabelElement) => ZplLayoutBox) {
+        this.type    = type;
+        this.x       = x;
+        this.y       = y;
+        this.data    = data;
+        this.options = options;
+        this.draw    = draw;
+        this._measure = () => measure(this);
+    }
+
+    get bounds() : ZplLayoutBox {
+        return this._bounds || (this._bounds = this._measure());
+    }
+
+    /**
+     * Moves this element, its bounds are measured again when needed.
+     */
+    moveTo(x : number, y : number) {
+        this.x = x;
+        this.y = y;
+        this._bounds = undefined;
+    }
+}
+
+/**
+ * Sample data used to estimate the size of a field, which is the default for variable fields and the
+ * starting value for serial fields.
+ */
+function sampleFieldData(data : fieldData) : string {
+    if (typeof data === 'string') return data;
+    return 'serial' in data ? data.serial : (data.default ?? '');
+}
+
+/**
+ * Writes the bytes of a double byte code as hex escapes for ^FH (e.g. 0x93FA becomes _93_FA).
+ *
+ * @param code - double byte code (e.g. Shift JIS)
+ * @returns the escaped bytes
+ */
+function toHexEscapes(code : number) : string {
+    return [ code >> 8, code & 0xFF ].map(byte => `_${`0${byte.toString(16).toUpperCase()}`.slice(-2)}`).join('');
+}
+
+/**
+ * Reads the location of a font stored on the printer (e.g. E:BRAND.TTF), called by name (^A@).
+ *
+ * @param name - drive, name and extension of the font
+ * @returns the parameters of the font command, if the name is a location
+ */
+function parseFontLocation(name : string) : void | { d : 'R'|'E'|'B'|'A', f : string, x : 'FNT'|'TTF'|'TTE' } {
+    const match = /^([REBA]):([A-Z0-9]{1,8})\.(FNT|TTF|TTE)$/i.exec(name);
+    if (!match) return;
+
+    return { d : match[1].toUpperCase() as 'R'|'E'|'B'|'A', f : match[2].toUpperCase(), x : match[3].toUpperCase() as 'FNT'|'TTF'|'TTE' };
+}
+
+/**
+ * Bitmap of packed bitmap data, rows being whole bytes.
+ *
+ * @param data - packed bitmap data
+ * @param width - width of the bitmap (in dots)
+ * @param height - height of the bitmap (in dots), calculated from the data length when not set
+ * @returns the bitmap
+ * @throws a TypeError if the data is shorter than the bitmap
+ */
+function packedDataToBitmap(data : Uint8Array, width : number, height? : number) : MonochromeBitmap {
+    const bytesPerRow = Math.ceil(width / 8);
+    height = height ?? Math.floor(data.length / bytesPerRow);
+    if (data.length < bytesPerRow * height) throw new TypeError(`bitmap should have at least ${bytesPerRow * height} bytes, got ${data.length}`);
+
+    return { width, height, bytesPerRow, data : data.subarray(0, bytesPerRow * height) };
+}
+
+/**
+ * Label-wide settings, usually printer calibration, emitted at the start of the format. Offsets are
+ * in the units of the label.
+ *
+ * home    - origin of all fields (^LH)
+ * shift   - shifts the label to the left (^LS), negative values shift to the right
+ * top     - moves the label up (^LT), negative values move it down
+ * reverse - prints all fields in reverse (^LR)
+ * mirror  - prints the mirror image of the label (^PM)
+ * invert  - prints the label upside down (^PO)
+ */
+export type LabelSettings = {
+    home?    : { x : number, y : number };
+    shift?   : number;
+    top?     : number;
+    reverse? : boolean;
+    mirror?  : boolean;
+    invert?  : boolean;
+};
+
+type LinearBarCodeParams = {
+    o? : 'N'|'R'|'I'|'B';
+    h? : number;
+    f? : boolean;
+    g? : boolean;
+};
+type LinearBarCodeOptions = {
+    height?             : number;
+    moduleWidth?        : number;
+    ratio?              : number;
+    orientation?        : orientation;
+    interpretationLine? : interpretationLine;
+};
 
 export class ZplLabel
 {
     private _commandSet     : ZplCommandSet;
     private lastOrientation : void | string;
 
-    private unit : void | string;
-    private dpi  : void | number;
+    private unit     : void | Unit;
+    private dpi      : void | number;
+    private rounding : DotRounding;
+
+    private width        : void | number;
+    private height       : void | number;
+    private widthInDots  : void | number;
+    private heightInDots : void | number;
+    private outOfBounds  : 'throw' | 'ignore' | ((message : string) => void);
+    private fieldData    : 'escape' | 'strict' | 'raw';
+    private encoding?    : ZplEncoding;
+
+    private _format       : void | { drive : 'R'|'E'|'B'|'A', name : string };
+    private _formatFields : Map<number, ((data : string) => string)[]>;
+
+    private _printQuantity : void | { q : number, p? : number, r? : number, o? : boolean, e? : boolean };
+
+    private _settings     : LabelSettings;
+    private _headerLength : number;
+
+    private _fontIdentifiers : Map<string, ZplFontDescription>;
+
+    private _elements        : LabelElement[];
+    private _elementsChanged : boolean;
+    private _replaying       : boolean;
+    private _extents         : [number, number, number, number][] | undefined;
     
     /**
      * Object representation for a ZPL label for drawing labels in ZPL.
      * 
-     * @param options.unit - unit used when specifying sizes (dots, inches, CSS pixels, defaults to dots)
-     * @param options.dpi  - dots per inch, used to calculate internal dots measurements when options.unit is not set to dots
+     * @param options.unit        - unit used when specifying sizes (dots, inches, millimeters, centimeters, CSS pixels, defaults to dots)
+     * @param options.dpi         - dots per inch or a preset (6dpmm, 8dpmm, 12dpmm, 24dpmm), used to calculate internal dots
+     *                              measurements when options.unit is not set to dots
+     * @param options.rounding    - how sizes are rounded to whole dots (round, floor or ceil, defaults to round)
+     * @param options.width       - width of the label, sets the print width (^PW)
+     * @param options.height      - height of the label, sets the label length (^LL)
+     * @param options.outOfBounds - whether to throw or ignore it (defaults to ignore) when an element is drawn outside of the
+     *                              label, or a function called with the description of the element
+     * @param options.format      - stores the label on the printer as a format (^DF) instead of printing it, see getRecallCommandString
+     * @param options.fieldData   - how field data containing ^, ~ or control characters is handled: escaped with ^FH (default),
+     *                              rejected (strict), or kept as is (raw), for data that intentionally embeds commands
+     * @param options.encoding    - character encoding of field data (utf-8, cp850 or cp1252), sets the character set (^CI)
+     *                              and encodes field data in getCommandBuffer, defaults to one byte per character
+     * @param options.settings    - label-wide settings (label home, shift, top, reverse, mirror and invert), see settings
      */
     constructor(options? : {
-        unit?   : 'in'|'px'|'dots';
-        dpi?    : number;
-        width?  : number;
-        height? : number;
+        unit?        : Unit;
+        dpi?         : number | DpiPreset;
+        rounding?    : DotRounding;
+        width?       : number;
+        height?      : number;
+        outOfBounds? : 'throw' | 'ignore' | ((message : string) => void);
+        format?      : { name : string, drive? : 'R'|'E'|'B'|'A' };
+        fieldData?   : 'escape' | 'strict' | 'raw';
+        encoding?    : ZplEncoding;
+        settings?    : LabelSettings;
     }) {
         this._commandSet = new ZplCommandSet();
         this._commandSet.runCommand(ZplStartFormat);
 
-        const { unit, dpi } = options || {};
+        const { unit, dpi, rounding, width, height, outOfBounds, format, fieldData, encoding, settings } = options || {};
         if (unit && unit !== 'dots' && !dpi) throw new TypeError(`options.dpi is required to calculate unit ${unit}`);
+        if (rounding && ![ 'round', 'floor', 'ceil' ].includes(rounding)) throw new TypeError(`Invalid rounding "${rounding}", should be round, floor or ceil`);
+        if (encoding && !ZplEncodingCharacterSets.hasOwnProperty(encoding)) throw new TypeError(`Unsupported encoding "${encoding}", should be utf-8, cp850 or cp1252`);
 
         this.unit = unit;
-        this.dpi  = dpi;
+        this.dpi  = (dpi !== undefined) ? resolveDpi(dpi) : undefined;
+        this.rounding    = rounding || 'round';
+        this.outOfBounds = outOfBounds || 'ignore';
+        this.fieldData   = fieldData || 'escape';
+        this.encoding    = encoding;
+        if (encoding) this._commandSet.runCommand(ZplChangeInternationalFont, { a : ZplEncodingCharacterSets[encoding] });
+
+        this._formatFields    = new Map();
+        this._fontIdentifiers = new Map();
+        if (format) {
+            if (/[^A-Z0-9]/i.test(format.name)) throw new TypeError('options.format.name should be alphanumeric');
+            if (format.name.length > 8)         throw new TypeError('options.format.name should be 8 characters or less');
+
+            this._format = { drive : format.drive || 'R', name : format.name.toUpperCase() };
+            this._commandSet
+                .runCommand(ZplDownloadFormat, { d : this._format.drive, o : this._format.name, x : 'ZPL' })
+                .runCommand(ZplFieldSeparator);
+        }
+
+        this.width  = width;
+        this.height = height;
+        if (width !== undefined) {
+            this.widthInDots = this._toDots(width);
+            this._commandSet.runCommand(ZplPrintWidth, { a : this.widthInDots });
+        }
+        if (height !== undefined) {
+            this.heightInDots = this._toDots(height);
+            this._commandSet.runCommand(ZplLabelLength, { y : this.heightInDots });
+        }
+
+        this._headerLength = this._commandSet.getCommands().length;
+        this._elements        = [];
+        this._elementsChanged = false;
+        this._replaying       = false;
+        this._extents         = undefined;
+        this._settings = {};
+        if (settings) this.settings(settings);
     }
 
     /**
-     * Private helper to convert from the specific units to dots
+     * Private helper to convert from the specific units to dots, without rounding (e.g. for maximum sizes)
      * 
      * @param x - a number
      * @returns - number in dots
      */
-    private _toDots(x : number) : number {
-        const dpi : number = this.dpi || 300;
-
-        switch (this.unit) {
-            case 'in':
-                return inchesToDots(x, dpi);
-
-            case 'px':
-                return CSSPixelsToDots(x, dpi);
-            
-            case 'dots':
-            default:
-                return x;
-        }
+    private _toExactDots(x : number) : number {
+        return unitsToDots(x, this.unit || 'dots', this.dpi || 300);
     }
 
     /**
-     * Adds a comment to this label.
+     * Private helper to convert from the specific units to whole dots, rounded with options.rounding
      * 
-     * @param comment - comment string
-     * @returns this ZPLLabel object, for chaining
+     * @param x - a number
+     * @returns - integer number in dots
      */
-    comment(comment : string) {
-        this._commandSet.runCommand(ZplComment, { c: comment });
-        return this;
+    private _toDots(x : number) : number {
+        return Math[this.rounding](this._toExactDots(x));
     }
 
     /**
-     * Adds a text segment to this label.
+     * Private helper to convert a line or border thickness from the specific units to whole dots, at
+     * least one dot thick.
      * 
-     * @param x - x-axis location (distance from left)
-     * @param y - y-axis location (distance from top)
-     * @param text - text segment
-     * @param options.orientation - which way to orient the text
-     * @param options.invertColor - chooses opposite color of background
-     * @param options.font        - name of a font or an object representing a font
+     * @param name - name of the option, for the error message
+     * @param thickness - a thickness, defaults to one dot
+     * @returns - integer number in dots
+     * @throws a RangeError if the thickness is not positive
+     */
+    private _toThicknessDots(name : string, thickness? : number) : number {
+        if (thickness !== undefined && !(thickness > 0)) throw new RangeError(`options.${name} should be positive, got ${thickness}`);
+        return thickness ? Math.max(1, this._toDots(thickness)) : 1;
+    }
+
+    /**
+     * Private helper to check that the size of a shape is not negative.
      * 
+     * @param shape - name of the shape, for the error message
+     * @param width - width of the shape
+     * @param height - height of the shape
+     * @throws a RangeError if the width or height is negative
+     */
+    private _checkShapeSize(shape : string, width : number, height : number) {
+        if (!(width >= 0) || !(height >= 0)) throw new RangeError(`${shape} width and height should not be negative, got ${width}x${height}`);
+    }
+
+    /**
+     * Updates the label-wide settings, emitted at the start of the format whenever they are set. Settings
+     * not provided keep their previous value, and an undefined value removes a setting.
+     *
+     * @param settings.home    - origin of all fields, in the units of the label (^LH)
+     * @param settings.shift   - shift to the left, in the units of the label (^LS)
+     * @param settings.top     - shift up, in the units of the label (^LT)
+     * @param settings.reverse - prints all fields in reverse (^LR)
+     * @param settings.mirror  - prints the mirror image of the label (^PM)
+     * @param settings.invert  - prints the label upside down (^PO)
      * @returns this ZPLLabel object, for chaining
+     * @throws a RangeError if an offset is out of the range supported by the printer
      */
-    text(x : number, y : number, text : string, options : {
-        orientation? : orientation;
-        invertColor? : boolean;
-        font? : string | {
-            name: string;
-            width: number;
-            height?: number;
-        };
-    } = {}) {
-        const orientation = options.orientation ? OrientationFromHumanReadable[options.orientation] : 'N';
-        const font = options.font;
-        const invertColor = options.invertColor;
+    settings(settings : LabelSettings) {
+        const { home, shift, top } = { ...this._settings, ...settings };
+        const offsets = [
+            [ 'home.x', home?.x, 0,     32000 ],
+            [ 'home.y', home?.y, 0,     32000 ],
+            [ 'shift',  shift,   -9999, 9999  ],
+            [ 'top',    top,     -120,  120   ],
+        ] as const;
+        for (const [ name, value, min, max ] of offsets) {
+            if (value === undefined) continue;
 
-        this._commandSet.runCommand(ZplFieldOrigin, {
-            x : this._toDots(x),
-            y : this._toDots(y),
-            z : 0 // align from left for ease
-        });
-        if (invertColor) this._commandSet.runCommand(ZplFieldReversePrint);
-        if (font) {
-            if (typeof font === 'string') {
-                this._commandSet.runCommand(ZplScalableFont, { f : font, o : orientation });
-            }
-            else {
-                this._commandSet.runCommand(ZplScalableFont, {
-                    f : font.name,
-                    o : orientation,
-                    w : this._toDots(font.width),
-                    h : this._toDots(font.height ?? font.width)
-                });
-            }
-        }
-        else if (this.lastOrientation !== orientation) {
-            this._commandSet.runCommand(ZplFieldOrientation, { r : orientation, z: 0 });
-            this.lastOrientation = orientation;
+            const dots = this._toDots(value);
+            if (!(dots >= min && dots <= max)) throw new RangeError(`settings.${name} should be between ${min} and ${max} dots, got ${dots}`);
         }
 
-        this._commandSet
-            .runCommand(ZplFieldData, { a: text })
-            .runCommand(ZplFieldSeparator)
-
+        this._settings = { ...this._settings, ...settings };
         return this;
     }
 
     /**
-     * Adds a line to this label. Does the logic to determine whether the line is
-     * vertical, diagonal, or horizontal
-     * 
-     * @param x1 - starting x-axis location (distance from left)
-     * @param y1 - starting y-axis location (distance from top)
-     * @param x2 - starting x-axis location (distance from left)
-     * @param y2 - starting y-axis location (distance from top)
-     * @param options.color       - color of the line
-     * @param options.invertColor - chooses opposite color of background
-     * @param options.thickness   - thickness of the line
-     * 
-     * @returns this ZPLLabel object, for chaining
+     * Private helper to add the label-wide settings to a command set.
+     *
+     * @param commandSet - command set of the label
      */
-    line(x1 : number, y1 : number, x2 : number, y2 : number, options : {
-        color?       : color;
-        invertColor? : boolean;
-        thickness?   : number;
-    } = {}) {
-        const color       = options.color ? ColorFromHumanReadable[options.color] : 'B';
-        const invertColor = options.invertColor;
-        const thickness   = options.thickness || 1;
+    private _runSettings(commandSet : ZplCommandSet) {
+        const { home, shift, top, reverse, mirror, invert } = this._settings;
 
-        this._commandSet.runCommand(ZplFieldOrigin, {
-            x : this._toDots(Math.min(x1, x2)),
-            y : this._toDots(Math.min(y1, y2)),
-            z : 0 // align from left for ease
+        if (home    !== undefined) commandSet.runCommand(ZplLabelHome, { x : this._toDots(home.x), y : this._toDots(home.y) });
+        if (shift   !== undefined) commandSet.runCommand(ZplLabelShift, { a : this._toDots(shift) });
+        if (top     !== undefined) commandSet.runCommand(ZplLabelTop, { x : this._toDots(top) });
+        if (reverse !== undefined) commandSet.runCommand(ZplLabelReversePrint, { a : reverse });
+        if (mirror  !== undefined) commandSet.runCommand(ZplPrintingMirrorImageOfLabel, { a : mirror });
+        if (invert  !== undefined) commandSet.runCommand(ZplPrintOrientation, { a : invert });
+    }
+
+    /**
+     * Private helper to add the identifiers of the downloaded fonts used by this label to a command set.
+     *
+     * @param commandSet - command set of the label
+     */
+    private _runFontIdentifiers(commandSet : ZplCommandSet) {
+        this._fontIdentifiers.forEach((font, identifier) => {
+            commandSet.runCommand(ZplFontIdentifier, { a : identifier, d : font.drive, o : font.name, x : font.extension });
         });
-        if (invertColor) this._commandSet.runCommand(ZplFieldReversePrint);
+    }
 
-        if (x1 === x2 || y1 === y2) { // vertical or horizontal lines
-            this._commandSet.runCommand(ZplGraphicBox, {
-                w : this._toDots(x2 - x1),
-                h : this._toDots(y2 - y1),
-                t : thickness, 
-                c : color,
-                r : 0,
-            });
-        }
-        else { // diagonal lines
-            const width  : number = x2 - x1;
-            const height : number = y2 - y1;
-            
-            const orientation = (width < 0 && height < 0 || width > 0 && height > 0) ? 'L' : 'R';
+    /**
+     * Computes the box of the whole label, to lay out elements in rows, columns or grids (see ZplLayoutBox).
+     * The box is in the units of the label, so a layout adapts when the label is built for another stock size.
+     * 
+     * @param padding - margin to leave around the edges of the label
+     * @returns the box of the label, within the padding
+     * @throws a TypeError if the width or height of the label is not set
+     */
+    bounds(padding : LayoutPadding = 0) : ZplLayoutBox {
+        if (typeof this.width !== 'number' || typeof this.height !== 'number') throw new TypeError('options.width and options.height are required to lay out the label');
 
-            this._commandSet.runCommand(ZplGraphicDiagonalLine, {
-                w : this._toDots(Math.abs(width)),
-                h : this._toDots(Math.abs(height)),
-                t : thickness,
-                c : color,
-                o : orientation
-            });
-        }
-        this._commandSet.runCommand(ZplFieldSeparator);
-        return this;
+        return new ZplLayoutBox(0, 0, this.width, this.height).pad(padding);
     }
 
     /**
-     * Adds a box to this label.
-     * 
-     * @param x - x-axis location (distance from left)
-     * @param y - y-axis location (distance from top)
-     * @param width - width of the box
-     * @param height - height of the box
-     * @param options.filled          - fills the box with a solid color
-     * @param options.color           - box or border color
-     * @param options.invertColor     - chooses opposite color of background
-     * @param options.borderThickness - thickness of the border
-     * @param options.borderRadius    - rounds the corners
+     * Private helper to check that an element (in dots) lies within the label, when the label
+     * width and/or height are known.
      * 
-     * @returns this ZPLLabel object, for chaining
+     * @param element - name of the element, for the error message
+     * @param left - left-most extent of the element (in dots)
+     * @param top - top-most extent of the element (in dots)
+     * @param right - right-most extent of the element (in dots)
+     * @param bottom - bottom-most extent of the element (in dots)
+     * @throws a RangeError if the element is out of bounds and options.outOfBounds is set to throw
      */
-    box(x : number, y : number, width : number, height : number, options : {
-        filled?          : boolean;
-        color?           : color;
-        invertColor?     : boolean;
-        borderThickness? : number;
-        borderRadius?    : number;
-    } = {}) {
-        const invertColor     = options.invertColor;
-        const borderThickness = options.filled ? this._toDots(Math.min(width, height)) : (options.borderThickness || 1);
-        const borderRadius    = options.borderRadius || 0;
-        const borderColor     = options.color ? ColorFromHumanReadable[options.color] : 'B';
-        
-        this._commandSet.runCommand(ZplFieldOrigin, {
-            x : this._toDots(x),
-            y : this._toDots(y),
-            z : 0, // align from left for ease
-        });
-        if (invertColor) this._commandSet.runCommand(ZplFieldReversePrint);
-        this._commandSet
-            .runCommand(ZplGraphicBox, {
-                w : this._toDots(width),
-                h : this._toDots(height),
-                t : borderThickness,
-                c : borderColor,
-                r : borderRadius,
-            })
-            .runCommand(ZplFieldSeparator);
-        return this;
+    private _checkBounds(element : string, left : number, top : number, right : number = left, bottom : number = top) {
+        // Estimated extents are kept while measuring, for elements that are not previewed
+        this._extents?.push([left, top, right, bottom]);
+        if (this._replaying) return;
+
+        const width  = this.widthInDots;
+        const height = this.heightInDots;
+
+        const outOfBounds = left < 0 || top < 0
+            || (width  !== undefined && right  > width)
+            || (height !== undefined && bottom > height);
+        if (!outOfBounds) return;
+
+        const message = `${element} from (${left}, ${top}) to (${right}, ${bottom}) is outside of the label (${width ?? '?'}x${height ?? '?'} dots)`;
+        if (this.outOfBounds === 'throw') throw new RangeError(message);
+        if (typeof this.outOfBounds === 'function') this.outOfBounds(message);
     }
 
     /**
-     * Adds a ellipse to this label.
-     * 
-     * @param x - x-axis location (center or distance from left, depending on options.positioning)
-     * @param y - y-axis location (center or distance from top, depending on options.positioning)
-     * @param width - width of the ellipse
-     * @param height - height of the ellipse
-     * @param options.filled          - fills the ellipse with a solid color
-     * @param options.color           - ellipse or border color
-     * @param options.invertColor     - chooses opposite color of background
-     * @param options.positioning     - how to position the ellipse
-     * @param options.borderThickness - thickness of the border
+     * Private helper to draw an element in a separate command set, with the state of a new label (e.g.
+     * default field orientation, variable fields), to validate or measure it without changing the label.
      * 
-     * @returns this ZPLLabel object, for chaining
+     * @param element - element to draw
+     * @param x - x-axis location of the element
+     * @param y - y-axis location of the element
+     * @param checkBounds - whether to check that the element lies within the label
+     * @returns the commands of the element
      */
-    ellipse(x : number, y : number, width : number, height : number, options : {
-        filled?          : boolean;
-        color?           : color;
-        invertColor?     : boolean;
-        positioning?     : 'center'|'top-left',
-        borderThickness? : number,
-    } = {}) {
-        const invertColor     = options.invertColor;
-        const borderThickness = options.filled ? this._toDots(Math.min(width, height)) : (options.borderThickness || 1);
-        const borderColor     = options.color ? ColorFromHumanReadable[options.color] : 'B';
+    private _drawSeparately(element : LabelElement, x : number, y : number, checkBounds : boolean) : ZplCommandSet {
+        const { _commandSet, lastOrientation, _formatFields, _fontIdentifiers, _replaying } = this;
+        const commandSet = new ZplCommandSet();
 
-        const centerAlign = (options.positioning !== 'top-left');
-        const left = x + (centerAlign ? -(width  / 2) : 0);
-        const top  = y + (centerAlign ? -(height / 2) : 0);
+        this._commandSet      = commandSet;
+        this.lastOrientation  = undefined;
+        this._formatFields    = new Map();
+        this._fontIdentifiers = new Map();
+        this._replaying       = !checkBounds;
+        try {
+            element.draw(x, y);
+        }
+        finally {
+            Object.assign(this, { _commandSet, lastOrientation, _formatFields, _fontIdentifiers, _replaying });
+        }
+        return commandSet;
+    }
 
-        this._commandSet.runCommand(ZplFieldOrigin, {
-            x : this._toDots(left),
-            y : this._toDots(top),
-            z : 0 // align from left for ease
-        });
-        if (invertColor) this._commandSet.runCommand(ZplFieldReversePrint);
-        if (width === height) {
-            this._commandSet.runCommand(ZplGraphicCircle, {
-                d : this._toDots(width), 
-                t : borderThickness, 
-                c : borderColor
-            });
+    /**
+     * Private helper to measure the bounds of an element on a preview of its commands, or on the
+     * extents estimated by the bounds check when the preview does not draw it (e.g. Data Matrix, PDF417).
+     * 
+     * @param element - element to measure
+     * @returns the bounds of the element, in the units of the label
+     */
+    private _measureElement(element : LabelElement) : ZplLayoutBox {
+        const { _extents } = this;
+        let commandSet : ZplCommandSet;
+        let extents    : [number, number, number, number][];
+
+        this._extents = extents = [];
+        try {
+            commandSet = this._drawSeparately(element, element.x, element.y, false);
         }
-        else {
-            this._commandSet.runCommand(ZplGraphicEllipse, {
-                w : this._toDots(width),
-                h : this._toDots(height),
-                t : borderThickness,
-                c : borderColor
-            });
+        finally {
+            this._extents = _extents;
         }
-        this._commandSet.runCommand(ZplFieldSeparator);
 
-        return this;
+        const { fields } = getRenderFields(commandSet, this.dpi || 300);
+        if (fields.length) {
+            extents = fields.map(getRenderFieldBounds).map(box => [box.x, box.y, box.x + box.width, box.y + box.height]);
+        }
+        if (!extents.length) return new ZplLayoutBox(element.x, element.y, 0, 0);
+
+        const left   = Math.min(...extents.map(extent => extent[0]));
+        const top    = Math.min(...extents.map(extent => extent[1]));
+        const right  = Math.max(...extents.map(extent => extent[2]));
+        const bottom = Math.max(...extents.map(extent => extent[3]));
+
+        const dotsPerUnit = this._toExactDots(1);
+        return new ZplLayoutBox(left / dotsPerUnit, top / dotsPerUnit, (right - left) / dotsPerUnit, (bottom - top) / dotsPerUnit);
     }
 
     /**
-     * Adds a QR Code to this label.
-     * 
-     * @param x - x-axis location (distance from left)
-     * @param y - y-axis location (distance from top)
-     * @param text - text segment
-     * @param options.maxSize - approximates the closest smallest magnification level to fit the provided size; only applies when autoMode is not true
-     * @param options.autoMode - lets printer decide the data-mode
-     * @param options.errorCorrectionLevel - level of error correction to apply on the code
-     * @param options.maskValue - mask level
-     * 
-     * @returns this ZPLLabel object, for chaining
+     * Private helper to draw the commands of every element again, after elements are moved, removed
+     * or reordered, or when labels are mounted (they may have changed since).
      */
-    qrcode(x : number, y : number, text : string, options? : {
-        maxSize?  : number,
-        autoMode? : boolean;
-        errorCorrectionLevel? : QRErrorCorrectionLevel;
-        maskValue? : number;
-    }) {
-        let { maxSize, autoMode, errorCorrectionLevel, maskValue } = options || {};
+    private _redrawElements() {
+        const hasMountedLabels = this._elements.some(element => element.type === 'fragment' && element.options.fragment instanceof ZplLabel);
+        if (!this._elementsChanged && !hasMountedLabels) return;
 
-        // Defaults
-        errorCorrectionLevel = errorCorrectionLevel || 'Q';
+        const header = this._commandSet.getCommands().slice(0, this._headerLength);
+        this._commandSet      = new ZplCommandSet();
+        this.lastOrientation  = undefined;
+        this._formatFields    = new Map();
+        this._fontIdentifiers = new Map();
+        this._elementsChanged = false;
+        header.forEach(command => this._commandSet.addCommand(command));
 
-        // Calculate data-input mode 
-        let fieldDataMode : string;
-        let dataInputMode : QRDataInputMode | void = undefined;
-        let size : number | void = undefined;
-        if (autoMode) {
-            fieldDataMode = 'A,';
+        this._replaying = true;
+        try {
+            this._elements.forEach(element => element.draw(element.x, element.y));
         }
-        else {
-            ({ mode : dataInputMode, size } = getQRCodeDataInputMode(text));
-            
-            fieldDataMode = `M,${dataInputMode}${dataInputMode === 'B' ? `0000${size}`.slice(-4) : null }`;
+        finally {
+            this._replaying = false;
         }
+    }
 
-        // Calculation is based on magnification 10 having 3 pixels per 30dots >> 3 dots per pixel
-        let magnification : number | undefined = undefined;
-        if (dataInputMode && size && maxSize) {
-            const version : number = getQRCodeVersion(dataInputMode, errorCorrectionLevel, size);
-            const pixels  : number = QRCodeSizesByVersion[version] ?? 0;
-
-            const widthInDots  = this._toDots(maxSize);
-            const dotsPerPixel = widthInDots / (1.0 * pixels);
+    /**
+     * Private helper to add an element to this label, drawing its commands.
+     * 
+     * @param type - type of element
+     * @param x - x-axis location of the element
+     * @param y - y-axis location of the element
+     * @param data - data of the element, if any
+     * @param options - options of the drawing call
+     * @param draw - adds the commands of the element at a location
+     * @returns the element
+     */
+    private _addElement(type : ZplLabelElementType, x : number, y : number, data : ZplLabelElement['data'], options : ZplLabelElement['options'], draw : (x : number, y : number) => void) : ZplLabelElement {
+        this._redrawElements();
 
-            magnification = Math.min(10, Math.floor(dotsPerPixel));
+        const element = new LabelElement(type, x, y, data, options, draw, element => this._measureElement(element));
+        try {
+            draw(x, y);
         }
+        catch (error) {
+            // Commands added before the error are dropped when the elements are drawn again
+            this._elementsChanged = true;
+            throw error;
+        }
+        this._elements.push(element);
+        return element;
+    }
 
-        const Y_PADDING = 10; // Implicit whitespace margin above the QR Code
-        this._commandSet
-            .runCommand(ZplFieldOrigin, {
-                x : this._toDots(x),
-                y : this._toDots(y) - Y_PADDING,
-                z : 0 // align from left for ease
-            })
-            .runCommand(ZplQRCodeBarCode, {
-                b: 2,
-                c: magnification,
-                d: errorCorrectionLevel,
-                e: maskValue
-            })
-            .runCommand(ZplFieldData, {
-                a : `${errorCorrectionLevel}${fieldDataMode}${text}`,
-            })
-            .runCommand(ZplFieldSeparator);
-        return this;
+    /**
+     * Private helper to find an element of this label.
+     * 
+     * @param element - element returned by a drawing method
+     * @returns the index of the element
+     * @throws a TypeError if the element is not on this label
+     */
+    private _indexOfElement(element : ZplLabelElement) : number {
+        const index = this._elements.indexOf(element as LabelElement);
+        if (index < 0) throw new TypeError(`Element ${element?.type} is not on this label`);
+        return index;
     }
 
     /**
-     * Computes the command as a buffer.
+     * Lists the elements of this label, in drawing order (from back to front).
      * 
-     * @returns the ZPL label as a command
+     * @returns a copy of the list of elements
      */
-     getCommandBuffer() : Uint8Array {
-        const withEndFormat = new ZplCommandSet(this._commandSet);
-        withEndFormat.runCommand(ZplEndFormat);
-        return withEndFormat.getCommandBuffer();
+    get elements() : ZplLabelElement[] {
+        return this._elements.slice();
     }
 
     /**
-     * Computes the command as a string.
+     * Finds the first element (in drawing order) that matches a predicate.
      * 
-     * @returns the ZPL label as a command
+     * @param predicate - function returning true for the element to find
+     * @returns the element, if any
      */
-    getCommandString() : string {
-        const withEndFormat = new ZplCommandSet(this._commandSet);
-        withEndFormat.runCommand(ZplEndFormat);
-        return withEndFormat.getCommandString();
+    find(predicate : (element : ZplLabelElement) => boolean) : void | ZplLabelElement {
+        return this._elements.find(predicate);
+    }
+
+    /**
+     * Lists the elements whose bounds contain a point.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @returns the elements at the point, from front to back
+     */
+    elementsAt(x : number, y : number) : ZplLabelElement[] {
+        return this._elements
+            .filter(element => {
+                if (element.type === 'comment') return false;
+
+                const { x : left, y : top, right, bottom } = element.bounds;
+                return x >= left && x <= right && y >= top && y <= bottom;
+            })
+            .reverse();
+    }
+
+    /**
+     * Moves an element, its commands are drawn again when the label is serialized.
+     * 
+     * @param element - element returned by a drawing method
+     * @param x - new x-axis location (as in the drawing call)
+     * @param y - new y-axis location (as in the drawing call)
+     * @returns this ZPLLabel object, for chaining
+     * @throws a TypeError if the element is not on this label
+     * @throws a RangeError if the element is moved out of bounds and options.outOfBounds is set to throw
+     */
+    move(element : ZplLabelElement, x : number, y : number) {
+        const labelElement = this._elements[this._indexOfElement(element)];
+        this._drawSeparately(labelElement, x, y, true);
+
+        labelElement.moveTo(x, y);
+        this._elementsChanged = true;
+        return this;
+    }
+
+    /**
+     * Removes an element from this label.
+     * 
+     * @param element - element returned by a drawing method
+     * @returns this ZPLLabel object, for chaining
+     * @throws a TypeError if the element is not on this label
+     */
+    remove(element : ZplLabelElement) {
+        this._elements.splice(this._indexOfElement(element), 1);
+        this._elementsChanged = true;
+        return this;
+    }
+
+    /**
+     * Moves an element to the front, it is drawn after (over) every other element.
+     * 
+     * @param element - element returned by a drawing method
+     * @returns this ZPLLabel object, for chaining
+     * @throws a TypeError if the element is not on this label
+     */
+    bringToFront(element : ZplLabelElement) {
+        const [ labelElement ] = this._elements.splice(this._indexOfElement(element), 1);
+        this._elements.push(labelElement);
+        this._elementsChanged = true;
+        return this;
+    }
+
+    /**
+     * Adds a comment to this label.
+     * 
+     * @param comment - comment string
+     * @returns the element drawn, to move or remove it later (see elements)
+     */
+    comment(comment : string) {
+        return this._addElement('comment', 0, 0, comment, {}, () => {
+            this._commandSet.runCommand(ZplComment, { c: comment });
+        });
+    }
+
+    /**
+     * Private helper to add field data (^FD) to a command set. Data containing command prefixes (^ or ~),
+     * which would end the field and run the rest of the data as commands, or control characters is escaped
+     * with ^FH, rejected or kept as is depending on options.fieldData.
+     * 
+     * @param commandSet - command set of the field
+     * @param data - field data
+     * @param isEscaped - whether the data is already escaped for ^FH (e.g. bytes outside the encoding of the label)
+     * @throws a TypeError if the data is unsafe and options.fieldData is set to strict
+     * @throws a ZplEncodingError if the data cannot be represented in options.encoding
+     */
+    private _runFieldDataCommand(commandSet : ZplCommandSet, data : string, isEscaped : boolean = false) {
+        if (this.encoding) encodeString(data, this.encoding);
+
+        if (isEscaped) {
+            commandSet
+                .runCommand(ZplFieldHexadecimalIndicator, { a : '_' })
+                .runCommand(ZplFieldData, { a : data });
+            return;
+        }
+
+        if (!isUnsafeFieldData(data)) {
+            commandSet.runCommand(ZplFieldData, { a : data });
+            return;
+        }
+
+        switch (this.fieldData) {
+            case 'raw':
+                commandSet.addCommand({ schema : ZplFieldData, params : { a : data }, raw : ZplFieldData.mnemonic + data });
+                break;
+
+            case 'strict':
+                throw new TypeError(`Invalid field data "${data}", should not contain ^, ~ or control characters`);
+
+            case 'escape':
+            default:
+                commandSet
+                    .runCommand(ZplFieldHexadecimalIndicator, { a : '_' })
+                    .runCommand(ZplFieldData, { a : escapeFieldDataHex(data, '_') });
+        }
+    }
+
+    /**
+     * Private helper to add the data of the current field, a numbered variable field (^FN) when
+     * the data is a placeholder for a stored format, or a serial field (^SN or ^SF).
+     * 
+     * @param data - field data, a variable field placeholder or a serial field
+     * @param transform - converts data into the field data of the current field (e.g. validates or adds a prefix),
+     * applied to the data provided when recalling the format for variable fields
+     * @throws a TypeError if a variable field cannot be used, or a serial field is invalid
+     */
+    private _runFieldData(data : fieldData, transform : (data : string) => string = data => data) {
+        if (typeof data === 'string') {
+            this._runFieldDataCommand(this._commandSet, transform(data));
+            return;
+        }
+
+        if ('serial' in data) {
+            const serial    = data.padding ? data.serial.padStart(data.padding, '0') : data.serial;
+            const increment = data.increment ?? 1;
+
+            if (data.mask !== undefined) {
+                if (!/^[DdHhOoAaNn%]+$/.test(data.mask)) throw new TypeError(`Invalid serial mask "${data.mask}", should only contain D, H, O, A, N or %`);
+                this._runFieldDataCommand(this._commandSet, transform(serial));
+                this._commandSet.runCommand(ZplSerializationField, { a : data.mask, b : String(increment) });
+            }
+            else {
+                if (!/^[0-9]{1,12}$/.test(serial)) throw new TypeError(`Invalid serial "${serial}", should be up to 12 digits (use a mask for alphanumeric serials)`);
+                if (typeof increment !== 'number' || !Number.isInteger(increment)) throw new TypeError(`Invalid serial increment "${increment}", should be an integer`);
+
+                // A prefix (e.g. the mode of a QR code) is kept out of the serialized value with a mask of the serial digits
+                const value = transform(serial);
+                if (value !== serial) {
+                    this._runFieldDataCommand(this._commandSet, value);
+                    this._commandSet.runCommand(ZplSerializationField, { a : 'd'.repeat(serial.length), b : String(increment) });
+                }
+                else {
+                    this._commandSet.runCommand(ZplSerializationData, { v : value, n : increment, z : !!data.padding });
+                }
+            }
+            return;
+        }
+
+        if (!this._format) throw new TypeError(`Variable field ${data.field} requires the label to be a stored format (options.format)`);
+
+        this._commandSet.runCommand(ZplFieldNumber, { a : data.field });
+        if (data.default !== undefined) this._runFieldDataCommand(this._commandSet, transform(data.default));
+        this._formatFields.set(data.field, [ ...(this._formatFields.get(data.field) || []), transform ]);
+    }
+
+    /**
+     * Private helper to set the font of the current field, or the default field orientation when no
+     * font is provided. Downloaded fonts are called by their identifier (^CW, added at the start of the
+     * format) when they have one, otherwise by their location (^A@).
+     * 
+     * @param font - name of a font or an object representing a font
+     * @param orientation - field orientation
+     * @param sizeInDots - height and width of the font in dots, in place of the size of the font
+     * @throws a TypeError if the font name is not a single character or a location (e.g. E:BRAND.TTF),
+     *         or two downloaded fonts have the same identifier
+     */
+    private _runFont(font : font | void, orientation : 'N'|'R'|'I'|'B', sizeInDots? : { height : number, width : number }) {
+        if (font) {
+            const { name, width, height } = (typeof font === 'string' || isZplFontDescription(font)) ? { name : font, width : undefined, height : undefined } : font;
+            const size = sizeInDots ? { w : sizeInDots.width, h : sizeInDots.height }
+                       : (width !== undefined) ? { w : this._toDots(width), h : this._toDots(height ?? width) }
+                       : {};
+
+            if (isZplFontDescription(name) && name.identifier) {
+                const identifier = name.identifier as string;
+                const previous   = this._fontIdentifiers.get(identifier);
+                if (previous && previous.toJSON() !== name.toJSON()) {
+                    throw new TypeError(`Fonts ${previous.toJSON()} and ${name.toJSON()} have the same identifier ${identifier}`);
+                }
+
+                this._fontIdentifiers.set(identifier, name);
+                this._commandSet.runCommand(ZplScalableFont, { f : identifier, o : orientation, ...size });
+            }
+            else if (isZplFontDescription(name)) {
+                this._commandSet.runCommand(ZplUseFontNameToCallFont, { o : orientation, ...size, d : name.drive, f : name.name, x : name.extension });
+            }
+            else if (name.length === 1) {
+                this._commandSet.runCommand(ZplScalableFont, { f : name, o : orientation, ...size });
+            }
+            else {
+                const location = parseFontLocation(name);
+                if (!location) throw new TypeError(`Invalid font "${name}", should be a single character or the location of a font (e.g. E:BRAND.TTF)`);
+                this._commandSet.runCommand(ZplUseFontNameToCallFont, { o : orientation, ...size, ...location });
+            }
+        }
+        else if (this.lastOrientation !== orientation) {
+            this._commandSet.runCommand(ZplFieldOrientation, { r : orientation, z: 0 });
+            this.lastOrientation = orientation;
+        }
+    }
+
+    /**
+     * Private helper to read the font of a text field into its name and size in dots. Fonts without a
+     * size print at the size of the default font.
+     * 
+     * @param font - name of a font or an object representing a font, if any
+     * @returns the name (or downloaded font) and the size of the font
+     */
+    private _resolveFont(font : font | void) : { name : string | ZplFontDescription, height : number, width : number } {
+        if (!font) return { ...DefaultFont };
+        if (typeof font === 'string' || isZplFontDescription(font)) return { name : font, height : DefaultFont.height, width : DefaultFont.width };
+        return { name : font.name, height : this._toDots(font.height ?? font.width), width : this._toDots(font.width) };
+    }
+
+    /**
+     * Private helper to measure a line of text in dots. Downloaded fonts are measured with the advance
+     * widths of their TTF file, scaled from the em square to the width of the font, fonts called by
+     * location are measured like font 0.
+     * 
+     * @param text - text to measure
+     * @param name - name of the font, or downloaded font
+     * @param height - height of the font in dots
+     * @param width - width of the font in dots
+     * @returns the width and height of the text in dots
+     */
+    private _measureTextInDots(text : string, name : string | ZplFontDescription, height : number, width : number) : { width : number, height : number } {
+        if (isZplFontDescription(name)) {
+            const { unitsPerEm, getAdvanceWidth } = name.metrics;
+            let advance = 0;
+            for (const character of text) advance += getAdvanceWidth(character.codePointAt(0) as number);
+            return { width : advance * width / unitsPerEm, height };
+        }
+
+        const font = { name : (name.length === 1) ? name : '0', height, width };
+        return { width : getTextWidth(font, text), height : getFontHeight(font) };
+    }
+
+    /**
+     * Private helper to count the lines a text wraps to within a field block, words being wrapped to fit
+     * the width of the block.
+     * 
+     * @param text - text of the block, with line breaks
+     * @param name - name of the font, or downloaded font
+     * @param height - height of the font, in dots
+     * @param width - width of the font, in dots
+     * @param blockWidth - width of the block, in dots
+     * @param hangingIndent - indent of the second and remaining lines, in dots
+     * @returns the number of lines
+     */
+    private _countWrappedLines(text : string, name : string | ZplFontDescription, height : number, width : number, blockWidth : number, hangingIndent : number) : number {
+        let lines = 0;
+        for (const paragraph of text.split(/\r?\n/)) {
+            let line : string | undefined = undefined;
+            for (const word of paragraph.split(' ')) {
+                const candidate = (line === undefined) ? word : `${line} ${word}`;
+                const indent = lines ? hangingIndent : 0;
+                if (line === undefined || this._measureTextInDots(candidate, name, height, width).width + indent <= blockWidth) {
+                    line = candidate;
+                }
+                else {
+                    lines++;
+                    line = word;
+                }
+            }
+            lines++;
+        }
+        return lines;
+    }
+
+    /**
+     * Measures a line of text as it prints: resident fonts with their metrics (proportions of font 0, cells
+     * of the bitmap fonts A to H), downloaded fonts (e.g. ZplFont) with the advance widths of their TTF file.
+     * Fonts only called by location (e.g. E:BRAND.TTF) are measured like font 0.
+     * 
+     * @param text - text to measure
+     * @param options.font - font of the text, as in text (defaults to the default font A)
+     * @returns the width and height of the text, in the units of the label
+     * @throws a TypeError if the TTF file of a downloaded font is not a TrueType font
+     */
+    measureText(text : string, options : { font? : font } = {}) : { width : number, height : number } {
+        const { name, height, width } = this._resolveFont(options.font);
+        const size = this._measureTextInDots(text, name, height, width);
+
+        const dotsPerUnit = this._toExactDots(1);
+        return { width : size.width / dotsPerUnit, height : size.height / dotsPerUnit };
+    }
+
+    /**
+     * Private helper to fit a line of text within a width, shrinking its font or truncating it with an
+     * ellipsis. Bitmap fonts shrink by whole magnifications, scalable fonts down to 10 dots.
+     * 
+     * @param text - text to fit
+     * @param font - font of the text
+     * @param fitWidth - width to fit the text within, in dots
+     * @param overflow - whether to shrink the font or truncate the text
+     * @returns the text and the height and width of its font in dots
+     * @throws a RangeError if the text cannot fit
+     */
+    private _fitText(text : string, font : font, fitWidth : number, overflow : 'shrink'|'ellipsis') : { text : string, height : number, width : number } {
+        const { name, height, width } = this._resolveFont(font);
+        const measure = (text : string, height : number, width : number) => this._measureTextInDots(text, name, height, width).width;
+        if (measure(text, height, width) <= fitWidth) return { text, height, width };
+
+        if (overflow === 'ellipsis') {
+            for (let length = text.length - 1; length >= 0; length--) {
+                const truncated = `${text.slice(0, length).trimEnd()}...`;
+                if (measure(truncated, height, width) <= fitWidth) return { text : truncated, height, width };
+            }
+        }
+        else if (typeof name === 'string' && BitmapFontCells.hasOwnProperty(name.toUpperCase())) {
+            const cell = BitmapFontCells[name.toUpperCase()];
+            const heightMagnification = Math.max(1, Math.round(height / cell.height));
+            const widthMagnification  = Math.max(1, Math.round(width / cell.width));
+            for (let magnification = widthMagnification - 1; magnification >= 1; magnification--) {
+                const fitted = {
+                    text,
+                    height : cell.height * Math.max(1, Math.round(heightMagnification * magnification / widthMagnification)),
+                    width  : cell.width * magnification,
+                };
+                if (measure(text, fitted.height, fitted.width) <= fitWidth) return fitted;
+            }
+        }
+        else {
+            const scale = fitWidth / measure(text, height, width);
+            const fitted = { text, height : Math.floor(height * scale), width : Math.floor(width * scale) };
+            if (fitted.height >= 10 && fitted.width >= 10) return fitted;
+        }
+
+        throw new RangeError(`Text "${text}" does not fit within ${fitWidth} dots`);
+    }
+
+    /**
+     * Adds a text segment to this label.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param text - text segment, a variable field placeholder or a serial field
+     * @param options.orientation - which way to orient the text
+     * @param options.invertColor - chooses opposite color of background
+     * @param options.font        - name of a font (a single character, or the location of a downloaded font,
+     *                              e.g. E:BRAND.TTF), a downloaded font (e.g. a ZplFont), or an object with a font and size
+     * @param options.align       - horizontal alignment of the text (defaults to left), within options.width when
+     *                              set, otherwise right aligned text ends at x
+     * @param options.width       - width to align the text within, starting at x (required to center text)
+     * @param options.fitWidth    - width the text should fit within, the height and width of options.font are
+     *                              reduced (or the text truncated) until it fits, see measureText
+     * @param options.overflow    - how text wider than options.fitWidth fits: with a smaller font (shrink, default)
+     *                              or truncated with an ellipsis (ellipsis)
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     * @throws a TypeError if options.fitWidth is set without options.font, or the text is a variable or serial field
+     * @throws a RangeError if the text cannot fit within options.fitWidth
+     */
+    text(x : number, y : number, text : fieldData, options : {
+        orientation? : orientation;
+        invertColor? : boolean;
+        font? : font;
+        align? : alignment;
+        width? : number;
+        fitWidth? : number;
+        overflow? : 'shrink'|'ellipsis';
+    } = {}) {
+        return this._addElement('text', x, y, text, options, (x, y) => {
+            const orientation = options.orientation ? OrientationFromHumanReadable[options.orientation] : 'N';
+            const align       = options.align ? AlignmentFromHumanReadable[options.align] : 'L';
+            const font = options.font;
+            const invertColor = options.invertColor;
+            if (align === 'C' && options.width === undefined) throw new TypeError('options.width is required to center text');
+
+            let fitted : void | { text : string, height : number, width : number } = undefined;
+            if (options.fitWidth !== undefined) {
+                if (!font)                    throw new TypeError('options.font is required to fit text within options.fitWidth');
+                if (typeof text !== 'string') throw new TypeError('Variable and serial fields cannot be fitted within options.fitWidth');
+                fitted = this._fitText(text, font, this._toDots(options.fitWidth), options.overflow || 'shrink');
+            }
+
+            const left = this._toDots(x);
+            const top  = this._toDots(y);
+            const width = (options.width !== undefined) ? this._toDots(options.width) : undefined;
+
+            // Without a width, the text is as wide as it measures, and rotated text swaps its width and height.
+            // Downloaded fonts are only measured (reading their metrics) when the label has a size.
+            const { name, ...fontSize } = this._resolveFont(font);
+            const size = (this.widthInDots === undefined && this.heightInDots === undefined) ? { width : 0, height : 0 }
+                : fitted ? this._measureTextInDots(fitted.text, name, fitted.height, fitted.width)
+                : this._measureTextInDots(sampleFieldData(text), name, fontSize.height, fontSize.width);
+            const extent = { width : width ?? Math.ceil(size.width), height : Math.ceil(size.height) };
+            const [ across, down ] = (orientation === 'R' || orientation === 'B') ? [ extent.height, extent.width ] : [ extent.width, extent.height ];
+            const start = (align === 'R' && width === undefined) ? left - across : left;
+            this._checkBounds('text', start, top, start + across, top + down);
+
+            // Without a width, right aligned text is positioned by its right edge (^FO justification)
+            this._commandSet.runCommand(ZplFieldOrigin, {
+                x : left,
+                y : top,
+                z : (align === 'R' && width === undefined) ? 1 : 0
+            });
+            if (invertColor) this._commandSet.runCommand(ZplFieldReversePrint);
+            this._runFont(font, orientation, fitted || undefined);
+
+            // With a width, the text is aligned within a single line field block
+            const data = fitted ? fitted.text : text;
+            if (width !== undefined) {
+                this._commandSet.runCommand(ZplFieldBlock, { a : width, b : 1, c : 0, d : align, e : 0 });
+                this._runFieldData(data, data => data.replace(/\\/g, '\\\\'));
+            }
+            else {
+                this._runFieldData(data);
+            }
+            this._commandSet.runCommand(ZplFieldSeparator);
+        });
+    }
+
+    /**
+     * Adds a block of text to this label, wrapped within the provided width. Line breaks in the text
+     * are kept as line breaks in the block.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param width - width of the text block, text is wrapped to fit
+     * @param text - text segment, a variable field placeholder or a serial field
+     * @param options.maxLines      - maximum number of lines, further text overwrites the last line (defaults to 9999)
+     * @param options.lineSpacing   - space to add (or remove, when negative) between lines
+     * @param options.justify       - text justification (defaults to left)
+     * @param options.hangingIndent - indent of the second and remaining lines
+     * @param options.orientation   - which way to orient the text
+     * @param options.invertColor   - chooses opposite color of background
+     * @param options.font          - name of a font (a single character, or the location of a downloaded font,
+     *                                e.g. E:BRAND.TTF), a downloaded font (e.g. a ZplFont), or an object with a font and size
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     */
+    textBlock(x : number, y : number, width : number, text : fieldData, options : {
+        maxLines?      : number;
+        lineSpacing?   : number;
+        justify?       : justification;
+        hangingIndent? : number;
+        orientation?   : orientation;
+        invertColor?   : boolean;
+        font?          : font;
+    } = {}) {
+        return this._addElement('textBlock', x, y, text, { width, ...options }, (x, y) => {
+            const orientation = options.orientation ? OrientationFromHumanReadable[options.orientation] : 'N';
+            const justify     = options.justify ? JustificationFromHumanReadable[options.justify] : 'L';
+
+            const left = this._toDots(x);
+            const top  = this._toDots(y);
+            const blockWidth = this._toDots(width);
+
+            // The block is as tall as the lines the text wraps to, downloaded fonts are only measured when the label has a size
+            let blockHeight = 0;
+            if (this.widthInDots !== undefined || this.heightInDots !== undefined) {
+                const { name, ...fontSize } = this._resolveFont(options.font);
+                const lineCount   = Math.min(options.maxLines ?? 9999, this._countWrappedLines(sampleFieldData(text), name, fontSize.height, fontSize.width, blockWidth, this._toDots(options.hangingIndent ?? 0)));
+                const lineHeight  = Math.ceil(this._measureTextInDots('', name, fontSize.height, fontSize.width).height);
+                blockHeight = lineCount * lineHeight + (lineCount - 1) * this._toDots(options.lineSpacing ?? 0);
+            }
+            this._checkRotatedBounds('text block', left, top, { width : blockWidth, height : blockHeight }, orientation);
+
+            this._commandSet.runCommand(ZplFieldOrigin, {
+                x : left,
+                y : top,
+                z : 0 // align from left for ease
+            });
+            if (options.invertColor) this._commandSet.runCommand(ZplFieldReversePrint);
+            this._runFont(options.font, orientation);
+
+            this._commandSet
+                .runCommand(ZplFieldBlock, {
+                    a : this._toDots(width),
+                    b : options.maxLines ?? 9999,
+                    c : this._toDots(options.lineSpacing ?? 0),
+                    d : justify,
+                    e : this._toDots(options.hangingIndent ?? 0),
+                });
+
+            // Within a field block, "\&" is a line break and "\\" is a backslash
+            this._runFieldData(text, data => data.replace(/\\/g, '\\\\').replace(/\r?\n/g, '\\&'));
+            this._commandSet.runCommand(ZplFieldSeparator);
+        });
+    }
+
+    /**
+     * Adds a line to this label. Does the logic to determine whether the line is
+     * vertical, diagonal, or horizontal
+     * 
+     * @param x1 - starting x-axis location (distance from left)
+     * @param y1 - starting y-axis location (distance from top)
+     * @param x2 - starting x-axis location (distance from left)
+     * @param y2 - starting y-axis location (distance from top)
+     * @param options.color       - color of the line
+     * @param options.invertColor - chooses opposite color of background
+     * @param options.thickness   - thickness of the line, in the units of the label (defaults to one dot)
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     * @throws a RangeError if options.thickness is not positive
+     */
+    line(x1 : number, y1 : number, x2 : number, y2 : number, options : {
+        color?       : color;
+        invertColor? : boolean;
+        thickness?   : number;
+    } = {}) {
+        // The line is positioned by its start, its end moves along with it
+        return this._addElement('line', x1, y1, undefined, { width : x2 - x1, height : y2 - y1, ...options }, (x, y) => {
+            this._runLine(x, y, x2 + (x - x1), y2 + (y - y1), options);
+        });
+    }
+
+    /**
+     * Private helper to add the commands of a line (see line).
+     * 
+     * @param x1 - starting x-axis location (distance from left)
+     * @param y1 - starting y-axis location (distance from top)
+     * @param x2 - ending x-axis location (distance from left)
+     * @param y2 - ending y-axis location (distance from top)
+     * @param options - line options
+     */
+    private _runLine(x1 : number, y1 : number, x2 : number, y2 : number, options : { color? : color, invertColor? : boolean, thickness? : number }) {
+        const color       = options.color ? ColorFromHumanReadable[options.color] : 'B';
+        const invertColor = options.invertColor;
+        const thickness   = this._toThicknessDots('thickness', options.thickness);
+
+        const left = this._toDots(Math.min(x1, x2));
+        const top  = this._toDots(Math.min(y1, y2));
+        this._checkBounds('line', left, top,
+            Math.max(this._toDots(Math.max(x1, x2)), left + thickness),
+            Math.max(this._toDots(Math.max(y1, y2)), top + thickness));
+
+        this._commandSet.runCommand(ZplFieldOrigin, {
+            x : left,
+            y : top,
+            z : 0 // align from left for ease
+        });
+        if (invertColor) this._commandSet.runCommand(ZplFieldReversePrint);
+
+        if (x1 === x2 || y1 === y2) { // vertical or horizontal lines
+            this._commandSet.runCommand(ZplGraphicBox, {
+                w : this._toDots(x2 - x1),
+                h : this._toDots(y2 - y1),
+                t : thickness, 
+                c : color,
+                r : 0,
+            });
+        }
+        else { // diagonal lines
+            const width  : number = x2 - x1;
+            const height : number = y2 - y1;
+            
+            const orientation = (width < 0 && height < 0 || width > 0 && height > 0) ? 'L' : 'R';
+
+            this._commandSet.runCommand(ZplGraphicDiagonalLine, {
+                w : this._toDots(Math.abs(width)),
+                h : this._toDots(Math.abs(height)),
+                t : thickness,
+                c : color,
+                o : orientation
+            });
+        }
+        this._commandSet.runCommand(ZplFieldSeparator);
+    }
+
+    /**
+     * Adds a box to this label.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param width - width of the box
+     * @param height - height of the box
+     * @param options.filled          - fills the box with a solid color
+     * @param options.color           - box or border color
+     * @param options.invertColor     - chooses opposite color of background
+     * @param options.borderThickness - thickness of the border, in the units of the label (defaults to one dot)
+     * @param options.borderRadius    - rounds the corners (0 to 8)
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     * @throws a RangeError if the width or height is negative, options.borderThickness is not positive or
+     * options.borderRadius is not an integer between 0 and 8
+     */
+    box(x : number, y : number, width : number, height : number, options : {
+        filled?          : boolean;
+        color?           : color;
+        invertColor?     : boolean;
+        borderThickness? : number;
+        borderRadius?    : number;
+    } = {}) {
+        return this._addElement('box', x, y, undefined, { width, height, ...options }, (x, y) => {
+            this._checkShapeSize('box', width, height);
+            if (options.borderRadius !== undefined && (!Number.isInteger(options.borderRadius) || options.borderRadius < 0 || options.borderRadius > 8)) {
+                throw new RangeError(`options.borderRadius should be an integer between 0 and 8, got ${options.borderRadius}`);
+            }
+
+            const invertColor     = options.invertColor;
+            const borderThickness = options.filled ? this._toDots(Math.min(width, height)) : this._toThicknessDots('borderThickness', options.borderThickness);
+            const borderRadius    = options.borderRadius || 0;
+            const borderColor     = options.color ? ColorFromHumanReadable[options.color] : 'B';
+
+            const left = this._toDots(x);
+            const top  = this._toDots(y);
+            this._checkBounds('box', left, top, left + this._toDots(width), top + this._toDots(height));
+        
+            this._commandSet.runCommand(ZplFieldOrigin, {
+                x : left,
+                y : top,
+                z : 0, // align from left for ease
+            });
+            if (invertColor) this._commandSet.runCommand(ZplFieldReversePrint);
+            this._commandSet
+                .runCommand(ZplGraphicBox, {
+                    w : this._toDots(width),
+                    h : this._toDots(height),
+                    t : borderThickness,
+                    c : borderColor,
+                    r : borderRadius,
+                })
+                .runCommand(ZplFieldSeparator);
+        });
+    }
+
+    /**
+     * Adds a ellipse to this label.
+     * 
+     * @param x - x-axis location (center or distance from left, depending on options.positioning)
+     * @param y - y-axis location (center or distance from top, depending on options.positioning)
+     * @param width - width of the ellipse
+     * @param height - height of the ellipse
+     * @param options.filled          - fills the ellipse with a solid color
+     * @param options.color           - ellipse or border color
+     * @param options.invertColor     - chooses opposite color of background
+     * @param options.positioning     - how to position the ellipse
+     * @param options.borderThickness - thickness of the border, in the units of the label (defaults to one dot)
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     * @throws a RangeError if the width or height is negative, or options.borderThickness is not positive
+     */
+    ellipse(x : number, y : number, width : number, height : number, options : {
+        filled?          : boolean;
+        color?           : color;
+        invertColor?     : boolean;
+        positioning?     : 'center'|'top-left',
+        borderThickness? : number,
+    } = {}) {
+        return this._addElement('ellipse', x, y, undefined, { width, height, ...options }, (x, y) => {
+            this._checkShapeSize('ellipse', width, height);
+
+            const invertColor     = options.invertColor;
+            const borderThickness = options.filled ? this._toDots(Math.min(width, height)) : this._toThicknessDots('borderThickness', options.borderThickness);
+            const borderColor     = options.color ? ColorFromHumanReadable[options.color] : 'B';
+
+            const centerAlign = (options.positioning !== 'top-left');
+            const left = x + (centerAlign ? -(width  / 2) : 0);
+            const top  = y + (centerAlign ? -(height / 2) : 0);
+            this._checkBounds('ellipse', this._toDots(left), this._toDots(top), this._toDots(left + width), this._toDots(top + height));
+
+            this._commandSet.runCommand(ZplFieldOrigin, {
+                x : this._toDots(left),
+                y : this._toDots(top),
+                z : 0 // align from left for ease
+            });
+            if (invertColor) this._commandSet.runCommand(ZplFieldReversePrint);
+            if (width === height) {
+                this._commandSet.runCommand(ZplGraphicCircle, {
+                    d : this._toDots(width), 
+                    t : borderThickness, 
+                    c : borderColor
+                });
+            }
+            else {
+                this._commandSet.runCommand(ZplGraphicEllipse, {
+                    w : this._toDots(width),
+                    h : this._toDots(height),
+                    t : borderThickness,
+                    c : borderColor
+                });
+            }
+            this._commandSet.runCommand(ZplFieldSeparator);
+        });
+    }
+
+    /**
+     * Adds a 1-bit image to this label as a field graphic (^GF), so that it prints without first
+     * storing the image on the printer.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param bitmap - packed bitmap (set bits are black), or packed bitmap data with options.width
+     * @param options.width       - width of the bitmap data (in dots), required when bitmap is an Uint8Array
+     * @param options.height      - height of the bitmap data (in dots), calculated from the data length when not set
+     * @param options.compression - encode as plain ASCII hex, or with ZPL ASCII compression (defaults to acs)
+     * @param options.invertColor - chooses opposite color of background
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     */
+    image(x : number, y : number, bitmap : MonochromeBitmap | Uint8Array, options : {
+        width?       : number;
+        height?      : number;
+        compression? : 'hex'|'acs';
+        invertColor? : boolean;
+    } = {}) {
+        return this._addElement('image', x, y, bitmap, options, (x, y) => {
+            if (bitmap instanceof Uint8Array) {
+                if (!options.width) throw new TypeError('options.width is required when bitmap is an Uint8Array');
+                bitmap = packedDataToBitmap(bitmap, options.width, options.height);
+            }
+
+            const left = this._toDots(x);
+            const top  = this._toDots(y);
+            this._checkBounds('image', left, top, left + bitmap.width, top + bitmap.height);
+
+            this._runGraphicField(left, top, bitmap, options.compression, options.invertColor);
+        });
+    }
+
+    /**
+     * Private helper to add a graphic field (^GF) drawing a bitmap.
+     * 
+     * @param left - x-axis location in dots
+     * @param top - y-axis location in dots
+     * @param bitmap - bitmap to draw
+     * @param compression - hex data as is (hex) or compressed (acs, default)
+     * @param invertColor - whether the bitmap reverses the colors below it
+     */
+    private _runGraphicField(left : number, top : number, bitmap : MonochromeBitmap, compression? : 'hex'|'acs', invertColor? : boolean) {
+        const totalBytes = bitmap.bytesPerRow * bitmap.height;
+        const data = (compression === 'hex') ? bitmapToHexString(bitmap) : bitmapToCompressedHexString(bitmap);
+
+        this._commandSet.runCommand(ZplFieldOrigin, {
+            x : left,
+            y : top,
+            z : 0 // align from left for ease
+        });
+        if (invertColor) this._commandSet.runCommand(ZplFieldReversePrint);
+        this._commandSet
+            .runCommand(ZplGraphicField, {
+                a : 'A',
+                b : totalBytes,
+                c : totalBytes,
+                d : bitmap.bytesPerRow,
+                data,
+            })
+            .runCommand(ZplFieldSeparator);
+    }
+
+    /**
+     * Adds a QR Code to this label. Data is split into segments of the data input modes (numeric, alphanumeric,
+     * byte and Kanji) that encode it in the fewest bits, and written in mixed mode when it has several.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param text - text segment, or a variable field placeholder (encoded in automatic mode)
+     * @param options.maxSize - approximates the closest smallest magnification level to fit the provided size,
+     *                          from the bits of the data segments
+     * @param options.autoMode - lets printer decide the data-mode
+     * @param options.errorCorrectionLevel - level of error correction to apply on the code
+     * @param options.maskValue - mask level
+     * @param options.model - QR code model (1 or 2, defaults to 2)
+     * @param options.symbolNumber - position of this symbol in a structured append
+     * @param options.totalSymbols - total number of symbols in a structured append (2 to 16)
+     * @param options.fullData - complete data split across the symbols of a structured append, for its parity
+     * @param options.graphic - draws the symbol as a graphic field (^GF) encoded by this library, for exact sizing or
+     *                          printers without ^BQ (model 2 only, without structured append)
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     * @throws a TypeError if a structured append has no options.fullData, or a RangeError if its symbols are out of range
+     * @throws a TypeError if a graphic symbol encodes a variable or serial field, or is a model 1 or structured append symbol
+     * @throws a RangeError if the data of a graphic symbol does not fit a QR code
+     */
+    qrcode(x : number, y : number, text : fieldData, options? : {
+        maxSize?  : number,
+        autoMode? : boolean;
+        errorCorrectionLevel? : QRErrorCorrectionLevel;
+        maskValue? : number;
+        model? : QRModel;
+        symbolNumber? : number;
+        totalSymbols? : number;
+        fullData? : string;
+        graphic? : boolean;
+    }) {
+        return this._addElement('qrcode', x, y, text, options || {}, (x, y) => {
+            let { maxSize, autoMode, errorCorrectionLevel, maskValue, model, symbolNumber, totalSymbols, fullData, graphic } = options || {};
+
+            // Defaults
+            errorCorrectionLevel = errorCorrectionLevel || 'Q';
+            model = model || 2;
+
+            // Graphic symbols are encoded when drawn, so their data must be known
+            if (graphic) {
+                if (typeof text !== 'string') throw new TypeError('Variable and serial fields cannot be drawn as a graphic QR code');
+                if (model === 1 || symbolNumber !== undefined || totalSymbols !== undefined) throw new TypeError('Model 1 and structured append QR codes cannot be drawn as a graphic');
+            }
+
+            // Data for variable fields is only known when the format is recalled
+            const sample = sampleFieldData(text);
+            if (typeof text !== 'string') autoMode = true;
+
+            // Structured append header: symbol number, total symbols and parity of the complete data
+            let structuredAppend = '';
+            if (symbolNumber !== undefined || totalSymbols !== undefined) {
+                if (!Number.isInteger(totalSymbols) || totalSymbols < 2 || totalSymbols > 16) throw new RangeError(`Invalid options.totalSymbols ${totalSymbols}, should be an integer between 2 and 16`);
+                if (!Number.isInteger(symbolNumber) || symbolNumber < 1 || symbolNumber > totalSymbols) throw new RangeError(`Invalid options.symbolNumber ${symbolNumber}, should be an integer between 1 and ${totalSymbols}`);
+                if (typeof fullData !== 'string') throw new TypeError('options.fullData is required for the parity of a structured append');
+
+                const parity = getQRCodeParity(fullData, this.encoding);
+                structuredAppend = `D${`0${symbolNumber}`.slice(-2)}${`0${totalSymbols}`.slice(-2)}${`0${parity.toString(16).toUpperCase()}`.slice(-2)},`;
+            }
+
+            // Calculate data-input mode, segments are calculated for the smallest version that fits the data
+            const { version, segments } = getQRCodeVersionAndSegments(sample, errorCorrectionLevel, model, this.encoding);
+            const isEscaped = segments.some(({ mode }) => mode === 'K');
+            const toFieldData = (segments : QRCodeSegment[]) => segments.map(({ mode, data }) => {
+                // Kanji is written as Shift JIS bytes, with hex escapes (^FH) since the label encoding cannot represent them
+                if (mode === 'K') return `K${Array.from(data).map(character => toHexEscapes(getQRKanjiCode(character) as number)).join('')}`;
+
+                const value = isEscaped ? escapeFieldDataHex(data, '_') : data;
+                return (mode === 'B') ? `B${`000${encodeQRCodeBytes(data, this.encoding).length}`.slice(-4)}${value}` : `${mode}${value}`;
+            }).join(',');
+
+            // Calculation is based on magnification 10 having 3 pixels per 30dots >> 3 dots per pixel
+            const pixels : number = QRCodeSizesByVersion[version] ?? 0;
+            let magnification : number | undefined = undefined;
+            if (maxSize) {
+                const widthInDots  = this._toExactDots(maxSize);
+                const dotsPerPixel = widthInDots / (1.0 * pixels);
+
+                magnification = Math.min(10, Math.floor(dotsPerPixel));
+            }
+
+            // Bounds are estimated with the printer's default magnification (roughly 1 per 100 dpi) when it is not calculated,
+            // and include the quiet zone of 4 modules around the symbol and the margin the printer adds above it
+            const Y_PADDING = 10; // Implicit whitespace margin above the QR Code
+            const defaultMagnification = this._defaultMagnification();
+            const moduleSize     = magnification || defaultMagnification;
+            const estimatedWidth = pixels * moduleSize;
+            const quietZone      = 4 * moduleSize;
+            const left = this._toDots(x);
+            const top  = this._toDots(y);
+            this._checkBounds('QR code',
+                left - quietZone, top - (graphic ? quietZone : Math.max(quietZone, Y_PADDING)),
+                left + estimatedWidth + quietZone, top + estimatedWidth + quietZone);
+
+            if (graphic) {
+                if (magnification === 0) throw new RangeError(`QR code of ${pixels} modules does not fit options.maxSize ${maxSize}`);
+
+                const matrix = encodeQRCode(sample, { errorCorrectionLevel, maskValue, encoding : this.encoding });
+                this._runGraphicField(this._toDots(x), this._toDots(y), matrixToBitmap(matrix, magnification || defaultMagnification));
+                return;
+            }
+
+            this._commandSet
+                .runCommand(ZplFieldOrigin, {
+                    x : this._toDots(x),
+                    y : this._toDots(y) - Y_PADDING,
+                    z : 0 // align from left for ease
+                })
+                .runCommand(ZplQRCodeBarCode, {
+                    b: model,
+                    c: magnification,
+                    d: errorCorrectionLevel,
+                    e: maskValue
+                });
+            // Data of variable and serial fields is encoded in automatic mode, so only text is segmented
+            if (autoMode) this._runFieldData(text, data => `${structuredAppend}${errorCorrectionLevel}A,${data}`);
+            else this._runFieldDataCommand(this._commandSet, `${structuredAppend}${errorCorrectionLevel}M,${toFieldData(segments)}`, isEscaped);
+            this._commandSet.runCommand(ZplFieldSeparator);
+        });
+    }
+
+    /**
+     * Private helper to add a linear (1D) bar code to this label.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param symbology - bar code symbology, used to validate the data
+     * @param data - data to encode, or a variable field placeholder
+     * @param template - bar code command
+     * @param params - symbology-specific parameters for the bar code command
+     * @param options - common bar code options
+     * @returns the element drawn
+     * @throws a RangeError if options.ratio is not between 2.0 and 3.0
+     */
+    private _linearBarCode<T extends LinearBarCodeParams>(x : number, y : number, symbology : LinearBarCodeSymbology, data : fieldData, template : ZplCommandTemplate<T>, params : Partial<T>, options : LinearBarCodeOptions) {
+        return this._addElement(symbology, x, y, data, options, (x, y) => {
+            const { height, moduleWidth, ratio } = options;
+            const orientation = options.orientation ? OrientationFromHumanReadable[options.orientation] : 'N';
+            const { f, g } = InterpretationLineFromHumanReadable[options.interpretationLine || 'below'];
+            if (ratio !== undefined && !(ratio >= 2 && ratio <= 3)) throw new RangeError(`options.ratio should be between 2.0 and 3.0, got ${ratio}`);
+
+            const left = this._toDots(x);
+            const top  = this._toDots(y);
+            const size = this._estimateLinearBarCodeSize(symbology, sampleFieldData(data), options, (params as LinearBarCodeParams & { e? : boolean }).e === true);
+            this._checkRotatedBounds(symbology, left, top, size, orientation);
+
+            this._commandSet.runCommand(ZplFieldOrigin, {
+                x : left,
+                y : top,
+                z : 0 // align from left for ease
+            });
+            if (moduleWidth !== undefined || ratio !== undefined) {
+                this._commandSet.runCommand(ZplBarCodeFieldDefault, {
+                    w : moduleWidth !== undefined ? Math.max(1, this._toDots(moduleWidth)) : 2,
+                    r : ratio ?? 3,
+                });
+            }
+            this._commandSet
+                .runCommand(template, {
+                    ...params,
+                    o : orientation,
+                    h : height !== undefined ? this._toDots(height) : undefined,
+                    f,
+                    g,
+                } as T);
+            this._runFieldData(data, value => normalizeLinearBarCodeData(symbology, value));
+            this._commandSet.runCommand(ZplFieldSeparator);
+        });
+    }
+
+    /**
+     * Private helper for the magnification printers use for QR and Aztec codes when none is set, roughly
+     * 1 per 100 dpi.
+     * 
+     * @returns the default magnification
+     */
+    private _defaultMagnification() : number {
+        return Math.max(1, Math.round((this.dpi || 300) / 100));
+    }
+
+    /**
+     * Private helper to check the bounds of a symbol of a size in dots, rotated with its field.
+     * 
+     * @param element - name of the element, for the error message
+     * @param left - left-most extent of the symbol (in dots)
+     * @param top - top-most extent of the symbol (in dots)
+     * @param size - width and height of the symbol before rotation (in dots)
+     * @param orientation - orientation of the symbol
+     */
+    private _checkRotatedBounds(element : string, left : number, top : number, size : { width : number, height : number }, orientation : 'N'|'R'|'I'|'B') {
+        const [ across, down ] = (orientation === 'R' || orientation === 'B') ? [ size.height, size.width ] : [ size.width, size.height ];
+        this._checkBounds(element, left, top, left + across, top + down);
+    }
+
+    /**
+     * Private helper to estimate the size of a linear bar code, before rotation, from its modules and its
+     * interpretation line. The printer defaults (^BY2,3,10) are used for the options that are not set, and
+     * data that cannot be encoded (e.g. a variable field without default) has no width.
+     * 
+     * @param symbology - bar code symbology
+     * @param data - data of the bar code
+     * @param options - common bar code options
+     * @param checkDigit - whether the bar code adds a check digit (Code 39, Interleaved 2 of 5)
+     * @returns the width and height of the bar code, in dots
+     */
+    private _estimateLinearBarCodeSize(symbology : LinearBarCodeSymbology, data : string, options : LinearBarCodeOptions, checkDigit : boolean) : { width : number, height : number } {
+        const moduleWidth = (options.moduleWidth !== undefined) ? Math.max(1, this._toDots(options.moduleWidth)) : BarCodeFieldDefaults.moduleWidth;
+        const barHeight   = (options.height !== undefined) ? this._toDots(options.height) : BarCodeFieldDefaults.height;
+
+        let modules = 0;
+        try {
+            const widths = encodeLinearBarCode(symbology, normalizeLinearBarCodeData(symbology, data), {
+                ratio      : options.ratio ?? BarCodeFieldDefaults.ratio,
+                checkDigit : checkDigit && (symbology === 'code39' || symbology === 'interleaved2of5'),
+            });
+            modules = widths.reduce((sum, width) => sum + width, 0);
+        }
+        catch (error) {
+            // Data that cannot be encoded is reported when it is written
+        }
+
+        // The interpretation line is printed in font A scaled with the module width, one module away from the bars
+        const lineHeight = getFontHeight({ name : 'A', height : 9 * moduleWidth, width : 5 * moduleWidth });
+        const hasInterpretation = (options.interpretationLine !== 'none');
+        return { width : Math.ceil(modules * moduleWidth), height : barHeight + (hasInterpretation ? lineHeight + moduleWidth : 0) };
+    }
+
+    /**
+     * Adds a Code 128 bar code to this label.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param data - data to encode (ASCII characters), a variable field placeholder or a serial field
+     * @param options.height - height of the bars
+     * @param options.moduleWidth - width of the narrowest bar (rounded to whole dots)
+     * @param options.ratio - wide bar to narrow bar ratio (2.0 to 3.0)
+     * @param options.orientation - which way to orient the bar code
+     * @param options.interpretationLine - where to print the human readable line (defaults to below)
+     * @param options.mode - bar code mode (N normal, U UCC case, A automatic, D UCC/EAN)
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     * @throws a RangeError if options.ratio is not between 2.0 and 3.0
+     */
+    code128(x : number, y : number, data : fieldData, options : LinearBarCodeOptions & {
+        mode? : 'N'|'U'|'A'|'D';
+    } = {}) {
+        return this._linearBarCode(x, y, 'code128', data, ZplCode128BarCode, { m : options.mode }, options);
+    }
+
+    /**
+     * Adds a Code 39 bar code to this label.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param data - data to encode (uppercase letters, digits, space and - . $ / + %), a variable field placeholder or a serial field
+     * @param options.height - height of the bars
+     * @param options.moduleWidth - width of the narrowest bar (rounded to whole dots)
+     * @param options.ratio - wide bar to narrow bar ratio (2.0 to 3.0)
+     * @param options.orientation - which way to orient the bar code
+     * @param options.interpretationLine - where to print the human readable line (defaults to below)
+     * @param options.checkDigit - adds a Mod-43 check digit
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     * @throws a RangeError if options.ratio is not between 2.0 and 3.0
+     */
+    code39(x : number, y : number, data : fieldData, options : LinearBarCodeOptions & {
+        checkDigit? : boolean;
+    } = {}) {
+        return this._linearBarCode(x, y, 'code39', data, ZplCode39BarCode, { e : !!options.checkDigit }, options);
+    }
+
+    /**
+     * Adds an EAN-13 bar code to this label. The check digit is always calculated by the printer.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param data - 12 digits, or 13 digits including a valid check digit (or a variable field placeholder)
+     * @param options.height - height of the bars
+     * @param options.moduleWidth - width of the narrowest bar (rounded to whole dots)
+     * @param options.orientation - which way to orient the bar code
+     * @param options.interpretationLine - where to print the human readable line (defaults to below)
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     */
+    ean13(x : number, y : number, data : fieldData, options : LinearBarCodeOptions = {}) {
+        return this._linearBarCode(x, y, 'ean13', data, ZplEAN13BarCode, {}, options);
+    }
+
+    /**
+     * Adds an UPC-A bar code to this label. The check digit is always calculated by the printer.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param data - 11 digits, or 12 digits including a valid check digit (or a variable field placeholder)
+     * @param options.height - height of the bars
+     * @param options.moduleWidth - width of the narrowest bar (rounded to whole dots)
+     * @param options.orientation - which way to orient the bar code
+     * @param options.interpretationLine - where to print the human readable line (defaults to below)
+     * @param options.printCheckDigit - prints the check digit in the interpretation line (defaults to true)
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     */
+    upca(x : number, y : number, data : fieldData, options : LinearBarCodeOptions & {
+        printCheckDigit? : boolean;
+    } = {}) {
+        return this._linearBarCode(x, y, 'upca', data, ZplUPCABarCode, { e : options.printCheckDigit ?? true }, options);
+    }
+
+    /**
+     * Adds an Interleaved 2 of 5 bar code to this label.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param data - data to encode (digits), a variable field placeholder or a serial field
+     * @param options.height - height of the bars
+     * @param options.moduleWidth - width of the narrowest bar (rounded to whole dots)
+     * @param options.ratio - wide bar to narrow bar ratio (2.0 to 3.0)
+     * @param options.orientation - which way to orient the bar code
+     * @param options.interpretationLine - where to print the human readable line (defaults to below)
+     * @param options.checkDigit - calculates and prints a Mod 10 check digit
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     * @throws a RangeError if options.ratio is not between 2.0 and 3.0
+     */
+    interleaved2of5(x : number, y : number, data : fieldData, options : LinearBarCodeOptions & {
+        checkDigit? : boolean;
+    } = {}) {
+        return this._linearBarCode(x, y, 'interleaved2of5', data, ZplInterleaved2of5BarCode, { e : !!options.checkDigit }, options);
+    }
+
+    /**
+     * Adds a Data Matrix (ECC 200 by default) to this label.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param data - data to encode, or a variable field placeholder
+     * @param options.maxSize - approximates the largest module size so that the symbol fits the provided size
+     * @param options.orientation - which way to orient the symbol
+     * @param options.quality - quality level (defaults to 200 for ECC 200)
+     * @param options.columns - number of module columns to encode (the printer decides when not set)
+     * @param options.rows - number of module rows to encode (the printer decides when not set)
+     * @param options.aspect - shape of the symbol, when columns and rows are not set
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     */
+    dataMatrix(x : number, y : number, data : fieldData, options : {
+        maxSize?     : number;
+        orientation? : orientation;
+        quality?     : 0|50|80|100|140|200;
+        columns?     : number;
+        rows?        : number;
+        aspect?      : 'square'|'rectangular';
+    } = {}) {
+        return this._addElement('dataMatrix', x, y, data, options, (x, y) => {
+            const { maxSize, columns, rows, aspect } = options;
+            const orientation = options.orientation ? OrientationFromHumanReadable[options.orientation] : 'N';
+
+            // Module size is based on the largest side of the symbol
+            const size = columns ? { columns, rows : rows ?? columns } : getDataMatrixSymbolSize(sampleFieldData(data), aspect);
+            let elementHeight : number | undefined = undefined;
+            if (maxSize) {
+                elementHeight = Math.max(1, Math.floor(this._toExactDots(maxSize) / Math.max(size.columns, size.rows)));
+            }
+
+            const left = this._toDots(x);
+            const top  = this._toDots(y);
+            const moduleSize = elementHeight || BarCodeFieldDefaults.moduleWidth;
+            this._checkRotatedBounds('Data Matrix', left, top, { width : size.columns * moduleSize, height : size.rows * moduleSize }, orientation);
+
+            this._commandSet
+                .runCommand(ZplFieldOrigin, {
+                    x : left,
+                    y : top,
+                    z : 0 // align from left for ease
+                })
+                .runCommand(ZplDataMatrixBarCode, {
+                    o : orientation,
+                    h : elementHeight,
+                    s : options.quality ?? 200,
+                    c : columns,
+                    r : rows,
+                    a : aspect === 'rectangular' ? 2 : undefined,
+                });
+            this._runFieldData(data);
+            this._commandSet.runCommand(ZplFieldSeparator);
+        });
+    }
+
+    /**
+     * Adds a PDF417 bar code to this label.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param data - data to encode, or a variable field placeholder
+     * @param options.maxSize - approximates the largest module width so that the symbol fits the provided width
+     * @param options.rowHeight - height of each row (defaults to 3 modules when maxSize is set)
+     * @param options.orientation - which way to orient the symbol
+     * @param options.securityLevel - error correction level (0 to 8)
+     * @param options.columns - number of data columns (the printer decides when not set, except with maxSize
+     *                          where they are chosen to keep the symbol roughly square)
+     * @param options.rows - number of rows (the printer decides when not set)
+     * @param options.truncate - truncates the right row indicators and stop pattern
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     */
+    pdf417(x : number, y : number, data : fieldData, options : {
+        maxSize?       : number;
+        rowHeight?     : number;
+        orientation?   : orientation;
+        securityLevel? : number;
+        columns?       : number;
+        rows?          : number;
+        truncate?      : boolean;
+    } = {}) {
+        return this._addElement('pdf417', x, y, data, options, (x, y) => {
+            const { maxSize, rowHeight, securityLevel, rows, truncate } = options;
+            const orientation = options.orientation ? OrientationFromHumanReadable[options.orientation] : 'N';
+            const symbolSize = getPDF417SymbolSize(getPDF417Codewords(sampleFieldData(data), securityLevel), options.columns);
+            // Columns are estimated when not set, and only sent when maxSize depends on them
+            const { columns } = symbolSize;
+
+            let moduleWidth : number | undefined = undefined;
+            if (maxSize) {
+                moduleWidth = Math.min(10, Math.max(1, Math.floor(this._toExactDots(maxSize) / getPDF417ModuleWidth(columns))));
+            }
+
+            const left = this._toDots(x);
+            const top  = this._toDots(y);
+            // Rows default to the bar code height of the printer, truncated symbols drop the right row indicators and most of the stop pattern
+            const modules = truncate ? getPDF417ModuleWidth(columns) - 34 : getPDF417ModuleWidth(columns);
+            const rowHeightInDots = (rowHeight !== undefined) ? this._toDots(rowHeight) : (moduleWidth ? moduleWidth * 3 : BarCodeFieldDefaults.height);
+            this._checkRotatedBounds('PDF417', left, top, {
+                width  : modules * (moduleWidth || BarCodeFieldDefaults.moduleWidth),
+                height : (rows ?? symbolSize.rows) * rowHeightInDots,
+            }, orientation);
+
+            this._commandSet.runCommand(ZplFieldOrigin, {
+                x : left,
+                y : top,
+                z : 0 // align from left for ease
+            });
+            if (moduleWidth) this._commandSet.runCommand(ZplBarCodeFieldDefault, { w : moduleWidth });
+            this._commandSet
+                .runCommand(ZplPDF417BarCode, {
+                    o : orientation,
+                    h : (rowHeight !== undefined || moduleWidth) ? rowHeightInDots : undefined,
+                    s : securityLevel,
+                    c : (options.columns || maxSize) ? columns : undefined,
+                    r : rows,
+                    t : truncate,
+                });
+            this._runFieldData(data);
+            this._commandSet.runCommand(ZplFieldSeparator);
+        });
+    }
+
+    /**
+     * Adds an Aztec code to this label.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param data - data to encode, or a variable field placeholder
+     * @param options.maxSize - approximates the largest magnification level so that the symbol fits the provided size
+     * @param options.orientation - which way to orient the symbol
+     * @param options.errorCorrection - percentage of the symbol used for error correction (1 to 99)
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     */
+    aztec(x : number, y : number, data : fieldData, options : {
+        maxSize?         : number;
+        orientation?     : orientation;
+        errorCorrection? : number;
+    } = {}) {
+        return this._addElement('aztec', x, y, data, options, (x, y) => {
+            const { maxSize, errorCorrection } = options;
+            const orientation = options.orientation ? OrientationFromHumanReadable[options.orientation] : 'N';
+            if (errorCorrection !== undefined && (errorCorrection < 1 || errorCorrection > 99)) {
+                throw new RangeError(`options.errorCorrection should be between 1 and 99, got ${errorCorrection}`);
+            }
+
+            const { size } = getAztecSymbolSize(sampleFieldData(data), errorCorrection);
+            let magnification : number | undefined = undefined;
+            if (maxSize) {
+                magnification = Math.min(10, Math.max(1, Math.floor(this._toExactDots(maxSize) / size)));
+            }
+
+            const left = this._toDots(x);
+            const top  = this._toDots(y);
+            const symbolWidth = size * (magnification || this._defaultMagnification());
+            this._checkRotatedBounds('Aztec', left, top, { width : symbolWidth, height : symbolWidth }, orientation);
+
+            this._commandSet
+                .runCommand(ZplFieldOrigin, {
+                    x : left,
+                    y : top,
+                    z : 0 // align from left for ease
+                })
+                .runCommand(ZplAztecBarCode, {
+                    a : orientation,
+                    b : magnification,
+                    d : errorCorrection,
+                });
+            this._runFieldData(data);
+            this._commandSet.runCommand(ZplFieldSeparator);
+        });
+    }
+
+    /**
+     * Adds a MaxiCode to this label. MaxiCode symbols have a fixed size of roughly 1.11 x 1.05 inches.
+     * 
+     * @param x - x-axis location (distance from left)
+     * @param y - y-axis location (distance from top)
+     * @param data - data to encode (modes 2 and 3 expect the structured carrier message), or a variable field placeholder
+     * @param options.maxSize - throws if the fixed size of the symbol does not fit the provided size
+     * @param options.mode - MaxiCode mode (2 to 6, defaults to 2)
+     * @param options.symbolNumber - position of this symbol in a structured append
+     * @param options.totalSymbols - total number of symbols in a structured append
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     */
+    maxicode(x : number, y : number, data : fieldData, options : {
+        maxSize?      : number;
+        mode?         : 2|3|4|5|6;
+        symbolNumber? : number;
+        totalSymbols? : number;
+    } = {}) {
+        return this._addElement('maxicode', x, y, data, options, (x, y) => {
+            const { maxSize, symbolNumber, totalSymbols } = options;
+            const dpi = this.dpi || 300;
+            if (maxSize && this._toExactDots(maxSize) < inchesToDots(MaxiCodeSize.width, dpi)) {
+                throw new RangeError(`MaxiCode symbols are ${MaxiCodeSize.width} inches wide, which does not fit options.maxSize ${maxSize}`);
+            }
+
+            const left = this._toDots(x);
+            const top  = this._toDots(y);
+            this._checkBounds('MaxiCode', left, top, left + inchesToDots(MaxiCodeSize.width, dpi), top + inchesToDots(MaxiCodeSize.height, dpi));
+
+            this._commandSet
+                .runCommand(ZplFieldOrigin, {
+                    x : left,
+                    y : top,
+                    z : 0 // align from left for ease
+                })
+                .runCommand(ZplMaxiCodeBarCode, {
+                    m : options.mode ?? 2,
+                    n : symbolNumber,
+                    t : totalSymbols,
+                });
+            this._runFieldData(data);
+            this._commandSet.runCommand(ZplFieldSeparator);
+        });
+    }
+
+    /**
+     * Mounts a fragment into this label at an offset, optionally rotated. The fragment is drawn again
+     * when this label is serialized, so later changes to a mounted label are included. Only the elements
+     * of the fragment are mounted, its settings and print quantity are ignored.
+     * 
+     * @param fragment - label, or function drawing a fragment on a label with the units of this label
+     * @param x - x-axis location of the top-left corner of the fragment (distance from left)
+     * @param y - y-axis location of the top-left corner of the fragment (distance from top)
+     * @param options.rotation - clockwise rotation of the fragment, around its top-left corner so that
+     *                           the rotated fragment still starts at (x, y) (0, 90, 180 or 270, defaults to 0)
+     * @param options.data     - data passed to a fragment function
+     * 
+     * @returns the element drawn, to move or remove it later (see elements)
+     * @throws a TypeError if the fragment is not a label or a function, or the rotation is invalid
+     * @throws a TypeError if the fragment is this label, or has this label mounted (which would never end drawing)
+     * @throws a TypeError if a rotated fragment contains images, or symbols that are not previewed (e.g. Data Matrix)
+     */
+    mount<T = any>(fragment : ZplLabel | ZplFragment<T>, x : number, y : number, options : {
+        rotation? : FragmentRotation;
+        data?     : T;
+    } = {}) {
+        if (!(fragment instanceof ZplLabel) && typeof fragment !== 'function') throw new TypeError('fragment should be a ZplLabel or a function');
+
+        const rotation = options.rotation ?? 0;
+        if (![ 0, 90, 180, 270 ].includes(rotation)) throw new TypeError(`Invalid rotation ${rotation}, should be 0, 90, 180 or 270`);
+        if (fragment === this) throw new TypeError('A label cannot be mounted into itself');
+        if (fragment instanceof ZplLabel && fragment._hasMounted(this)) {
+            throw new TypeError('A label cannot be mounted into a label it is mounted into, directly or through other mounted labels');
+        }
+
+        return this._addElement('fragment', x, y, undefined, { fragment, ...options }, (x, y) => {
+            let label : ZplLabel;
+            if (fragment instanceof ZplLabel) {
+                label = fragment;
+            }
+            else {
+                label = new ZplLabel({ unit : this.unit || undefined, dpi : this.dpi || undefined, rounding : this.rounding, fieldData : this.fieldData, encoding : this.encoding });
+                fragment(label, options.data);
+            }
+            label._redrawElements();
+
+            const dpi      = this.dpi || 300;
+            const commands = label._commandSet.getCommands().slice(label._headerLength);
+            const size     = getFragmentSize(commands, dpi);
+            const width    = (label.widthInDots  ?? size.width) as number;
+            const height   = (label.heightInDots ?? size.height) as number;
+
+            const left = this._toDots(x);
+            const top  = this._toDots(y);
+            const [ rotatedWidth, rotatedHeight ] = (rotation % 180) ? [ height, width ] : [ width, height ];
+            this._checkBounds('fragment', left, top, left + rotatedWidth, top + rotatedHeight);
+
+            transformFragmentCommands(commands, { x : left, y : top, rotation, width, height, dpi })
+                .forEach(command => this._commandSet.addCommand(command));
+            this.lastOrientation = undefined;
+        });
+    }
+
+    /**
+     * Private helper to find whether a label is mounted into this label, directly or through other
+     * mounted labels.
+     * 
+     * @param label - label to find
+     * @returns whether the label is mounted
+     */
+    private _hasMounted(label : ZplLabel) : boolean {
+        return this._elements.some(element => {
+            const { fragment } = element.options;
+            return fragment instanceof ZplLabel && (fragment === label || fragment._hasMounted(label));
+        });
+    }
+
+    /**
+     * Sets how many labels to print (^PQ). Serial fields are incremented for each label printed.
+     * 
+     * @param options.quantity   - total quantity of labels to print (defaults to 1)
+     * @param options.replicates - number of copies of each serial number
+     * @param options.pauseEvery - pauses (and cuts, with a cutter) after this number of labels
+     * @param options.cutOnError - cuts after an error label (e.g. RFID void)
+     * 
+     * @returns this ZPLLabel object, for chaining
+     * @throws a RangeError if a count is not a positive integer
+     */
+    print(options : {
+        quantity?   : number;
+        replicates? : number;
+        pauseEvery? : number;
+        cutOnError? : boolean;
+    } = {}) {
+        const { quantity = 1, replicates, pauseEvery, cutOnError } = options;
+        for (const [ name, value, min ] of [ [ 'quantity', quantity, 1 ], [ 'replicates', replicates, 0 ], [ 'pauseEvery', pauseEvery, 0 ] ] as const) {
+            if (value !== undefined && (!Number.isInteger(value) || value < min || value > 99999999)) {
+                throw new RangeError(`options.${name} should be an integer between ${min} and 99999999, got ${value}`);
+            }
+        }
+
+        this._printQuantity = {
+            q : quantity,
+            p : pauseEvery,
+            r : replicates,
+            o : pauseEvery !== undefined ? false : undefined,
+            e : cutOnError,
+        };
+        return this;
+    }
+
+    /**
+     * Private helper to complete the label commands with the label settings, the print quantity and
+     * the end of the format.
+     * 
+     * @returns the complete command set
+     */
+    private _completeCommandSet() : ZplCommandSet {
+        this._redrawElements();
+
+        const commands = this._commandSet.getCommands();
+        const complete = new ZplCommandSet();
+
+        commands.slice(0, this._headerLength).forEach(command => complete.addCommand(command));
+        this._runSettings(complete);
+        this._runFontIdentifiers(complete);
+        commands.slice(this._headerLength).forEach(command => complete.addCommand(command));
+
+        if (this._printQuantity) complete.runCommand(ZplPrintQuantity, this._printQuantity);
+        complete.runCommand(ZplEndFormat);
+        return complete;
+    }
+
+    /**
+     * Computes the commands of this label, including the print quantity and the end of the format.
+     * 
+     * @returns a copy of the commands of this label
+     */
+    toCommandSet() : ZplCommandSet {
+        return this._completeCommandSet();
+    }
+
+    /**
+     * Renders a preview of this label as a PNG file, without a printer (see renderZplToPng).
+     * 
+     * @param options - render options, the resolution defaults to options.dpi of this label
+     * @returns contents of the PNG file
+     */
+    toPNG(options : RenderOptions = {}) : Uint8Array {
+        return renderZplToPng(this._completeCommandSet(), { dpi : this.dpi || 300, ...options });
+    }
+
+    /**
+     * Renders a preview of this label as an SVG document, without a printer (see renderZplToSvg).
+     * 
+     * @param options - render options, the resolution defaults to options.dpi of this label
+     * @returns the SVG document
+     */
+    toSVG(options : RenderOptions = {}) : string {
+        return renderZplToSvg(this._completeCommandSet(), { dpi : this.dpi || 300, ...options });
+    }
+
+    /**
+     * Creates a label from its JSON description (see validateLabelJSON), e.g. a design stored in a database.
+     * 
+     * @param json - label described in JSON, or its JSON string
+     * @returns the label, with an element for each element of the description
+     * @throws a SyntaxError if the JSON string cannot be parsed
+     * @throws a ZplLabelJSONValidationError if a value is invalid, or an element cannot be drawn
+     */
+    static fromJSON(json : string | ZplLabelJSON) : ZplLabel {
+        const { print, elements, ...options } = validateLabelJSON((typeof json === 'string') ? JSON.parse(json) : json);
+        const label = new ZplLabel(options);
+
+        const errors = new ZplLabelJSONValidationError();
+        try {
+            if (print) label.print(print);
+        }
+        catch (error) {
+            errors.add('print', (error as Error).message);
+        }
+        elements.forEach((element, index) => {
+            try {
+                label._drawJSONElement(element);
+            }
+            catch (error) {
+                errors.add(`elements[${index}]`, (error as Error).message);
+            }
+        });
+
+        if (errors.hasErrors()) throw errors;
+        return label;
+    }
+
+    /**
+     * Private helper to draw an element described in JSON, with the drawing method of its type.
+     * 
+     * @param element - element described in JSON
+     */
+    private _drawJSONElement(element : ZplLabelJSONElement) {
+        const { type, x, y } = element;
+        const data    = element.data as fieldData;
+        const options = element.options ?? {};
+        const { width, height, ...rest } = options;
+
+        switch (type) {
+            case 'comment':         this.comment(element.data as string); break;
+            case 'text':            this.text(x, y, data, options); break;
+            case 'textBlock':       this.textBlock(x, y, width, data, rest); break;
+            case 'line':            this.line(x, y, x + width, y + height, rest); break;
+            case 'box':             this.box(x, y, width, height, rest); break;
+            case 'ellipse':         this.ellipse(x, y, width, height, rest); break;
+            case 'image':           this.image(x, y, bitmapFromJSON(element.data as ZplLabelJSONBitmap), options); break;
+            case 'qrcode':          this.qrcode(x, y, data, options); break;
+            case 'code128':         this.code128(x, y, data, options); break;
+            case 'code39':          this.code39(x, y, data, options); break;
+            case 'ean13':           this.ean13(x, y, data, options); break;
+            case 'upca':            this.upca(x, y, data, options); break;
+            case 'interleaved2of5': this.interleaved2of5(x, y, data, options); break;
+            case 'dataMatrix':      this.dataMatrix(x, y, data, options); break;
+            case 'pdf417':          this.pdf417(x, y, data, options); break;
+            case 'aztec':           this.aztec(x, y, data, options); break;
+            case 'maxicode':        this.maxicode(x, y, data, options); break;
+        }
+    }
+
+    /**
+     * Describes this label in JSON, to store its design and create it again with fromJSON. Used by
+     * JSON.stringify. Downloaded fonts are described by their location, called by name once created again.
+     * 
+     * @returns the label described in JSON
+     * @throws a TypeError if a fragment is mounted into this label, fragments cannot be described in JSON
+     */
+    toJSON() : ZplLabelJSON {
+        const json = {} as ZplLabelJSON;
+
+        if (this.unit)                      json.unit        = this.unit;
+        if (this.dpi)                       json.dpi         = this.dpi;
+        if (this.rounding !== 'round')      json.rounding    = this.rounding;
+        if (this.width !== undefined)       json.width       = this.width as number;
+        if (this.height !== undefined)      json.height      = this.height as number;
+        if (this.outOfBounds === 'throw')   json.outOfBounds = this.outOfBounds;
+        if (this._format)                   json.format      = { name : this._format.name, drive : this._format.drive };
+        if (this.fieldData !== 'escape')    json.fieldData   = this.fieldData;
+        if (this.encoding)                  json.encoding    = this.encoding;
+        if (Object.keys(this._settings).length) json.settings = { ...this._settings };
+
+        if (this._printQuantity) {
+            const { q, p, r, e } = this._printQuantity;
+            json.print = { quantity : q };
+            if (r !== undefined) json.print.replicates = r;
+            if (p !== undefined) json.print.pauseEvery = p;
+            if (e !== undefined) json.print.cutOnError = e;
+        }
+
+        json.elements = this._elements.map(element => {
+            if (element.type === 'fragment') throw new TypeError('Fragments mounted into a label cannot be described in JSON');
+
+            const { type, x, y } = element;
+            let data    = element.data as ZplLabelJSONElement['data'];
+            let options : ZplLabelJSONElement['options'] = { ...element.options };
+            const { font } = element.options;
+            if (isZplFontDescription(font)) {
+                options.font = font.toJSON();
+            }
+            else if (typeof font === 'object' && isZplFontDescription(font.name)) {
+                options.font = { ...font, name : font.name.toJSON() };
+            }
+            if (type === 'image') {
+                const { width, height, ...rest } = options;
+                data    = bitmapToJSON((element.data instanceof Uint8Array) ? packedDataToBitmap(element.data, width, height) : element.data as MonochromeBitmap);
+                options = rest;
+            }
+
+            const described : ZplLabelJSONElement = { type, x, y };
+            if (data !== undefined) described.data = data;
+            if (Object.keys(options).length) described.options = options;
+            return described;
+        });
+        return json;
+    }
+
+    /**
+     * Computes the command as a buffer, with field data encoded in options.encoding.
+     * 
+     * @returns the ZPL label as a command
+     * @throws a ZplEncodingError if field data contains characters that cannot be encoded
+     */
+     getCommandBuffer() : Uint8Array {
+        return this._completeCommandSet().getCommandBuffer(this.encoding);
+    }
+
+    /**
+     * Computes the command as a string.
+     * 
+     * @returns the ZPL label as a command
+     */
+    getCommandString() : string {
+        return this._completeCommandSet().getCommandString();
+    }
+
+    /**
+     * Private helper to build the command recalling this stored format with the data of a record.
+     * 
+     * @param record - data for each variable field, by field number
+     * @returns the command set recalling the format
+     * @throws a TypeError if the label is not a stored format, or the record has unknown fields
+     */
+    private _recallCommandSet(record : { [ field : number ] : string }) : ZplCommandSet {
+        if (!this._format) throw new TypeError('Only labels stored as a format (options.format) can be recalled');
+        this._redrawElements();
+
+        const recall = new ZplCommandSet();
+        recall.runCommand(ZplStartFormat);
+        if (this.encoding) recall.runCommand(ZplChangeInternationalFont, { a : ZplEncodingCharacterSets[this.encoding] });
+        recall
+            .runCommand(ZplRecallFormat, { d : this._format.drive, o : this._format.name, x : 'ZPL' })
+            .runCommand(ZplFieldSeparator);
+
+        for (const [ key, value ] of Object.entries(record)) {
+            const field = Number(key);
+            const transforms = this._formatFields.get(field);
+            if (!transforms) throw new TypeError(`Unknown variable field ${key} for format ${this._format.name}`);
+
+            // every field with this number prints the same data, so their elements must agree on it
+            const [ data, ...others ] = transforms.map(transform => transform(value));
+            if (others.some(other => other !== data)) throw new TypeError(`Variable field ${key} is used by elements expecting different data (${[ data, ...others ].join(', ')})`);
+
+            recall.runCommand(ZplFieldNumber, { a : field });
+            this._runFieldDataCommand(recall, data);
+            recall.runCommand(ZplFieldSeparator);
+        }
+
+        recall.runCommand(ZplEndFormat);
+        return recall;
+    }
+
+    /**
+     * Computes the command recalling this stored format (^XF) with the data of a record, as a buffer.
+     * 
+     * @param record - data for each variable field, by field number
+     * @returns the recall command
+     */
+    getRecallCommandBuffer(record : { [ field : number ] : string }) : Uint8Array {
+        return this._recallCommandSet(record).getCommandBuffer(this.encoding);
+    }
+
+    /**
+     * Computes the command recalling this stored format (^XF) with the data of a record, as a string.
+     * 
+     * @param record - data for each variable field, by field number
+     * @returns the recall command
+     */
+    getRecallCommandString(record : { [ field : number ] : string }) : string {
+        return this._recallCommandSet(record).getCommandString();
     }
 }
\ No newline at end of file
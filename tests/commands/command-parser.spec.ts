@@ -0,0 +1,43 @@
+import { parseZpl } from "../../src/commands/command-parser";
+import { ZplFieldData, ZplFieldOrigin, ZplGraphicField, ZplRawData, ZplScalableFont, ZplStartFormat } from "../../src/commands";
+
+describe('parseZpl(zpl)', () =>
+{
+    const zpl = '^XA\r\n^FO10,20,0^A0N,30,30^FDHello ~ World^FS\r\n^FO10,60^FDLast^FS\n^XZ\n';
+
+    test('returns a command set that serializes back to the same string', () => {
+        expect(parseZpl(zpl).getCommandString()).toEqual(zpl);
+    });
+
+    test('returns a command set that serializes back to the same buffer', () => {
+        const buffer = new Uint8Array([ ...'^XA^GFB,3,3,3,'].map(c => c.charCodeAt(0)).concat([ 0x5E, 0x7E, 0x0A ], [ ...'^FS^XZ' ].map(c => c.charCodeAt(0))));
+        expect(parseZpl(buffer).getCommandBuffer()).toEqual(buffer);
+    });
+
+    test('returns typed params for known commands', () => {
+        const commands = parseZpl(zpl).getCommands();
+        expect(commands[0]).toEqual({ schema: ZplStartFormat, params: {} });
+        expect(commands[1]).toEqual({ schema: ZplRawData, params: { data: '\r\n' } });
+        expect(commands[2]).toEqual({ schema: ZplFieldOrigin, params: { x: 10, y: 20, z: 0 } });
+        expect(commands[3]).toEqual({ schema: ZplScalableFont, params: { f: '0', o: 'N', h: 30, w: 30 } });
+        expect(commands[4]).toEqual({ schema: ZplFieldData, params: { a: 'Hello ~ World' }, raw: '^FDHello ~ World' }); // the template rejects ~ in field data
+    });
+
+    test('returns the source of commands that their template does not reproduce', () => {
+        const [ , command ] = parseZpl('^xa^FO10,60^FDLast^FS^XZ').getCommands();
+        expect(command).toEqual({ schema: ZplFieldOrigin, params: { x: 10, y: 60 }, raw: '^FO10,60' });
+        expect(parseZpl('^xa').getCommands()[0]).toEqual({ schema: ZplStartFormat, params: {}, raw: '^xa' });
+    });
+
+    test('returns raw data for unknown commands', () => {
+        const commands = parseZpl('^XA^MMT~JA^XZ').getCommands();
+        expect(commands[1]).toEqual({ schema: ZplRawData, params: { data: '^MMT' } });
+        expect(commands[2]).toEqual({ schema: ZplRawData, params: { data: '~JA' } });
+    });
+
+    test('reads binary graphic field data by byte count', () => {
+        const commands = parseZpl('^GFB,3,3,3,^~\n^FS').getCommands();
+        expect(commands[0]).toEqual({ schema: ZplGraphicField, params: { a: 'B', b: 3, c: 3, d: 3, data: '^~\n' } });
+        expect(commands).toHaveLength(2);
+    });
+});
@@ -0,0 +1,62 @@
+import { retargetDpi } from "../../src/commands/command-retarget";
+import { parseZpl } from "../../src/commands/command-parser";
+import { ZplLabel } from "../../src/zebra-zpl-label";
+import { ZplCommandSet } from "../../src/commands/command-set";
+import { ZplCommandTemplate } from "../../src/commands/command-template";
+import { IntegerBetween } from "../../src/commands/param-types";
+
+describe('retargetDpi(source, fromDpi, toDpi)', () =>
+{
+    test('returns a command set with the dot parameters scaled', () => {
+        const zpl = '^XA^PW812^LL1218^LH10,10^FO100,200^A0N,30,30^FDHello^FS^FO0,0^GB406,203,3,B,2^FS^FO10,10^GC100,4,B^FS^FO10,10^GE150,75,2,B^FS^FO10,10^GD50,50,3,B,L^FS^XZ';
+        const { commandSet, issues } = retargetDpi(parseZpl(zpl), 203, 300);
+        expect(commandSet.getCommandString()).toEqual('^XA^PW1200^LL1800^LH15,15^FO148,296,^A0N,44,44^FDHello^FS^FO0,0,^GB600,300,4,B,2^FS^FO15,15,^GC148,6,B^FS^FO15,15,^GE222,111,3,B^FS^FO15,15,^GD74,74,4,B,L^FS^XZ');
+        expect(issues).toEqual([]);
+    });
+
+    test('returns the nearest valid module widths and magnifications, and reports them', () => {
+        const { commandSet, issues } = retargetDpi(parseZpl('^XA^BY2,3,100^FO0,0^BQN,2,4^FDQA,test^FS^BY3^XZ'), 203, 600);
+        expect(commandSet.getCommandString()).toEqual('^XA^BY6,3,296^FO0,0,^BQN,2,10,,^FDQA,test^FS^BY9,,^XZ');
+        expect(issues).toEqual([
+            { index: 1, command: '^BY', message: 'module width (in dots) 2 scales to 5.91, rounded to 6' },
+            { index: 3, command: '^BQ', message: 'magnification factor 4 scales to 11.82, rounded to 10' },
+            { index: 6, command: '^BY', message: 'module width (in dots) 3 scales to 8.87, rounded to 9' },
+        ]);
+    });
+
+    test('returns the bar code heights, text blocks and label shifts scaled', () => {
+        const zpl = '^XA^LS10^LT5^BY2^FO0,0^BCN,100^FDA^FS^FO0,0^FB200,2,0,L,10^FDB^FS^FO0,0^BXN,5,200^FDC^FS^XZ';
+        const { commandSet, issues } = retargetDpi(parseZpl(zpl), 203, 300);
+        expect(commandSet.getCommandString()).toEqual('^XA^LS15^LT7^BY3,,^FO0,0,^BCN,148,,,,^FDA^FS^FO0,0,^FB296,2,0,L,15^FDB^FS^FO0,0,^BXN,7,200,,,,,^FDC^FS^XZ');
+        expect(issues).toEqual([
+            { index: 3, command: '^BY', message: 'module width (in dots) 2 scales to 2.96, rounded to 3' },
+            { index: 13, command: '^BX', message: 'dimensional height of individual symbol elements (in dots) 5 scales to 7.39, rounded to 7' },
+        ]);
+    });
+
+    test('reports the parameters in dots it does not scale', () => {
+        const command = new ZplCommandTemplate<{ a: number }>('^ZZa', { a: { type: IntegerBetween(0, 100), description: 'offset (in dots)' } });
+        const { commandSet, issues } = retargetDpi(new ZplCommandSet().runCommand(command, { a: 10 }), 203, 300);
+        expect(commandSet.getCommandString()).toEqual('^ZZ10');
+        expect(issues).toEqual([ { index: 0, command: '^ZZ', message: 'offset (in dots) 10 is not scaled' } ]);
+    });
+
+    test('reports values out of range and bitmaps', () => {
+        const { commandSet, issues } = retargetDpi(parseZpl('^XA^FO0,0^GC10,2,B^FS^FO0,0^GFA,1,1,1,FF^FS^XZ'), 300, 152);
+        expect(commandSet.getCommandString()).toEqual('^XA^FO0,0,^GC5,2,B^FS^FO0,0,^GFA,1,1,1,FF^FS^XZ');
+        expect(issues).toEqual([
+            { index: 2, command: '^GC', message: 'border thickness (in dots) 2 scales to 1.01, out of range (2)' },
+            { index: 5, command: '^GF', message: 'bitmaps are not scaled' },
+        ]);
+    });
+
+    test('retargets a label', () => {
+        const label = new ZplLabel({ width: 406 });
+        label.box(10, 10, 100, 50);
+        expect(retargetDpi(label, 203, 300).commandSet.getCommandString()).toEqual('^XA^PW600^FO15,15,0^GB148,74,1,B,0^FS^XZ');
+    });
+
+    test('throws if a resolution is not a positive number', () => {
+        expect(() => retargetDpi(parseZpl('^XA^XZ'), 0, 300)).toThrow(RangeError);
+    });
+});
@@ -1,4 +1,5 @@
 import { validateZplParameterValue, ZplCommandTemplate } from "../../src/commands/command-template";
+import { ZplParameterTypeBooleanValue, ZplParameterTypeFieldData } from "../../src/commands/param-types";
 
 describe('validateZplParameterValue(type, value)', () =>
 {
@@ -107,6 +108,13 @@ describe('class ZplCommandTemplate', () => {
             expect(schema.getCommandString({})).toEqual('^AZ,,');
             expect(schema.getCommandString({ z : 'c' })).toEqual('^AZ,,c');
         });
+
+        test('throws if field data contains command prefixes', () => {
+            const fieldData = new ZplCommandTemplate<{ a: string }>('^FDa', { a : { type : new ZplParameterTypeFieldData() } });
+            expect(fieldData.getCommandString({ a : 'A_5EB' })).toEqual('^FDA_5EB');
+            expect(() => fieldData.getCommandString({ a : 'A^FS^XZ' })).toThrow(TypeError);
+            expect(() => fieldData.getCommandBuffer({ a : '~JR' })).toThrow(TypeError);
+        });
     });
 
     describe('getCommandBuffer(params)', () => {
@@ -121,4 +129,38 @@ describe('class ZplCommandTemplate', () => {
             expect(schema.getCommandBuffer({ x : 'LONG', y : 329 })).toHaveLength(12);
         });
     });
-});
\ No newline at end of file
+
+    describe('constructor(command, schema)', () => {
+        test('does not split longer parameter keys on shorter parameter keys', () => {
+            const schema = new ZplCommandTemplate<{ d: string, a: string, data: string }>('^ZZd,a,data', {
+                d    : { type : 'string' },
+                a    : { type : 'string' },
+                data : { type : 'string' },
+            });
+            expect(schema.getCommandString({ d : '1', a : '2', data : 'DATA' })).toEqual('^ZZ1,2,DATA');
+        });
+    });
+
+    describe('parseParams(text)', () => {
+        const schema = new ZplCommandTemplate<{ f?: string, o?: string, y?: number, b?: boolean, z?: string }>('^AZfo,y,b,z', {
+            f : { type : 'string' },
+            o : { type : 'string' },
+            y : { type : 'number' },
+            b : { type : new ZplParameterTypeBooleanValue('Y', 'N') },
+            z : { type : 'string' },
+        });
+
+        test('returns the parameters read from the text of the command', () => {
+            expect(schema.parseParams('0N,329,Y,a,b')).toEqual({ f : '0', o : 'N', y : 329, b : true, z : 'a,b' });
+        });
+
+        test('returns undefined parameters when they are omitted', () => {
+            expect(schema.parseParams('0,,N')).toEqual({ f : '0', b : false });
+            expect(schema.parseParams('')).toEqual({});
+        });
+
+        test('returns the text of values that do not fit their type', () => {
+            expect(schema.parseParams('0N,a,X')).toEqual({ f : '0', o : 'N', y : 'a', b : 'X' });
+        });
+    });
+});
@@ -1,4 +1,4 @@
-import { ZplParameterTypeIntegerRange, ZplParameterTypeAlphanumericString } from "../../src/commands/param-types";
+import { ZplParameterTypeIntegerRange, ZplParameterTypeAlphanumericString, ZplParameterTypeFieldData } from "../../src/commands/param-types";
 
 describe('ZplParameterTypeIntegerRange', () => {
     describe('constructor(min, max)', () => {
@@ -75,4 +75,19 @@ describe('ZplParameterTypeAlphanumericString', () => {
             });
         })
     });
-});
\ No newline at end of file
+});
+describe('ZplParameterTypeFieldData', () => {
+    describe('validate(value)', () => {
+        const fieldData = new ZplParameterTypeFieldData();
+
+        test('returns a string when [value] contains command prefixes', () => {
+            expect(fieldData.validate('A^FS')).not.toBeUndefined();
+            expect(fieldData.validate('~JA')).not.toBeUndefined();
+            expect(fieldData.validate(4)).not.toBeUndefined();
+        });
+
+        test('returns nothing when [value] is safe field data', () => {
+            expect(fieldData.validate('Hello, World! _5E')).toBeUndefined();
+        });
+    });
+});
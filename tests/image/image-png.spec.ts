@@ -0,0 +1,78 @@
+import { deflateSync } from 'zlib';
+
+import { decodePng, encodeMonochromePng } from "../../src/image/image-png";
+import { computeCRCTable, computeCRCFromTable } from "../../src/utils/utils-crc";
+
+const CRC_TABLE = computeCRCTable();
+
+function chunk(type : string, data : number[]) : number[] {
+    const typeAndData = new Uint8Array([ ...type.split('').map(c => c.charCodeAt(0)), ...data ]);
+    const length = data.length;
+    const crc = computeCRCFromTable(typeAndData, CRC_TABLE);
+    return [
+        (length >>> 24) & 0xFF, (length >>> 16) & 0xFF, (length >>> 8) & 0xFF, length & 0xFF,
+        ...typeAndData,
+        (crc >>> 24) & 0xFF, (crc >>> 16) & 0xFF, (crc >>> 8) & 0xFF, crc & 0xFF,
+    ];
+}
+
+function png(width : number, height : number, bitDepth : number, colorType : number, scanlines : number[], extraChunks : number[] = []) : Uint8Array {
+    const header = [ 0, 0, 0, width, 0, 0, 0, height, bitDepth, colorType, 0, 0, 0 ];
+    return new Uint8Array([
+        137, 80, 78, 71, 13, 10, 26, 10,
+        ...chunk('IHDR', header),
+        ...extraChunks,
+        ...chunk('IDAT', [ ...deflateSync(new Uint8Array(scanlines)) ]),
+        ...chunk('IEND', []),
+    ]);
+}
+
+describe('decodePng(png)', () => {
+    test('throws if [png] does not have a PNG signature', () => {
+        expect(() => decodePng(new Uint8Array([ 1, 2, 3 ]))).toThrow(TypeError);
+    });
+
+    test('decodes 8-bit RGBA images', () => {
+        const image = decodePng(png(2, 1, 8, 6, [ 0, 255, 0, 0, 255, 0, 0, 255, 128 ]));
+        expect(image.width).toEqual(2);
+        expect(image.height).toEqual(1);
+        expect([ ...image.data ]).toEqual([ 255, 0, 0, 255, 0, 0, 255, 128 ]);
+    });
+
+    test('decodes 1-bit grayscale images', () => {
+        const image = decodePng(png(3, 1, 1, 0, [ 0, 0b10100000 ]));
+        expect([ ...image.data ]).toEqual([ 255, 255, 255, 255, 0, 0, 0, 255, 255, 255, 255, 255 ]);
+    });
+
+    test('decodes indexed images with transparency', () => {
+        const image = decodePng(png(2, 1, 8, 3, [ 0, 1, 0 ], [
+            ...chunk('PLTE', [ 0, 0, 0, 255, 255, 255 ]),
+            ...chunk('tRNS', [ 0 ]),
+        ]));
+        expect([ ...image.data ]).toEqual([ 255, 255, 255, 255, 0, 0, 0, 0 ]);
+    });
+
+    test('reverses scanline filters', () => {
+        // Row 1 uses the sub filter, row 2 uses the up filter and row 3 uses the paeth filter
+        const image = decodePng(png(2, 3, 8, 0, [ 1, 10, 5, 2, 1, 1, 4, 0, 0 ]));
+        expect([ ...image.data ].filter((_, i) => i % 4 === 0)).toEqual([ 10, 15, 11, 16, 11, 16 ]);
+    });
+});
+
+describe('encodeMonochromePng(bitmap, dpi)', () => {
+    test('encodes a 1-bit grayscale image with black set bits', () => {
+        const bitmap = { width: 10, height: 2, bytesPerRow: 2, data: new Uint8Array([ 0xF0, 0x00, 0x00, 0xC0 ]) };
+        const image = decodePng(encodeMonochromePng(bitmap));
+        expect(image.width).toEqual(10);
+        expect([ ...image.data ].filter((_, i) => i % 4 === 0)).toEqual([
+            0, 0, 0, 0, 255, 255, 255, 255, 255, 255,
+            255, 255, 255, 255, 255, 255, 255, 255, 0, 0,
+        ]);
+    });
+
+    test('stores the resolution in a pHYs chunk', () => {
+        const png = encodeMonochromePng({ width: 1, height: 1, bytesPerRow: 1, data: new Uint8Array(1) }, 254);
+        const physical = Buffer.from(png).indexOf('pHYs');
+        expect(Buffer.from(png).readUInt32BE(physical + 4)).toEqual(10000);
+    });
+});
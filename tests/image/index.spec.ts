@@ -0,0 +1,50 @@
+import { convertImageToBitmap, rasterImageToGrayscale } from "../../src/image";
+
+function rgba(width : number, height : number, gray : (x : number, y : number) => number) {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            data.set([ gray(x, y), gray(x, y), gray(x, y), 255 ], (y * width + x) * 4);
+        }
+    }
+    return { width, height, data };
+}
+
+describe('rasterImageToGrayscale(image)', () => {
+    test('composites transparent pixels onto white', () => {
+        const image = { width: 1, height: 1, data: new Uint8ClampedArray([ 0, 0, 0, 0 ]) };
+        expect([ ...rasterImageToGrayscale(image).data ]).toEqual([ 255 ]);
+    });
+});
+
+describe('convertImageToBitmap(image, options)', () => {
+    const halfBlack = rgba(16, 2, x => x < 8 ? 0 : 255);
+
+    test('keeps one dot per pixel when no size is provided', () => {
+        const bitmap = convertImageToBitmap(halfBlack);
+        expect(bitmap.width).toEqual(16);
+        expect([ ...bitmap.data ]).toEqual([ 0xFF, 0x00, 0xFF, 0x00 ]);
+    });
+
+    test('resizes to the dot size calculated from the unit and dpi, keeping the aspect ratio', () => {
+        const bitmap = convertImageToBitmap(halfBlack, { width: 0.16, unit: 'in', dpi: 200, resize: 'nearest' });
+        expect(bitmap.width).toEqual(32);
+        expect(bitmap.height).toEqual(4);
+        expect([ ...bitmap.data.subarray(0, 4) ]).toEqual([ 0xFF, 0xFF, 0x00, 0x00 ]);
+    });
+
+    test('inverts the printed dots', () => {
+        const bitmap = convertImageToBitmap(halfBlack, { invert: true });
+        expect([ ...bitmap.data ]).toEqual([ 0x00, 0xFF, 0x00, 0xFF ]);
+    });
+
+    test('dithers mid-tones into a pattern with the matching density', () => {
+        const gray = rgba(64, 64, () => 128);
+        for (const dither of [ 'bayer', 'floyd-steinberg' ] as const) {
+            const bitmap = convertImageToBitmap(gray, { dither });
+            const printed = [ ...bitmap.data ].reduce((count, byte) => count + byte.toString(2).split('1').length - 1, 0);
+            expect(printed / (64 * 64)).toBeCloseTo(0.5, 1);
+        }
+        expect([ ...convertImageToBitmap(gray, { dither: 'threshold' }).data ].every(byte => byte === 0)).toBe(true);
+    });
+});
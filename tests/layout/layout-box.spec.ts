@@ -0,0 +1,61 @@
+import { ZplLayoutBox } from "../../src/layout";
+
+const rect = ({ x, y, width, height } : ZplLayoutBox) => ({ x, y, width, height });
+
+describe('ZplLayoutBox', () => {
+    test('returns the edges and center of the box', () => {
+        const box = new ZplLayoutBox(10, 20, 100, 50);
+        expect([ box.right, box.bottom, box.centerX, box.centerY ]).toEqual([ 110, 70, 60, 45 ]);
+    });
+
+    test('throws if the box size is negative', () => {
+        expect(() => new ZplLayoutBox(0, 0, -1, 10)).toThrow(RangeError);
+    });
+
+    describe('pad(padding)', () => {
+        test('returns the box within the padding', () => {
+            const box = new ZplLayoutBox(0, 0, 100, 50);
+            expect(rect(box.pad(5))).toEqual({ x: 5, y: 5, width: 90, height: 40 });
+            expect(rect(box.pad({ left: 10, bottom: 20 }))).toEqual({ x: 10, y: 0, width: 90, height: 30 });
+        });
+
+        test('throws if the padding is larger than the box', () => {
+            expect(() => new ZplLayoutBox(0, 0, 100, 50).pad(30)).toThrow(RangeError);
+        });
+    });
+
+    describe('rows(rows, options) and columns(columns, options)', () => {
+        test('returns equal rows and columns separated by gaps', () => {
+            const box = new ZplLayoutBox(0, 0, 100, 50);
+            expect(box.rows(2, { gap: 10 }).map(rect)).toEqual([
+                { x: 0, y: 0,  width: 100, height: 20 },
+                { x: 0, y: 30, width: 100, height: 20 },
+            ]);
+            expect(box.columns(4).map(column => column.x)).toEqual([ 0, 25, 50, 75 ]);
+        });
+
+        test('returns fixed tracks and shares the remaining space between fractional tracks', () => {
+            const box = new ZplLayoutBox(0, 0, 100, 50);
+            expect(box.columns([ 10, '1fr', '3fr' ], { gap: 10 }).map(column => [ column.x, column.width ])).toEqual([ [ 0, 10 ], [ 20, 17.5 ], [ 47.5, 52.5 ] ]);
+        });
+
+        test('throws if the fixed tracks do not fit the box', () => {
+            const box = new ZplLayoutBox(0, 0, 100, 50);
+            expect(() => box.rows([ 30, 30 ])).toThrow(RangeError);
+            expect(() => box.rows(0)).toThrow(RangeError);
+            expect(() => box.rows([ 'auto' as any ])).toThrow(TypeError);
+        });
+    });
+
+    describe('grid(rows, columns, options)', () => {
+        test('returns the cells row by row', () => {
+            const cells = new ZplLayoutBox(0, 0, 100, 50).grid(2, 3, { rowGap: 10, columnGap: 5 });
+            expect(cells.length).toEqual(2);
+            expect(cells[1].map(rect)).toEqual([
+                { x: 0,  y: 30, width: 30, height: 20 },
+                { x: 35, y: 30, width: 30, height: 20 },
+                { x: 70, y: 30, width: 30, height: 20 },
+            ]);
+        });
+    });
+});
@@ -0,0 +1,37 @@
+import { getFragmentSize, transformFragmentCommands } from "../../src/layout";
+import { ZplCommand, ZplCommandSet } from "../../src/commands/command-set";
+import { ZplFieldOrigin, ZplFieldSeparator, ZplGraphicBox, ZplGraphicDiagonalLine } from "../../src/commands";
+
+const fields = () => new ZplCommandSet()
+    .runCommand(ZplFieldOrigin, { x: 10, y: 5, z: 0 })
+    .runCommand(ZplGraphicBox, { w: 40, h: 20, t: 1, c: 'B', r: 0 })
+    .runCommand(ZplFieldSeparator)
+    .runCommand(ZplFieldOrigin, { x: 0, y: 30, z: 0 })
+    .runCommand(ZplGraphicDiagonalLine, { w: 10, h: 20, t: 1, c: 'B', o: 'R' })
+    .runCommand(ZplFieldSeparator)
+    .getCommands();
+
+const toString = (commands : Array<ZplCommand<any>>) => {
+    const commandSet = new ZplCommandSet();
+    commands.forEach(command => commandSet.addCommand(command));
+    return commandSet.getCommandString();
+};
+
+describe('getFragmentSize(commands, dpi)', () => {
+    test('returns the size from the origin to the edges of the fields', () => {
+        expect(getFragmentSize(fields(), 203)).toEqual({ width: 50, height: 50 });
+        expect(getFragmentSize([], 203)).toEqual({ width: 0, height: 0 });
+    });
+});
+
+describe('transformFragmentCommands(commands, options)', () => {
+    test('returns the fields at the offset', () => {
+        const commands = transformFragmentCommands(fields(), { x: 100, y: 200, rotation: 0, width: 50, height: 50, dpi: 203 });
+        expect(toString(commands)).toEqual('^FO110,205,0^GB40,20,1,B,0^FS^FO100,230,0^GD10,20,1,B,R^FS');
+    });
+
+    test('returns the fields rotated within the size of the fragment', () => {
+        const commands = transformFragmentCommands(fields(), { x: 0, y: 0, rotation: 90, width: 50, height: 50, dpi: 203 });
+        expect(toString(commands)).toEqual('^FO25,10,0^GB20,40,1,B,0^FS^FO0,0,0^GD20,10,1,B,L^FS');
+    });
+});
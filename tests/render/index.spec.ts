@@ -0,0 +1,94 @@
+import { renderZplToBitmap, renderZplToPng, renderZplToSvg } from "../../src/render";
+import { decodePng } from "../../src/image";
+import { MonochromeBitmap } from "../../src/utils/utils-graphics";
+
+function isBlack(bitmap : MonochromeBitmap, x : number, y : number) {
+    return !!(bitmap.data[y * bitmap.bytesPerRow + (x >> 3)] & (0x80 >> (x & 7)));
+}
+
+describe('renderZplToBitmap(zpl, options)', () => {
+    test('returns a bitmap of the label size', () => {
+        const bitmap = renderZplToBitmap('^XA^PW100^LL50^XZ');
+        expect(bitmap.width).toEqual(100);
+        expect(bitmap.height).toEqual(50);
+        expect(renderZplToBitmap('^XA^XZ', { dpi: 203 }).width).toEqual(812);
+    });
+
+    test('draws box borders and fills', () => {
+        const bitmap = renderZplToBitmap('^XA^PW100^LL100^FO10,10^GB50,50,5^FS^FO70,70^GB20,20,20^FS^XZ');
+        expect(isBlack(bitmap, 12, 30)).toBe(true);
+        expect(isBlack(bitmap, 30, 30)).toBe(false);
+        expect(isBlack(bitmap, 80, 80)).toBe(true);
+    });
+
+    test('rounds box corners', () => {
+        const bitmap = renderZplToBitmap('^XA^PW100^LL100^FO0,0^GB80,80,40,B,8^FS^XZ');
+        expect(isBlack(bitmap, 1, 1)).toBe(false);
+        expect(isBlack(bitmap, 40, 40)).toBe(true);
+    });
+
+    test('draws circles, ellipses and diagonal lines', () => {
+        const bitmap = renderZplToBitmap('^XA^PW100^LL100^FO0,0^GC40,2^FS^FO50,0^GE40,20,20^FS^FO0,50^GD40,40,4,B,L^FS^XZ');
+        expect(isBlack(bitmap, 20, 0)).toBe(true);
+        expect(isBlack(bitmap, 20, 20)).toBe(false);
+        expect(isBlack(bitmap, 70, 10)).toBe(true);
+        expect(isBlack(bitmap, 1, 51)).toBe(true);
+        expect(isBlack(bitmap, 38, 51)).toBe(false);
+    });
+
+    test('inverts reverse printed fields', () => {
+        const bitmap = renderZplToBitmap('^XA^PW100^LL100^FO0,0^GB40,40,40^FS^FO20,20^FR^GB40,40,40^FS^XZ');
+        expect(isBlack(bitmap, 10, 10)).toBe(true);
+        expect(isBlack(bitmap, 30, 30)).toBe(false);
+        expect(isBlack(bitmap, 50, 50)).toBe(true);
+    });
+
+    test('draws text within the field', () => {
+        const bitmap = renderZplToBitmap('^XA^PW200^LL100^FO10,10^A0N,40,40^FDHI^FS^XZ');
+        const black = (left : number, top : number, right : number, bottom : number) => {
+            let count = 0;
+            for (let y = top; y < bottom; y++) for (let x = left; x < right; x++) count += +isBlack(bitmap, x, y);
+            return count;
+        };
+        expect(black(10, 10, 50, 50)).toBeGreaterThan(0);
+        expect(black(0, 0, 200, 10) + black(60, 0, 200, 100)).toEqual(0);
+    });
+
+    test('draws QR codes at the size of their version', () => {
+        const bitmap = renderZplToBitmap('^XA^PW100^LL100^FO0,0^BQN,2,2^FDQA,HELLO^FS^XZ');
+        expect(isBlack(bitmap, 0, 9)).toBe(false);  // margin of the printer above the symbol
+        expect(isBlack(bitmap, 0, 10)).toBe(true);  // finder pattern
+        expect(isBlack(bitmap, 41, 10)).toBe(true);  // top right finder pattern, version 1 is 21 modules
+        expect(isBlack(bitmap, 42, 10)).toBe(false);
+    });
+
+    test('draws linear bar codes', () => {
+        const bitmap = renderZplToBitmap('^XA^PW100^LL100^BY1^FO0,0^BCN,10,N^FDA^FS^XZ');
+        expect([ 0, 1, 2, 3 ].map(x => isBlack(bitmap, x, 5))).toEqual([ true, true, false, true ]);
+        expect(isBlack(bitmap, 0, 10)).toBe(false);
+    });
+
+    test('scales the label to the output resolution', () => {
+        const bitmap = renderZplToBitmap('^XA^PW100^LL50^FO0,0^GB10,10,10^FS^XZ', { dpi: 200, outputDpi: 400 });
+        expect(bitmap.width).toEqual(200);
+        expect(isBlack(bitmap, 19, 19)).toBe(true);
+        expect(isBlack(bitmap, 20, 20)).toBe(false);
+    });
+});
+
+describe('renderZplToPng(zpl, options)', () => {
+    test('returns a PNG of the label', () => {
+        const image = decodePng(renderZplToPng('^XA^PW16^LL8^FO0,0^GB8,8,8^FS^XZ'));
+        expect(image.width).toEqual(16);
+        expect(image.data[0]).toEqual(0);
+        expect(image.data[8 * 4]).toEqual(255);
+    });
+});
+
+describe('renderZplToSvg(zpl, options)', () => {
+    test('returns an SVG of the label', () => {
+        const document = renderZplToSvg('^XA^FO0,0^GB8,8,8^FS^XZ', { dpi: 200 });
+        expect(document).toMatch(/^<svg [^>]*width="384" height="576" viewBox="0 0 800 1200"/);
+        expect(document).toContain('<path d="M0,0H8V8H0Z"');
+    });
+});
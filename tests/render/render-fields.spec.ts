@@ -0,0 +1,51 @@
+import { getRenderFields } from "../../src/render/render-fields";
+import { parseZpl } from "../../src/commands/command-parser";
+
+describe('getRenderFields(commandSet, dpi)', () => {
+    test('returns the label size and graphic fields with their defaults', () => {
+        const label = getRenderFields(parseZpl('^XA^PW400^LL200^LH10,20^FO5,5^GB100,50,3,,2^FS^FO0,0^GC30^FS^XZ'));
+        expect(label.width).toEqual(400);
+        expect(label.height).toEqual(200);
+        expect(label.fields).toEqual([
+            { type: 'box', x: 15, y: 25, reverse: false, width: 100, height: 50, thickness: 3, color: 'B', rounding: 2 },
+            { type: 'ellipse', x: 10, y: 20, reverse: false, width: 30, height: 30, thickness: 1, color: 'B' },
+        ]);
+    });
+
+    test('returns reverse fields for ^FR and ^LR', () => {
+        const label = getRenderFields(parseZpl('^XA^FO0,0^FR^GB10,10^FS^FO0,0^GB10,10^FS^LRY^FO0,0^GB10,10^FS^XZ'));
+        expect(label.fields.map(field => field.reverse)).toEqual([ true, false, true ]);
+    });
+
+    test('returns text fields with their font, orientation and lines', () => {
+        const [ field ] = getRenderFields(parseZpl('^XA^FWR^FO10,10^A0,20^FDAB^FS^XZ')).fields;
+        expect(field).toMatchObject({ type: 'text', orientation: 'R', font: { name: '0', height: 20, width: 20 }, lineHeight: 20 });
+        expect(field.type === 'text' && field.lines).toEqual([ { text: 'AB', x: 0, y: 0, advances: [ 14.44, 14.44 ], gaps: [ 14.44 * 0.15, 14.44 * 0.15 ] } ]);
+    });
+
+    test('returns text with hex escapes decoded', () => {
+        const [ field ] = getRenderFields(parseZpl('^XA^FO0,0^FH_^FDA_5EB^FS^FO0,0^FH#^FDC#7ED^FS^XZ')).fields;
+        expect(field.type === 'text' && field.lines[0].text).toEqual('A^B');
+    });
+
+    test('returns wrapped lines for field blocks', () => {
+        const [ field ] = getRenderFields(parseZpl('^XA^FO0,0^AAN,9,5^FB36,3,2,R^FDAB CD EF\\&GH^FS^XZ')).fields;
+        expect(field.type === 'text' && field.lines.map(({ text, x, y }) => ({ text, x, y }))).toEqual([
+            { text: 'AB CD', x: 6, y: 0 },
+            { text: 'EF', x: 24, y: 11 },
+            { text: 'GH', x: 24, y: 22 },
+        ]);
+    });
+
+    test('returns linear bar codes with their bars and interpretation line', () => {
+        const [ field ] = getRenderFields(parseZpl('^XA^BY2,3,40^FO10,10^BCR,,Y,Y^FDABC^FS^XZ')).fields;
+        expect(field).toMatchObject({ type: 'barcode', x: 10, y: 10, orientation: 'R', width: 136, height: 60, lineHeight: 18 });
+        expect(field.type === 'barcode' && field.bars[0]).toEqual({ x: 0, y: 20, width: 4, height: 40 });
+        expect(field.type === 'barcode' && field.lines[0].text).toEqual('ABC');
+    });
+
+    test('returns QR codes with the data of their field, below the margin of the printer', () => {
+        const [ field ] = getRenderFields(parseZpl('^XA^FO0,0^BQN,2,4^FDHA,12345^FS^XZ')).fields;
+        expect(field).toEqual({ type: 'qrcode', x: 0, y: 10, reverse: false, data: '12345', errorCorrection: 'H', magnification: 4, model: 2 });
+    });
+});
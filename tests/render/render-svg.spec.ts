@@ -0,0 +1,42 @@
+import { drawLabelSvg } from "../../src/render/render-svg";
+import { getRenderFields } from "../../src/render/render-fields";
+import { parseZpl } from "../../src/commands/command-parser";
+
+function svg(zpl : string) {
+    const label = getRenderFields(parseZpl(zpl), 203);
+    return drawLabelSvg(label, label.width ?? 100, label.height ?? 100, 203);
+}
+
+describe('drawLabelSvg(label, width, height, dpi)', () => {
+    test('returns a document sized in CSS pixels with a view box in dots', () => {
+        expect(svg('^XA^PW406^LL203^XZ')).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="192" height="96" viewBox="0 0 406 203"/);
+    });
+
+    test('returns boxes and ellipses as paths with their borders cut out', () => {
+        const document = svg('^XA^PW100^LL100^FO10,10^GB50,40,5^FS^FO0,0^GB32,32,2,B,8^FS^FO0,0^GE40,20,20^FS^XZ');
+        expect(document).toContain('<path d="M10,10H60V50H10ZM15,15H55V45H15Z" fill-rule="evenodd" fill="#000"/>');
+        expect(document).toContain('<path d="M16,0H16A16,16 0 0 1 32,16V16A16,16 0 0 1 16,32H16A16,16 0 0 1 0,16V16A16,16 0 0 1 16,0Z'
+            + 'M16,2H16A14,14 0 0 1 30,16V16A14,14 0 0 1 16,30H16A14,14 0 0 1 2,16V16A14,14 0 0 1 16,2Z"');
+        expect(document).toContain('<path d="M0,10A20,10 0 1 0 40,10A20,10 0 1 0 0,10Z" fill-rule="evenodd" fill="#000"/>');
+    });
+
+    test('returns diagonal lines as polygons', () => {
+        expect(svg('^XA^FO0,0^GD40,20,4,W,L^FS^XZ')).toContain('<polygon points="0,0 4,0 40,20 36,20" fill="#fff"/>');
+    });
+
+    test('returns reverse fields blended to invert what they cover', () => {
+        expect(svg('^XA^FO0,0^FR^GB10,10,10^FS^XZ')).toContain('<path d="M0,0H10V10H0Z" fill-rule="evenodd" fill="#fff" style="mix-blend-mode:difference"/>');
+    });
+
+    test('returns text with its orientation', () => {
+        const document = svg('^XA^FO10,20^A0B,20,20^FDA&B^FS^XZ');
+        expect(document).toContain('<g transform="translate(10,63.32) rotate(270)" fill="#000">');
+        expect(document).toMatch(/<text x="0" y="16" font-family="Helvetica, Arial, sans-serif" font-weight="bold" font-size="20" textLength="[0-9.]+" lengthAdjust="spacingAndGlyphs" xml:space="preserve">A&#38;B<\/text>/);
+    });
+
+    test('returns bar codes and graphic fields as paths', () => {
+        const document = svg('^XA^BY1^FO0,0^BCN,10,N^FDA^FS^FO0,0^GFA,2,2,1,C0C0^FS^XZ');
+        expect(document).toContain('<path d="M0,0h2v10h-2ZM3,0h1v10h-1Z');
+        expect(document).toContain('<path d="M0,0h2v1h-2ZM0,1h2v1h-2Z" fill="#000"/>');
+    });
+});
@@ -0,0 +1,76 @@
+import { computeMod10CheckDigit, normalizeLinearBarCodeData, encodeLinearBarCode, getDataMatrixSymbolSize, getAztecSymbolSize } from "../../src/utils/utils-barcodes";
+
+describe('computeMod10CheckDigit(digits)', () => {
+    test('returns the EAN/UPC check digit', () => {
+        expect(computeMod10CheckDigit('400638133393')).toEqual(1);
+        expect(computeMod10CheckDigit('03600029145')).toEqual(2);
+    });
+});
+
+describe('normalizeLinearBarCodeData(symbology, data)', () => {
+    test('returns [data] when it is valid for the symbology', () => {
+        expect(normalizeLinearBarCodeData('code128', 'Hello, World!')).toEqual('Hello, World!');
+        expect(normalizeLinearBarCodeData('code39', 'CODE 39-$/+%.')).toEqual('CODE 39-$/+%.');
+        expect(normalizeLinearBarCodeData('interleaved2of5', '0123')).toEqual('0123');
+    });
+
+    test('throws when [data] is outside of the character set', () => {
+        expect(() => normalizeLinearBarCodeData('code128', 'café')).toThrow(TypeError);
+        expect(() => normalizeLinearBarCodeData('code39', 'lowercase')).toThrow(TypeError);
+        expect(() => normalizeLinearBarCodeData('ean13', '12345')).toThrow(TypeError);
+        expect(() => normalizeLinearBarCodeData('upca', '1234567890123')).toThrow(TypeError);
+    });
+
+    test('strips the check digit from EAN-13 and UPC-A data once verified', () => {
+        expect(normalizeLinearBarCodeData('ean13', '4006381333931')).toEqual('400638133393');
+        expect(normalizeLinearBarCodeData('upca', '03600029145')).toEqual('03600029145');
+    });
+});
+
+describe('encodeLinearBarCode(symbology, data, options)', () => {
+    const sum = (widths : number[]) => widths.reduce((total, width) => total + width, 0);
+
+    test('returns 11 modules per Code 128 symbol plus the stop pattern', () => {
+        const widths = encodeLinearBarCode('code128', 'ABC');
+        expect(sum(widths)).toEqual(11 * 5 + 13);
+        expect(widths.slice(0, 6)).toEqual([ 2, 1, 1, 2, 1, 4 ]); // start B
+        expect(encodeLinearBarCode('code128', '1234').slice(0, 6)).toEqual([ 2, 1, 1, 2, 3, 2 ]); // start C
+    });
+
+    test('returns 95 modules for EAN-13 and UPC-A', () => {
+        const widths = encodeLinearBarCode('ean13', '590123412345');
+        expect(sum(widths)).toEqual(95);
+        expect(widths.slice(0, 3)).toEqual([ 1, 1, 1 ]);
+        expect(encodeLinearBarCode('upca', '03600029145')).toEqual(encodeLinearBarCode('ean13', '003600029145'));
+    });
+
+    test('returns wide elements at the ratio for Code 39 and Interleaved 2 of 5', () => {
+        expect(encodeLinearBarCode('code39', 'A', { ratio: 2 })).toEqual([
+            1, 2, 1, 1, 2, 1, 2, 1, 1, 1, // *
+            2, 1, 1, 1, 1, 2, 1, 1, 2, 1, // A
+            1, 2, 1, 1, 2, 1, 2, 1, 1,    // *
+        ]);
+        expect(sum(encodeLinearBarCode('interleaved2of5', '123'))).toEqual(4 + 4 * (2 * 3 + 3) + 5); // padded to 0123
+        expect(encodeLinearBarCode('code39', 'A', { checkDigit: true }).length).toEqual(4 * 10 - 1);
+    });
+});
+
+describe('getDataMatrixSymbolSize(data, aspect)', () => {
+    test('returns the smallest symbol that fits the data', () => {
+        expect(getDataMatrixSymbolSize('123')).toEqual({ rows: 10, columns: 10 });
+        expect(getDataMatrixSymbolSize('ABCDEF')).toEqual({ rows: 14, columns: 14 });
+        expect(getDataMatrixSymbolSize('ABCDEF', 'rectangular')).toEqual({ rows: 8, columns: 32 });
+    });
+});
+
+describe('getAztecSymbolSize(data, errorCorrection)', () => {
+    test('returns compact symbols for short data', () => {
+        expect(getAztecSymbolSize('HELLO')).toEqual({ compact: true, layers: 1, size: 15 });
+    });
+
+    test('returns full range symbols for longer data', () => {
+        const { compact, size } = getAztecSymbolSize('X'.repeat(200));
+        expect(compact).toBe(false);
+        expect(size % 2).toEqual(1);
+    });
+});
@@ -0,0 +1,30 @@
+import { ZplEncodingError, encodeString } from "../../src/utils/utils-code-pages";
+
+describe('encodeString(string, encoding)', () => {
+    test('returns UTF-8 bytes', () => {
+        expect([ ...encodeString('aé€😀', 'utf-8') ]).toEqual([ 0x61, 0xC3, 0xA9, 0xE2, 0x82, 0xAC, 0xF0, 0x9F, 0x98, 0x80 ]);
+    });
+
+    test('returns code page 850 and 1252 bytes', () => {
+        expect([ ...encodeString('aéÑ░', 'cp850') ]).toEqual([ 0x61, 0x82, 0xA5, 0xB0 ]);
+        expect([ ...encodeString('aé€”', 'cp1252') ]).toEqual([ 0x61, 0xE9, 0x80, 0x94 ]);
+    });
+
+    test('returns one byte per character without an encoding', () => {
+        expect([ ...encodeString('aé') ]).toEqual([ 0x61, 0xE9 ]);
+    });
+
+    test('throws a ZplEncodingError for characters that cannot be represented', () => {
+        expect(() => encodeString('a€', 'cp850')).toThrow(ZplEncodingError);
+        expect(() => encodeString('Привет', 'cp1252')).toThrow(TypeError);
+        expect(() => encodeString('€')).toThrow(ZplEncodingError);
+        expect(() => encodeString('\uD800', 'utf-8')).toThrow(ZplEncodingError);
+
+        try {
+            encodeString('ab€', 'cp850');
+        }
+        catch (e) {
+            expect(e).toMatchObject({ character: '€', index: 2, encoding: 'cp850' });
+        }
+    });
+});
@@ -0,0 +1,24 @@
+import { escapeFieldDataHex, isUnsafeFieldData, unescapeFieldDataHex } from "../../src/utils/utils-encodings";
+
+describe('isUnsafeFieldData(data)', () => {
+    test('returns true when [data] contains command prefixes or control characters', () => {
+        expect(isUnsafeFieldData('A^B')).toBe(true);
+        expect(isUnsafeFieldData('A~B')).toBe(true);
+        expect(isUnsafeFieldData('A\r\nB')).toBe(true);
+        expect(isUnsafeFieldData('A_B, C!')).toBe(false);
+    });
+});
+
+describe('escapeFieldDataHex(data, indicator)', () => {
+    test('returns the data with hex escapes for unsafe characters and the indicator', () => {
+        expect(escapeFieldDataHex('^XA~_\x01é')).toEqual('_5EXA_7E_5F_01é');
+        expect(escapeFieldDataHex('A_B#', '#')).toEqual('A_B#23');
+    });
+});
+
+describe('unescapeFieldDataHex(data, indicator)', () => {
+    test('returns the data with hex escapes decoded', () => {
+        expect(unescapeFieldDataHex('_5EXA_7E_5F_01')).toEqual('^XA~_\x01');
+        expect(unescapeFieldDataHex('A_ZZ_4')).toEqual('A_ZZ_4');
+    });
+});
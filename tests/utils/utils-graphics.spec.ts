@@ -0,0 +1,59 @@
+import { createMonochromeBitmap, bitmapToHexString, bitmapToCompressedHexString, hexStringToBitmap, matrixToBitmap } from "../../src/utils/utils-graphics";
+
+describe('createMonochromeBitmap(width, height)', () => {
+    test('pads rows to a whole number of bytes', () => {
+        const bitmap = createMonochromeBitmap(10, 3);
+        expect(bitmap.bytesPerRow).toEqual(2);
+        expect(bitmap.data).toHaveLength(6);
+    });
+});
+
+describe('matrixToBitmap(matrix, scale)', () => {
+    test('draws each module as a square of dots', () => {
+        const bitmap = matrixToBitmap([ [ true, false, true ], [ false, true, false ] ], 3);
+        expect([ bitmap.width, bitmap.height ]).toEqual([ 9, 6 ]);
+        expect(bitmapToHexString(bitmap)).toEqual('E380E380E3801C001C001C00');
+    });
+});
+
+describe('bitmapToHexString(bitmap)', () => {
+    test('returns uppercase hex with 2 characters per byte', () => {
+        expect(bitmapToHexString({ width: 16, height: 1, bytesPerRow: 2, data: new Uint8Array([ 0x0A, 0xFF ]) })).toEqual('0AFF');
+    });
+});
+
+describe('bitmapToCompressedHexString(bitmap)', () => {
+    test('compresses repeated characters, repeated rows and filled row endings', () => {
+        const bitmap = { width: 16, height: 5, bytesPerRow: 2, data: new Uint8Array([
+            0xFF, 0x00,
+            0xFF, 0x00,
+            0x00, 0x00,
+            0xFF, 0xFF,
+            0xF0, 0x0F,
+        ]) };
+        expect(bitmapToCompressedHexString(bitmap)).toEqual('HF,:,!FH0!');
+    });
+
+    test('uses multiples of 20 for long runs', () => {
+        const bitmap = { width: 240, height: 1, bytesPerRow: 30, data: new Uint8Array(30).fill(0xAA) };
+        expect(bitmapToCompressedHexString(bitmap)).toEqual('iA');
+
+        const longer = { width: 3440, height: 1, bytesPerRow: 430, data: new Uint8Array(430).fill(0xAA) };
+        expect(bitmapToCompressedHexString(longer)).toEqual('zYAzYAgHA'); // 419 + 419 + 22 characters
+    });
+});
+
+describe('hexStringToBitmap(data, totalBytes, bytesPerRow)', () => {
+    test('reads uncompressed hex data', () => {
+        const bitmap = hexStringToBitmap('FF00\nA5C3', 4, 2);
+        expect(bitmap.width).toEqual(16);
+        expect(bitmap.height).toEqual(2);
+        expect([ ...bitmap.data ]).toEqual([ 0xFF, 0x00, 0xA5, 0xC3 ]);
+    });
+
+    test('reads compressed data, the reverse of bitmapToCompressedHexString', () => {
+        const data = new Uint8Array([ 0xAA, 0xAA, 0xAA, 0x00, 0xAA, 0xAA, 0xAA, 0x00, 0x0F, 0xFF, 0xFF, 0xFF, 0x00, 0x00, 0x00, 0x00 ]);
+        const bitmap = { width: 32, height: 4, bytesPerRow: 4, data };
+        expect([ ...hexStringToBitmap(bitmapToCompressedHexString(bitmap), 16, 4).data ]).toEqual([ ...data ]);
+    });
+});
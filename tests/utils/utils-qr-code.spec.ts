@@ -0,0 +1,107 @@
+import { encodeQRCode, getQRCodeBitLength, getQRCodeDataInputMode, getQRCodeParity, getQRCodePenalty, getQRCodeSegments, getQRCodeVersion, getQRCodeVersionAndSegments, getQRKanjiCode } from "../../src/utils/utils-qr-code";
+
+describe('getQRKanjiCode(character)', () => {
+    test('returns the Shift JIS code of kanji and kana', () => {
+        expect(getQRKanjiCode('点')).toEqual(0x935F);
+        expect(getQRKanjiCode('あ')).toEqual(0x82A0);
+        expect(getQRKanjiCode('a')).toBeUndefined();
+    });
+});
+
+describe('getQRCodeDataInputMode(text)', () => {
+    test('returns the single mode that encodes every character', () => {
+        expect(getQRCodeDataInputMode('0123')).toEqual({ mode: 'N', size: 4 });
+        expect(getQRCodeDataInputMode('HELLO WORLD')).toEqual({ mode: 'A', size: 11 });
+        expect(getQRCodeDataInputMode('日本語')).toEqual({ mode: 'K', size: 3 });
+        expect(getQRCodeDataInputMode('hello')).toEqual({ mode: 'B', size: 5 });
+    });
+});
+
+describe('getQRCodeSegments(text, version, encoding)', () => {
+    test('switches modes when a run of characters makes up for the segment header', () => {
+        expect(getQRCodeSegments('ABC1234567890123abc日本語')).toEqual([
+            { mode: 'A', data: 'ABC' },
+            { mode: 'N', data: '1234567890123' },
+            { mode: 'B', data: 'abc' },
+            { mode: 'K', data: '日本語' },
+        ]);
+    });
+
+    test('keeps short runs in the segment around them', () => {
+        expect(getQRCodeSegments('A1')).toEqual([ { mode: 'A', data: 'A1' } ]);
+        expect(getQRCodeSegments('item 12')).toEqual([ { mode: 'B', data: 'item 12' } ]);
+        expect(getQRCodeSegments('')).toEqual([]);
+    });
+});
+
+describe('getQRCodeVersion(dataInputMode, errorCorrectionLevel, size)', () => {
+    test('returns the smallest version whose capacity fits the size', () => {
+        expect(getQRCodeVersion('A', 'Q', 16)).toEqual(1);
+        expect(getQRCodeVersion('A', 'Q', 17)).toEqual(2);
+        expect(getQRCodeVersion('N', 'L', 7089)).toEqual(40);
+        expect(getQRCodeVersion('B', 'H', 5000)).toEqual(40);
+    });
+});
+
+describe('getQRCodeVersionAndSegments(text, errorCorrectionLevel, model, encoding)', () => {
+    test('returns the smallest version that fits the bits of the segments', () => {
+        // 16 alphanumeric characters fill a version 1 at level Q: 4 + 9 + 8 * 11 = 101 bits of 104
+        expect(getQRCodeVersionAndSegments('A'.repeat(16), 'Q').version).toEqual(1);
+        expect(getQRCodeVersionAndSegments('A'.repeat(17), 'Q').version).toEqual(2);
+        expect(getQRCodeBitLength([ { mode: 'A', data: 'A'.repeat(16) } ], 1)).toEqual(101);
+    });
+
+    test('returns the highest version of the model when data does not fit', () => {
+        expect(getQRCodeVersionAndSegments('a'.repeat(3000), 'H', 1).version).toEqual(14);
+        expect(getQRCodeVersionAndSegments('a'.repeat(3000), 'H').version).toEqual(40);
+    });
+});
+
+describe('getQRCodeParity(text, encoding)', () => {
+    test('returns the XOR of the bytes of the data, with Kanji in Shift JIS', () => {
+        expect(getQRCodeParity('AB')).toEqual(0x03);
+        expect(getQRCodeParity('点', 'utf-8')).toEqual(0x93 ^ 0x5F);
+    });
+});
+
+describe('getQRCodePenalty(matrix)', () => {
+    test('adds the penalties of runs, blocks and the balance of dark modules', () => {
+        // 2 rows and 2 columns with a run of 5 (3 points each), 16 blocks (3 points each), 100% dark (100 points)
+        const matrix = Array.from({ length: 5 }, () => new Array(5).fill(true));
+        expect(getQRCodePenalty(matrix)).toEqual(5 * 2 * 3 + 16 * 3 + 100);
+    });
+});
+
+describe('encodeQRCode(text, options)', () => {
+    // Format information around the top left finder pattern, most significant bit first
+    const readFormat = (matrix : boolean[][]) => [
+        ...[ 0, 1, 2, 3, 4, 5, 7, 8 ].map(column => matrix[8][column]),
+        ...[ 7, 5, 4, 3, 2, 1, 0 ].map(row => matrix[row][8]),
+    ].map(Number).join('');
+
+    test('returns the modules of the smallest version, with its finder and timing patterns', () => {
+        const matrix = encodeQRCode('HELLO WORLD', { errorCorrectionLevel: 'Q' });
+        expect(matrix).toHaveLength(21);
+        expect(matrix[0].slice(0, 8).map(Number)).toEqual([ 1, 1, 1, 1, 1, 1, 1, 0 ]);
+        expect(matrix[6].slice(8, 13).map(Number)).toEqual([ 1, 0, 1, 0, 1 ]);
+        expect(matrix[13][8]).toBe(true); // dark module
+    });
+
+    test('writes the format information of the error correction level and mask', () => {
+        expect(readFormat(encodeQRCode('HELLO WORLD', { errorCorrectionLevel: 'Q', maskValue: 0 }))).toEqual('011010101011111');
+        expect(readFormat(encodeQRCode('01234567', { errorCorrectionLevel: 'M', maskValue: 2 }))).toEqual('101111001111100');
+    });
+
+    test('writes the version information from version 7', () => {
+        const matrix = encodeQRCode('a'.repeat(120), { errorCorrectionLevel: 'M' });
+        expect(matrix).toHaveLength(45);
+        // 000111110010010100, least significant bit first in columns of 3 modules
+        const bits = Array.from({ length: 18 }, (_, i) => Number(matrix[Math.floor(i / 3)][45 - 11 + i % 3])).reverse().join('');
+        expect(bits).toEqual('000111110010010100');
+    });
+
+    test('throws if the data does not fit or the mask is invalid', () => {
+        expect(() => encodeQRCode('a'.repeat(3000), { errorCorrectionLevel: 'H' })).toThrow(RangeError);
+        expect(() => encodeQRCode('A', { maskValue: 8 })).toThrow(RangeError);
+    });
+});
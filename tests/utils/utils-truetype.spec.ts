@@ -0,0 +1,47 @@
+import { parseTrueTypeMetrics } from "../../src/utils/utils-truetype";
+
+/**
+ * Builds a font with the tables read for metrics: 3 glyphs (missing glyph, A and B) mapped by a
+ * format 4 character map, and 2 horizontal metrics.
+ */
+function buildFont() : Uint8Array {
+    const u16 = (...values : number[]) => values.flatMap(value => [ (value >> 8) & 0xFF, value & 0xFF ]);
+    const u32 = (value : number) => [ ...u16(value >>> 16), ...u16(value & 0xFFFF) ];
+
+    const head = [ ...new Array(18).fill(0), ...u16(1000), ...new Array(34).fill(0) ];
+    const hhea = [ ...u32(0x00010000), ...u16(800, 0x10000 - 200), ...new Array(26).fill(0), ...u16(2) ];
+    const hmtx = [ ...u16(500, 0), ...u16(600, 0), ...u16(0) ];
+    // Segments A-B (glyphs 1 and 2) and the final 0xFFFF segment
+    const format4 = [ ...u16(4, 32, 0, 4, 4, 1, 0), ...u16(0x42, 0xFFFF), ...u16(0), ...u16(0x41, 0xFFFF), ...u16(0x10000 - 0x40, 1), ...u16(0, 0) ];
+    const cmap = [ ...u16(0, 1), ...u16(3, 1), ...u32(12), ...format4 ];
+
+    const tables : Array<[ string, number[] ]> = [ [ 'cmap', cmap ], [ 'head', head ], [ 'hhea', hhea ], [ 'hmtx', hmtx ] ];
+    const bytes = [ ...u32(0x00010000), ...u16(tables.length, 0, 0, 0) ];
+    let offset = 12 + tables.length * 16;
+    for (const [ tag, data ] of tables) {
+        bytes.push(...tag.split('').map(character => character.charCodeAt(0)), ...u32(0), ...u32(offset), ...u32(data.length));
+        offset += data.length;
+    }
+    tables.forEach(([ , data ]) => bytes.push(...data));
+    return new Uint8Array(bytes);
+}
+
+describe('parseTrueTypeMetrics(data)', () => {
+    test('returns the em square and vertical metrics of the font', () => {
+        expect(parseTrueTypeMetrics(buildFont())).toMatchObject({ unitsPerEm: 1000, ascender: 800, descender: -200 });
+    });
+
+    test('returns the advance width of characters through the character map', () => {
+        const { getAdvanceWidth } = parseTrueTypeMetrics(buildFont());
+        expect(getAdvanceWidth(0x41)).toEqual(600);
+        // Glyphs past the last metric use the last advance width
+        expect(getAdvanceWidth(0x42)).toEqual(600);
+        // Characters without a glyph use the missing glyph
+        expect(getAdvanceWidth(0x43)).toEqual(500);
+    });
+
+    test('throws if the data is not a TrueType font', () => {
+        expect(() => parseTrueTypeMetrics(new Uint8Array([ 0x00, 0x01, 0x00, 0x00, 0xAB ]))).toThrow(TypeError);
+        expect(() => parseTrueTypeMetrics(new Uint8Array([ 0x3C, 0x3F, 0x78, 0x6D, 0x6C, 0, 0, 0, 0, 0, 0, 0 ]))).toThrow(TypeError);
+    });
+});
@@ -0,0 +1,23 @@
+import { resolveDpi, unitsToDots } from "../../src/utils/utils-units";
+
+describe('unitsToDots(value, unit, dpi)', () => {
+    test('converts metric units to dots', () => {
+        expect(unitsToDots(25.4, 'mm', 203)).toBeCloseTo(203);
+        expect(unitsToDots(2.54, 'cm', 300)).toBeCloseTo(300);
+    });
+});
+
+describe('resolveDpi(dpi)', () => {
+    test('returns the resolution of a preset', () => {
+        expect(resolveDpi('6dpmm')).toEqual(152);
+        expect(resolveDpi('8dpmm')).toEqual(203);
+        expect(resolveDpi('12dpmm')).toEqual(300);
+        expect(resolveDpi('24dpmm')).toEqual(600);
+        expect(resolveDpi(203)).toEqual(203);
+    });
+
+    test('throws for unknown presets and invalid resolutions', () => {
+        expect(() => resolveDpi('10dpmm' as any)).toThrow(TypeError);
+        expect(() => resolveDpi(0)).toThrow(TypeError);
+    });
+});
@@ -0,0 +1,67 @@
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+import { ZplFont } from "../src/zebra-node-zpl-font";
+import { ZplLabel } from "../src/zebra-zpl-label";
+
+describe('class ZplFont', () => {
+  const filepath = join(mkdtempSync(join(tmpdir(), 'zpl-font-')), 'Brand Sans.ttf');
+  writeFileSync(filepath, Buffer.from([ 0x00, 0x01, 0x00, 0x00, 0xAB ]));
+
+  describe('constructor(filepath, nameOnPrinter, options)', () => {
+    test('throws if the file is not a TTF or the options are invalid', () => {
+      expect(() => new ZplFont(filepath.replace('.ttf', '.otf'))).toThrow(TypeError);
+      expect(() => new ZplFont(filepath.replace('Brand', 'Missing'))).toThrow(TypeError);
+      expect(() => new ZplFont(filepath, 'BRAND_01')).toThrow(TypeError);
+      expect(() => new ZplFont(filepath, undefined, { identifier: 'AB' })).toThrow(TypeError);
+    });
+  });
+
+  describe('getImportBuffer()', () => {
+    test('returns the download of the font as ASCII hex', async () => {
+      const buffer = await new ZplFont(filepath).getImportBuffer();
+      expect(Buffer.from(buffer).toString()).toEqual('^XA~DYE:BRANDSAN,A,T,5,,00010000ab^XZ');
+    });
+
+    test('returns the download of an unbounded font', async () => {
+      const buffer = await new ZplFont(filepath, 'brand', { drive: 'R', unbounded: true }).getImportBuffer();
+      expect(Buffer.from(buffer).toString()).toEqual('^XA~DUR:BRAND.FNT,5,00010000ab^XZ');
+    });
+  });
+
+  describe('commands', () => {
+    test('returns the commands calling and deleting the font', () => {
+      const font = new ZplFont(filepath, 'brand', { identifier: 'z' });
+      expect(font.aliasString).toEqual('^CWZ,E:BRAND.TTF');
+      expect(font.getFontString({ orientation: 'R', height: 30, width: 20 })).toEqual('^A@R,30,20,E:BRAND.TTF');
+      expect(font.deleteString).toEqual('^IDE:BRAND.TTF');
+      expect(JSON.stringify({ font })).toEqual('{"font":"E:BRAND.TTF"}');
+    });
+
+    test('throws when reading the metrics of a file that is not a TrueType font', () => {
+      expect(() => new ZplFont(filepath).metrics).toThrow(TypeError);
+    });
+
+    test('throws if the font has no identifier', () => {
+      expect(() => new ZplFont(filepath).aliasString).toThrow(TypeError);
+    });
+  });
+
+  describe('ZplLabel.text(x, y, text, { font })', () => {
+    test('calls the font by its location, or by its identifier', () => {
+      const label = new ZplLabel();
+      label.text(0, 0, 'A', { font: new ZplFont(filepath) });
+      label.text(0, 30, 'B', { font: { name: new ZplFont(filepath, 'brand', { identifier: 'Z', drive: 'R' }), width: 20 } });
+      label.text(0, 60, 'C', { font: { name: 'E:ARIAL.TTF', width: 20, height: 30 } });
+      expect(label.getCommandString()).toEqual('^XA^CWZ,R:BRAND.TTF^FO0,0,0^A@N,,,E:BRANDSAN.TTF^FDA^FS^FO0,30,0^AZN,20,20^FDB^FS^FO0,60,0^A@N,30,20,E:ARIAL.TTF^FDC^FS^XZ');
+    });
+
+    test('throws if the font name is invalid or an identifier is used twice', () => {
+      const label = new ZplLabel();
+      label.text(0, 0, 'A', { font: new ZplFont(filepath, 'brand', { identifier: 'Z' }) });
+      expect(() => label.text(0, 30, 'B', { font: new ZplFont(filepath, 'other', { identifier: 'Z' }) })).toThrow(TypeError);
+      expect(() => label.text(0, 30, 'B', { font: 'AB' })).toThrow(TypeError);
+    });
+  });
+});
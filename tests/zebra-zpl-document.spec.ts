@@ -0,0 +1,51 @@
+import { ZplDocument } from "../src/zebra-zpl-document";
+import { ZplLabel } from "../src/zebra-zpl-label";
+import { ZplCommandSet } from "../src/commands/command-set";
+import { ZplPrintWidth } from "../src/commands";
+import { stringToUint8Array } from "../src/utils/utils-buffers";
+
+describe('class ZplDocument', () => {
+  const download = () => stringToUint8Array('~DYR:LOGO,P,P,4,,89504E47');
+  const deleteBuffer = stringToUint8Array('^IDR:LOGO.PNG');
+
+  describe('getCommandString()', () => {
+    test('returns an empty string when nothing has been added', () => {
+      expect(new ZplDocument().getCommandString()).toEqual('');
+    });
+
+    test('returns the labels, commands and downloads in order', () => {
+      const label = new ZplLabel();
+      label.text(0, 0, 'A');
+      const commands = new ZplCommandSet().runCommand(ZplPrintWidth, { a : 400 });
+      const document = new ZplDocument().download(download()).add(label).add(commands);
+      label.text(0, 30, 'B');
+
+      expect(document.getCommandString()).toEqual('~DYR:LOGO,P,P,4,,89504E47^XA^FO0,0,0^FWN,0^FDA^FS^FO0,30,0^FDB^FS^XZ^PW400');
+    });
+
+    test('skips repeated downloads and appends delete commands at the end', () => {
+      const document = new ZplDocument()
+        .download(download(), { deleteBuffer })
+        .add(new ZplLabel())
+        .download(download(), { deleteBuffer })
+        .add(new ZplLabel());
+
+      expect(document.getCommandString()).toEqual('~DYR:LOGO,P,P,4,,89504E47^XA^XZ^XA^XZ^XA^IDR:LOGO.PNG^XZ');
+    });
+  });
+
+  describe('getCommandBuffer()', () => {
+    test('returns the document with labels encoded in their encoding', () => {
+      const label = new ZplLabel({ encoding: 'utf-8' });
+      label.text(0, 0, 'é');
+      const document = new ZplDocument().download(download()).add(label);
+      expect(Buffer.from(document.getCommandBuffer()).toString('utf-8')).toEqual('~DYR:LOGO,P,P,4,,89504E47^XA^CI28^FO0,0,0^FWN,0^FDé^FS^XZ');
+    });
+  });
+
+  describe('add(item)', () => {
+    test('throws if the item is not a label or a command set', () => {
+      expect(() => new ZplDocument().add('^XA^XZ' as any)).toThrow(TypeError);
+    });
+  });
+});
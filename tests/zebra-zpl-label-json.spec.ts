@@ -0,0 +1,69 @@
+import { ZplLabelJSONValidationError, validateLabelJSON, bitmapFromJSON, bitmapToJSON } from "../src/zebra-zpl-label-json";
+import { createMonochromeBitmap } from "../src/utils/utils-graphics";
+
+const errorsOf = (json : any) => {
+  try {
+    validateLabelJSON(json);
+  }
+  catch (error) {
+    expect(error).toBeInstanceOf(ZplLabelJSONValidationError);
+    return (error as ZplLabelJSONValidationError).errors;
+  }
+  return {};
+};
+
+describe('validateLabelJSON(json)', () => {
+  test('returns a valid label definition', () => {
+    const json = {
+      unit: 'mm', dpi: '12dpmm', width: 50, height: 30,
+      settings: { home: { x: 1, y: 1 } },
+      elements: [
+        { type: 'text', x: 1, y: 1, data: 'A', options: { font: { name: '0', width: 3 } } },
+        { type: 'box', x: 0, y: 0, options: { width: 10, height: 5 } },
+        { type: 'code128', x: 0, y: 10, data: { serial: '1', increment: 2 } },
+        { type: 'comment', data: 'note' },
+      ],
+    };
+    expect(validateLabelJSON(json)).toBe(json);
+  });
+
+  test('reports the path of each invalid value', () => {
+    expect(errorsOf({
+      unit: 'ft',
+      dpi: 0,
+      settings: { home: { x: 'a' } },
+      elements: [
+        { type: 'box', x: 0, y: '1', options: { width: 10 } },
+        { type: 'star', x: 0, y: 0 },
+        { type: 'text', x: 0, y: 0, data: 12, options: { font: { name: '0' }, size: 2 } },
+      ],
+    })).toEqual({
+      'unit': [ 'should be one of in, mm, cm, px, dots' ],
+      'dpi': [ 'should be a positive number or one of 6dpmm, 8dpmm, 12dpmm, 24dpmm' ],
+      'settings.home.x': [ 'should be a number' ],
+      'elements[0].y': [ 'should be a number' ],
+      'elements[0].options.height': [ 'is required' ],
+      'elements[1].type': [ expect.stringMatching(/^should be one of text, textBlock/) ],
+      'elements[2].data': [ 'should be a string, a variable field or a serial field' ],
+      'elements[2].options.font': [ 'should be a font name, or an object with a name, width and optional height' ],
+      'elements[2].options.size': [ 'unknown property' ],
+    });
+  });
+
+  test('throws if the definition or its elements are not objects', () => {
+    expect(errorsOf('label')).toEqual({ '': [ 'should be an object' ] });
+    expect(errorsOf({})).toEqual({ 'elements': [ 'should be an array' ] });
+    expect(errorsOf({ elements: [ null ] })).toEqual({ 'elements[0]': [ 'should be an object' ] });
+  });
+});
+
+describe('bitmapToJSON(bitmap) and bitmapFromJSON(json)', () => {
+  test('returns the rows of the bitmap as hex, and the bitmap from them', () => {
+    const bitmap = { width: 4, height: 2, bytesPerRow: 2, data: new Uint8Array([ 0xF0, 0xAA, 0x0F, 0xAA ]) };
+    expect(bitmapToJSON(bitmap)).toEqual({ width: 4, height: 2, data: 'F00F' });
+
+    const expected = createMonochromeBitmap(4, 2);
+    expected.data.set([ 0xF0, 0x0F ]);
+    expect(bitmapFromJSON({ width: 4, height: 2, data: 'F00F' })).toEqual(expected);
+  });
+});
@@ -1,4 +1,7 @@
 import { ZplLabel } from "../src/zebra-zpl-label";
+import { ZplLabelJSONValidationError } from "../src/zebra-zpl-label-json";
+import { ZplFontDescription } from "../src/zebra-zpl-font";
+import { TrueTypeMetrics } from "../src/utils/utils-truetype";
 
 describe('class ZplLabel', () => {
   describe('constructor(options)', () => {
@@ -6,6 +9,46 @@ describe('class ZplLabel', () => {
       expect(() => new ZplLabel({ unit: 'in' })).toThrow();
       expect(() => new ZplLabel({ unit: 'px' })).toThrow();
     });
+
+    test('converts metric units to whole dots', () => {
+      const label = new ZplLabel({ unit: 'mm', dpi: '8dpmm', width: 100, height: 5 });
+      label.box(1.3, 1.3, 10, 2.5);
+      expect(label.getCommandString()).toEqual('^XA^PW799^LL40^FO10,10,0^GB80,20,1,B,0^FS^XZ');
+    });
+
+    test('converts line and border thicknesses to whole dots, at least one dot thick', () => {
+      const label = new ZplLabel({ unit: 'mm', dpi: '8dpmm' });
+      label.box(0, 0, 10, 10, { borderThickness: 0.3 });
+      label.box(0, 0, 10, 10, { borderThickness: 0.05 });
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^GB80,80,2,B,0^FS^FO0,0,0^GB80,80,1,B,0^FS^XZ');
+
+      const dots = new ZplLabel();
+      dots.line(0, 0, 100, 0, { thickness: 2.5 });
+      expect(dots.getCommandString()).toEqual('^XA^FO0,0,0^GB100,0,3,B,0^FS^XZ');
+    });
+
+    test('throws if a shape has a negative size, a thickness that is not positive or an invalid border radius', () => {
+      const label = new ZplLabel();
+      expect(() => label.box(0, 0, -5, 5)).toThrow(RangeError);
+      expect(() => label.ellipse(0, 0, 5, -5)).toThrow(RangeError);
+      expect(() => label.box(0, 0, 5, 5, { borderThickness: 0 })).toThrow(RangeError);
+      expect(() => label.line(0, 0, 5, 0, { thickness: -1 })).toThrow(RangeError);
+      expect(() => label.box(0, 0, 5, 5, { borderRadius: 9 })).toThrow(RangeError);
+      expect(() => label.box(0, 0, 5, 5, { borderRadius: 1.5 })).toThrow(RangeError);
+      expect(label.getCommandString()).toEqual('^XA^XZ');
+    });
+
+    test('rounds dots with [options.rounding]', () => {
+      const line = (rounding?: 'round' | 'floor' | 'ceil') => {
+        const label = new ZplLabel({ unit: 'cm', dpi: 300, rounding });
+        label.box(0.3, 0.3, 1, 1);
+        return label.getCommandString();
+      };
+      expect(line()).toEqual('^XA^FO35,35,0^GB118,118,1,B,0^FS^XZ');
+      expect(line('floor')).toEqual('^XA^FO35,35,0^GB118,118,1,B,0^FS^XZ');
+      expect(line('ceil')).toEqual('^XA^FO36,36,0^GB119,119,1,B,0^FS^XZ');
+      expect(() => new ZplLabel({ rounding: 'truncate' as any })).toThrow(TypeError);
+    });
   });
 
   describe('getCommandString()', () => {
@@ -14,4 +57,760 @@ describe('class ZplLabel', () => {
       expect(label.getCommandString()).toEqual('^XA^XZ');
     });
   })
-})
\ No newline at end of file
+
+  describe('code128(x, y, data, options)', () => {
+    test('adds a Code 128 field with the provided options', () => {
+      const label = new ZplLabel();
+      label.code128(10, 20, 'ABC-123', { height: 50, moduleWidth: 3, ratio: 2.5 });
+      expect(label.getCommandString()).toEqual('^XA^FO10,20,0^BY3,2.5,^BCN,50,Y,N,,^FDABC-123^FS^XZ');
+    });
+
+    test('converts units and positions the interpretation line', () => {
+      const label = new ZplLabel({ unit: 'in', dpi: 200 });
+      label.code128(0.5, 1, 'ABC', { height: 0.25, interpretationLine: 'above', orientation: 'top-down' });
+      expect(label.getCommandString()).toEqual('^XA^FO100,200,0^BCR,50,Y,Y,,^FDABC^FS^XZ');
+    });
+
+    test('throws if [options.ratio] is not between 2.0 and 3.0', () => {
+      const label = new ZplLabel();
+      expect(() => label.code128(0, 0, 'ABC', { ratio: 1.5 })).toThrow(RangeError);
+      expect(() => label.code128(0, 0, 'ABC', { ratio: 3.5 })).toThrow(RangeError);
+      expect(() => label.code128(0, 0, 'ABC', { ratio: 3 })).not.toThrow();
+    });
+  });
+
+  describe('code39(x, y, data, options)', () => {
+    test('adds a Code 39 field', () => {
+      const label = new ZplLabel();
+      label.code39(0, 0, 'AB-12', { interpretationLine: 'none', checkDigit: true });
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^B3N,Y,,N,N^FDAB-12^FS^XZ');
+    });
+
+    test('throws if [data] contains characters outside of the Code 39 character set', () => {
+      expect(() => new ZplLabel().code39(0, 0, 'ab')).toThrow(TypeError);
+    });
+  });
+
+  describe('ean13(x, y, data, options) and upca(x, y, data, options)', () => {
+    test('strips a valid check digit from the data', () => {
+      const ean13 = new ZplLabel();
+      ean13.ean13(0, 0, '4006381333931');
+      expect(ean13.getCommandString()).toEqual('^XA^FO0,0,0^BEN,,Y,N^FD400638133393^FS^XZ');
+
+      const upca = new ZplLabel();
+      upca.upca(0, 0, '036000291452');
+      expect(upca.getCommandString()).toEqual('^XA^FO0,0,0^BUN,,Y,N,Y^FD03600029145^FS^XZ');
+    });
+
+    test('throws if the check digit is invalid', () => {
+      expect(() => new ZplLabel().ean13(0, 0, '4006381333932')).toThrow(TypeError);
+      expect(() => new ZplLabel().upca(0, 0, '036000291453')).toThrow(TypeError);
+    });
+  });
+
+  describe('interleaved2of5(x, y, data, options)', () => {
+    test('throws if [data] is not numeric', () => {
+      expect(() => new ZplLabel().interleaved2of5(0, 0, '12A4')).toThrow(TypeError);
+      const label = new ZplLabel();
+      label.interleaved2of5(0, 0, '1234');
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^B2N,,Y,N,N^FD1234^FS^XZ');
+    });
+  });
+
+  describe('dataMatrix(x, y, data, options)', () => {
+    test('sizes the symbol elements to fit [options.maxSize]', () => {
+      const label = new ZplLabel();
+      label.dataMatrix(10, 10, 'ABCDEFGHIJ', { maxSize: 100 }); // 10 codewords fit a 16x16 symbol
+      expect(label.getCommandString()).toEqual('^XA^FO10,10,0^BXN,6,200,,,,,^FDABCDEFGHIJ^FS^XZ');
+    });
+  });
+
+  describe('pdf417(x, y, data, options)', () => {
+    test('sets the module width and row height from [options.maxSize]', () => {
+      const label = new ZplLabel();
+      label.pdf417(0, 0, 'HELLO WORLD', { maxSize: 300, columns: 3, securityLevel: 2 });
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^BY2,,^B7N,6,2,3,,^FDHELLO WORLD^FS^XZ');
+    });
+
+    test('leaves the columns to the printer when they are not set', () => {
+      const label = new ZplLabel();
+      label.pdf417(2, 20, 'ABC');
+      label.pdf417(2, 40, 'ABC', { columns: 2 });
+      expect(label.getCommandString()).toEqual('^XA^FO2,20,0^B7N,,,,,^FDABC^FS^FO2,40,0^B7N,,,2,,^FDABC^FS^XZ');
+    });
+  });
+
+  describe('aztec(x, y, data, options)', () => {
+    test('sets the magnification from [options.maxSize]', () => {
+      const label = new ZplLabel();
+      label.aztec(0, 0, 'HELLO', { maxSize: 100, errorCorrection: 40 }); // compact, 1 layer: 15 modules
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^B0N,6,,40,,,^FDHELLO^FS^XZ');
+    });
+
+    test('throws if [options.errorCorrection] is out of range', () => {
+      expect(() => new ZplLabel().aztec(0, 0, 'HELLO', { errorCorrection: 100 })).toThrow(RangeError);
+    });
+  });
+
+  describe('maxicode(x, y, data, options)', () => {
+    test('adds a MaxiCode with the provided mode', () => {
+      const label = new ZplLabel();
+      label.maxicode(0, 0, 'DATA', { mode: 4 });
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^BD4,,^FDDATA^FS^XZ');
+    });
+
+    test('throws if the symbol does not fit [options.maxSize]', () => {
+      expect(() => new ZplLabel({ unit: 'in', dpi: 203 }).maxicode(0, 0, 'DATA', { maxSize: 1 })).toThrow(RangeError);
+    });
+  });
+
+  describe('qrcode(x, y, text, options)', () => {
+    test('encodes data in a single data input mode', () => {
+      const label = new ZplLabel();
+      label.qrcode(0, 10, '12345');
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^BQ,2,,Q,^FDQM,N12345^FS^XZ');
+    });
+
+    test('encodes data in mixed mode, with Kanji, sized from the bits of the segments', () => {
+      const label = new ZplLabel({ encoding: 'utf-8' });
+      label.qrcode(0, 10, 'ABC1234567890123abc日本語', { maxSize: 200 });
+      expect(label.getCommandString()).toEqual('^XA^CI28^FO0,0,0^BQ,2,8,Q,^FH_^FDQM,AABC,N1234567890123,B0003abc,K_93_FA_96_7B_8C_EA^FS^XZ');
+    });
+
+    test('writes Kanji as Shift JIS bytes whatever the encoding of the label', () => {
+      for (const encoding of [ undefined, 'utf-8' ] as const) {
+        const label = new ZplLabel({ encoding });
+        label.qrcode(0, 10, 'A_1日本語');
+        const buffer = Buffer.from(label.getCommandBuffer());
+        expect(buffer.includes(Buffer.from('^FH_^FDQM,B0003A_5F1,K_93_FA_96_7B_8C_EA^FS', 'latin1'))).toBe(true);
+      }
+    });
+
+    test('counts byte segments as the data is segmented, in UTF-8 outside the encoding of the label', () => {
+      const label = new ZplLabel();
+      label.qrcode(0, 10, 'price 5€');
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^BQ,2,,Q,^FDQM,B0010price 5€^FS^XZ');
+    });
+
+    test('sets the magnification from [options.maxSize] in automatic mode', () => {
+      const label = new ZplLabel();
+      label.qrcode(0, 10, 'ABC', { autoMode: true, maxSize: 100, model: 1 });
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^BQ,1,4,Q,^FDQA,ABC^FS^XZ');
+    });
+
+    test('adds the structured append header with the parity of [options.fullData]', () => {
+      const label = new ZplLabel();
+      label.qrcode(0, 10, 'A', { symbolNumber: 1, totalSymbols: 2, fullData: 'AB', errorCorrectionLevel: 'L' });
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^BQ,2,,L,^FDD010203,LM,AA^FS^XZ');
+    });
+
+    test('draws the symbol as a graphic field with [options.graphic]', () => {
+      const label = new ZplLabel();
+      label.qrcode(10, 20, 'HELLO WORLD', { graphic: true, maxSize: 42 });
+      expect(label.getCommandString()).toMatch(/^\^XA\^FO10,20,0\^GFA,252,252,6,IFCFH0IFC,:/);
+      expect(() => label.qrcode(10, 20, { field: 1 }, { graphic: true })).toThrow(TypeError);
+      expect(() => label.qrcode(10, 20, 'A', { graphic: true, model: 1 })).toThrow(TypeError);
+    });
+
+    test('measures the symbol at its position, below the margin of the printer', () => {
+      const label = new ZplLabel({ unit: 'mm', dpi: '8dpmm' });
+      const element = label.qrcode(20, 2, 'HELLO');
+      expect(element.bounds.x).toBeCloseTo(20, 1);
+      expect(element.bounds.y).toBeCloseTo(2, 1);
+    });
+
+    test('throws if a structured append is invalid', () => {
+      expect(() => new ZplLabel().qrcode(0, 10, 'A', { symbolNumber: 1, totalSymbols: 2 })).toThrow(TypeError);
+      expect(() => new ZplLabel().qrcode(0, 10, 'A', { symbolNumber: 3, totalSymbols: 2, fullData: 'AB' })).toThrow(RangeError);
+      expect(() => new ZplLabel().qrcode(0, 10, 'A', { symbolNumber: 1, totalSymbols: 17, fullData: 'AB' })).toThrow(RangeError);
+    });
+  });
+
+  describe('text(x, y, text, options)', () => {
+    test('right aligns text at x with the field origin justification', () => {
+      const label = new ZplLabel();
+      label.text(200, 10, 'TOTAL', { align: 'right' });
+      expect(label.getCommandString()).toEqual('^XA^FO200,10,1^FWN,0^FDTOTAL^FS^XZ');
+    });
+
+    test('aligns text within [options.width] with a single line field block', () => {
+      const label = new ZplLabel({ unit: 'in', dpi: 200 });
+      label.text(0.5, 0, 'A\\B', { align: 'center', width: 1 });
+      expect(label.getCommandString()).toEqual('^XA^FO100,0,0^FWN,0^FB200,1,0,C,0^FDA\\\\B^FS^XZ');
+    });
+
+    test('throws if centered text has no [options.width]', () => {
+      expect(() => new ZplLabel().text(0, 0, 'A', { align: 'center' })).toThrow(TypeError);
+    });
+
+    test('calls a downloaded font from its description, without reading its file', () => {
+      const font : ZplFontDescription = {
+        name: 'BRAND', drive: 'E', extension: 'TTF', identifier: 'Z',
+        get metrics() : TrueTypeMetrics { throw new Error('Metrics should not be read'); },
+        toJSON: () => 'E:BRAND.TTF',
+      };
+      const label = new ZplLabel();
+      label.text(0, 0, 'A', { font: { name: font, width: 20 } });
+      expect(label.getCommandString()).toEqual('^XA^CWZ,E:BRAND.TTF^FO0,0,0^AZN,20,20^FDA^FS^XZ');
+    });
+
+    test('shrinks a scalable font to fit [options.fitWidth]', () => {
+      const label = new ZplLabel();
+      label.text(0, 0, 'HELLO WORLD', { font: { name: '0', width: 40 }, fitWidth: 200 });
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^A0N,26,26^FDHELLO WORLD^FS^XZ');
+    });
+
+    test('shrinks a bitmap font by whole magnifications to fit [options.fitWidth]', () => {
+      const label = new ZplLabel();
+      label.text(0, 0, 'HELLO', { font: { name: 'A', width: 15, height: 27 }, fitWidth: 70 });
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^AAN,18,10^FDHELLO^FS^XZ');
+    });
+
+    test('truncates text with an ellipsis when [options.overflow] is "ellipsis"', () => {
+      const label = new ZplLabel();
+      label.text(0, 0, 'HELLO WORLD', { font: { name: 'A', width: 5, height: 9 }, fitWidth: 40, overflow: 'ellipsis' });
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^AAN,9,5^FDHEL...^FS^XZ');
+    });
+
+    test('throws if text cannot fit [options.fitWidth]', () => {
+      expect(() => new ZplLabel().text(0, 0, 'HELLO WORLD', { font: { name: 'A', width: 5 }, fitWidth: 20 })).toThrow(RangeError);
+      expect(() => new ZplLabel().text(0, 0, 'HELLO WORLD', { fitWidth: 20 })).toThrow(TypeError);
+    });
+  });
+
+  describe('measureText(text, options)', () => {
+    test('returns the size of text in the default font', () => {
+      expect(new ZplLabel().measureText('HELLO')).toEqual({ width: 30, height: 9 });
+    });
+
+    test('returns the size of text in the units of the label', () => {
+      const label = new ZplLabel({ unit: 'in', dpi: 200 });
+      expect(label.measureText('AB', { font: { name: 'B', width: 0.07, height: 0.11 } })).toEqual({ width: 0.18, height: 0.11 });
+    });
+  });
+
+  describe('bounds(padding)', () => {
+    test('returns the label box in the units of the label', () => {
+      const box = new ZplLabel({ unit: 'in', dpi: 200, width: 4, height: 2 }).bounds(0.25);
+      expect([ box.x, box.y, box.width, box.height ]).toEqual([ 0.25, 0.25, 3.5, 1.5 ]);
+    });
+
+    test('throws if the label size is not set', () => {
+      expect(() => new ZplLabel({ width: 100 }).bounds()).toThrow(TypeError);
+    });
+
+    test('lays out a grid that follows the label size', () => {
+      const build = (width : number) => {
+        const label = new ZplLabel({ width, height: 100 });
+        label.bounds(10).grid(1, 2, { gap: 10 })[0].forEach((cell, index) => label.text(cell.x, cell.y, `${index}`, { align: 'right', width: cell.width }));
+        return label.getCommandString();
+      };
+      expect(build(210)).toContain('^FO110,10,0^FB90,1,0,R,0^FD1^FS');
+      expect(build(410)).toContain('^FO210,10,0^FB190,1,0,R,0^FD1^FS');
+    });
+  });
+
+  describe('textBlock(x, y, width, text, options)', () => {
+    test('adds a field block with units converted to dots', () => {
+      const label = new ZplLabel({ unit: 'in', dpi: 200 });
+      label.textBlock(0.5, 0.5, 2, 'Product description', { maxLines: 3, lineSpacing: 0.05, justify: 'center', hangingIndent: 0.1, font: '0' });
+      expect(label.getCommandString()).toEqual('^XA^FO100,100,0^A0N,,^FB400,3,10,C,20^FDProduct description^FS^XZ');
+    });
+
+    test('escapes line breaks and backslashes', () => {
+      const label = new ZplLabel();
+      label.textBlock(0, 0, 300, 'C:\\TEMP\nSecond line');
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^FWN,0^FB300,9999,0,L,0^FDC:\\\\TEMP\\&Second line^FS^XZ');
+    });
+  });
+
+  describe('bounds checking', () => {
+    test('emits the print width and label length from [options.width] and [options.height]', () => {
+      const label = new ZplLabel({ unit: 'in', dpi: 203, width: 4, height: 6 });
+      expect(label.getCommandString()).toEqual('^XA^PW812^LL1218^XZ');
+    });
+
+    test('throws when an element is drawn outside of the label and [options.outOfBounds] is "throw"', () => {
+      const label = new ZplLabel({ width: 400, height: 200, outOfBounds: 'throw' });
+      expect(() => label.box(350, 10, 100, 50)).toThrow(RangeError);
+      expect(() => label.line(10, 10, 10, 250)).toThrow(RangeError);
+      expect(() => label.ellipse(10, 10, 40, 40)).toThrow(RangeError);
+      expect(() => label.text(500, 10, 'Off label')).toThrow(RangeError);
+      expect(() => label.qrcode(380, 10, 'QR')).toThrow(RangeError);
+      expect(() => label.box(10, 10, 100, 50)).not.toThrow();
+    });
+
+    test('checks the measured size of text without a width', () => {
+      const label = new ZplLabel({ width: 400, height: 200, outOfBounds: 'throw' });
+      expect(() => label.text(300, 10, 'A long line of text')).toThrow(RangeError);
+      expect(() => label.text(100, 10, 'Hi', { align: 'right' })).not.toThrow();
+      expect(() => label.text(100, 10, 'A long line of text', { align: 'right' })).toThrow(RangeError);
+      expect(() => label.text(10, 180, 'Hi', { font: { name: '0', width: 30 } })).toThrow(RangeError);
+      expect(() => label.text(10, 185, 'Hello world', { font: { name: '0', width: 10 } })).not.toThrow();
+      expect(() => label.text(10, 185, 'Hello world', { orientation: 'top-down', font: { name: '0', width: 10 } })).toThrow(RangeError);
+      expect(() => label.text(300, 10, 'A long line of text', { width: 100 })).not.toThrow();
+    });
+
+    test('checks the estimated size of linear bar codes', () => {
+      const label = new ZplLabel({ width: 400, height: 100, outOfBounds: 'throw' });
+      expect(() => label.code128(10, 10, 'ABCDEFGHIJ', { height: 20 })).not.toThrow();
+      expect(() => label.code128(200, 10, 'ABCDEFGHIJ', { height: 20 })).toThrow(RangeError);
+      expect(() => label.code128(10, 10, 'ABCDEFGHIJ', { height: 20, orientation: 'top-down' })).toThrow(RangeError);
+      expect(() => label.code128(10, 70, 'ABCDEFGHIJ', { height: 20 })).toThrow(RangeError);
+      expect(() => label.code128(10, 70, 'ABCDEFGHIJ', { height: 20, interpretationLine: 'none' })).not.toThrow();
+
+      const small = new ZplLabel({ width: 100, height: 100, outOfBounds: 'throw' });
+      expect(() => small.code128(90, 10, 'ABCDEFGHIJKLMNOP')).toThrow(RangeError);
+    });
+
+    test('checks the estimated size of 2D symbols, with the default module size when it is not set', () => {
+      const label = new ZplLabel({ width: 100, height: 100, outOfBounds: 'throw' });
+      expect(() => label.dataMatrix(10, 10, 'ABC')).not.toThrow();
+      expect(() => label.dataMatrix(90, 90, 'ABC')).toThrow(RangeError);
+      expect(() => label.aztec(10, 10, 'ABC')).not.toThrow();
+      expect(() => label.aztec(60, 10, 'ABC')).toThrow(RangeError);
+
+      const wide = new ZplLabel({ width: 200, height: 100, outOfBounds: 'throw' });
+      expect(() => wide.pdf417(10, 10, 'ABC')).not.toThrow();
+      expect(() => wide.pdf417(10, 10, 'ABC', { orientation: 'top-down' })).toThrow(RangeError);
+    });
+
+    test('checks the height of the lines of text blocks', () => {
+      const label = new ZplLabel({ width: 200, height: 30, outOfBounds: 'throw' });
+      const text = 'The quick brown fox jumps over the lazy dog again and again';
+      expect(() => label.textBlock(0, 0, 100, text)).toThrow(RangeError);
+      expect(() => label.textBlock(0, 0, 100, text, { maxLines: 2, lineSpacing: 5 })).not.toThrow();
+      expect(() => label.textBlock(0, 0, 100, 'Short')).not.toThrow();
+    });
+
+    test('checks the quiet zone of QR codes and the margin above them', () => {
+      const label = new ZplLabel({ width: 400, height: 200, outOfBounds: 'throw' });
+      expect(() => label.qrcode(12, 12, 'QR')).not.toThrow();
+      expect(() => label.qrcode(325, 12, 'QR')).not.toThrow();
+      expect(() => label.qrcode(330, 12, 'QR')).toThrow(RangeError);
+      expect(() => label.qrcode(5, 20, 'QR')).toThrow(RangeError);
+      expect(() => label.qrcode(20, 11, 'QR')).toThrow(RangeError);
+      expect(() => label.qrcode(20, 9, 'QR', { maxSize: 42 })).toThrow(RangeError);
+      expect(() => label.qrcode(20, 9, 'QR', { maxSize: 42, graphic: true })).not.toThrow();
+    });
+
+    test('draws elements outside of the label by default', () => {
+      const label = new ZplLabel({ width: 400, height: 200 });
+      label.box(350, 10, 100, 50);
+      expect(label.getCommandString()).toEqual('^XA^PW400^LL200^FO350,10,0^GB100,50,1,B,0^FS^XZ');
+    });
+
+    test('calls [options.outOfBounds] when an element is drawn outside of the label', () => {
+      const outOfBounds = jest.fn();
+      const label = new ZplLabel({ width: 400, height: 200, outOfBounds });
+      label.box(350, 10, 100, 50);
+      label.box(10, 10, 100, 50);
+      expect(outOfBounds).toHaveBeenCalledTimes(1);
+      expect(outOfBounds).toHaveBeenCalledWith('box from (350, 10) to (450, 60) is outside of the label (400x200 dots)');
+    });
+  });
+
+  describe('image(x, y, bitmap, options)', () => {
+    const data = new Uint8Array([ 0xFF, 0x00, 0xFF, 0x00 ]);
+
+    test('adds a compressed field graphic', () => {
+      const label = new ZplLabel();
+      label.image(5, 5, data, { width: 16 });
+      expect(label.getCommandString()).toEqual('^XA^FO5,5,0^GFA,4,4,2,HF,:^FS^XZ');
+    });
+
+    test('adds an uncompressed field graphic', () => {
+      const label = new ZplLabel();
+      label.image(5, 5, { width: 16, height: 2, bytesPerRow: 2, data }, { compression: 'hex' });
+      expect(label.getCommandString()).toEqual('^XA^FO5,5,0^GFA,4,4,2,FF00FF00^FS^XZ');
+    });
+
+    test('throws if [options.width] is not set for raw bitmap data', () => {
+      expect(() => new ZplLabel().image(0, 0, data)).toThrow(TypeError);
+    });
+  });
+
+  describe('field data', () => {
+    test('escapes command prefixes and control characters with ^FH', () => {
+      const label = new ZplLabel();
+      label.text(0, 0, 'A^FS~JR_\t');
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^FWN,0^FH_^FDA_5EFS_7EJR_5F_09^FS^XZ');
+
+      const plain = new ZplLabel();
+      plain.text(0, 0, 'A_B');
+      expect(plain.getCommandString()).toContain('^FDA_B^FS');
+    });
+
+    test('escapes recalled data', () => {
+      const label = new ZplLabel({ format: { name: 'asset' } });
+      label.text(0, 0, { field: 1 });
+      expect(label.getRecallCommandString({ 1: '^XZ' })).toEqual('^XA^XFR:ASSET.ZPL^FS^FN1^FH_^FD_5EXZ^FS^XZ');
+    });
+
+    test('throws on unsafe data when [options.fieldData] is strict', () => {
+      expect(() => new ZplLabel({ fieldData: 'strict' }).text(0, 0, 'A^FS')).toThrow(TypeError);
+    });
+
+    test('keeps data as is when [options.fieldData] is raw', () => {
+      const label = new ZplLabel({ fieldData: 'raw' });
+      label.text(0, 0, 'A^FS^FO0,50^FDB');
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^FWN,0^FDA^FS^FO0,50^FDB^FS^XZ');
+    });
+  });
+
+  describe('character encoding', () => {
+    test('sets the character set and encodes field data in [options.encoding]', () => {
+      const label = new ZplLabel({ encoding: 'utf-8' });
+      label.text(0, 0, 'Ünïcødé €');
+      expect(label.getCommandString()).toEqual('^XA^CI28^FO0,0,0^FWN,0^FDÜnïcødé €^FS^XZ');
+      expect(Buffer.from(label.getCommandBuffer()).toString('utf-8')).toEqual(label.getCommandString());
+    });
+
+    test('encodes field data in a code page', () => {
+      const label = new ZplLabel({ encoding: 'cp850' });
+      label.text(0, 0, 'é');
+      expect([ ...label.getCommandBuffer() ]).toContain(0x82);
+      expect(label.getCommandString()).toContain('^CI13');
+    });
+
+    test('throws if field data cannot be represented in [options.encoding]', () => {
+      expect(() => new ZplLabel({ encoding: 'cp1252' }).text(0, 0, 'Привет')).toThrow(TypeError);
+    });
+
+    test('throws when encoding characters above a single byte without [options.encoding]', () => {
+      const label = new ZplLabel();
+      label.text(0, 0, '€');
+      expect(() => label.getCommandBuffer()).toThrow(TypeError);
+    });
+  });
+
+  describe('settings(settings)', () => {
+    test('emits the label settings at the start of the format', () => {
+      const label = new ZplLabel({ width: 400, settings: { home: { x: 10, y: 20 }, reverse: true } });
+      label.text(0, 0, 'A');
+      label.settings({ shift: -5, top: 3, mirror: false, invert: true });
+      expect(label.getCommandString()).toEqual('^XA^PW400^LH10,20^LS-5^LT3^LRY^PMN^POI^FO0,0,0^FWN,0^FDA^FS^XZ');
+    });
+
+    test('converts offsets to dots in the units of the label', () => {
+      const label = new ZplLabel({ unit: 'in', dpi: 203, settings: { home: { x: 0.1, y: 0.2 }, top: -0.05 } });
+      expect(label.getCommandString()).toEqual('^XA^LH20,41^LT-10^XZ');
+    });
+
+    test('keeps previous settings and removes undefined settings', () => {
+      const label = new ZplLabel({ settings: { shift: 10, reverse: true } });
+      label.settings({ reverse: undefined, mirror: true });
+      expect(label.getCommandString()).toEqual('^XA^LS10^PMY^XZ');
+    });
+
+    test('throws if an offset is out of range', () => {
+      expect(() => new ZplLabel().settings({ top: 200 })).toThrow(RangeError);
+      expect(() => new ZplLabel({ unit: 'in', dpi: 300 }).settings({ home: { x: -1, y: 0 } })).toThrow(RangeError);
+    });
+  });
+
+  describe('elements', () => {
+    test('returns an element for each drawing call, with its bounds in the units of the label', () => {
+      const label = new ZplLabel({ unit: 'in', dpi: 100 });
+      const box = label.box(0.1, 0.2, 1, 0.5, { borderThickness: 0.02 });
+      const text = label.text(0.5, 1, 'Hi', { font: { name: '0', width: 0.2 } });
+
+      expect(label.elements).toEqual([ box, text ]);
+      expect(box).toMatchObject({ type: 'box', x: 0.1, y: 0.2, options: { width: 1, height: 0.5, borderThickness: 0.02 } });
+      expect(box.bounds).toMatchObject({ x: 0.1, y: 0.2, width: 1, height: 0.5 });
+      expect(text).toMatchObject({ type: 'text', data: 'Hi' });
+      expect(text.bounds.y).toBeCloseTo(1);
+      expect(text.bounds.height).toBeCloseTo(0.2);
+    });
+
+    test('draws the commands of moved, removed and reordered elements again', () => {
+      const label = new ZplLabel();
+      const first  = label.text(0, 0, 'A', { orientation: 'top-down' });
+      const box    = label.box(10, 10, 20, 20);
+      label.text(0, 50, 'B', { orientation: 'top-down' });
+
+      label.move(box, 30, 40);
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^FWR,0^FDA^FS^FO30,40,0^GB20,20,1,B,0^FS^FO0,50,0^FDB^FS^XZ');
+
+      label.remove(first).bringToFront(box);
+      expect(label.getCommandString()).toEqual('^XA^FO0,50,0^FWR,0^FDB^FS^FO30,40,0^GB20,20,1,B,0^FS^XZ');
+      expect(box.bounds).toMatchObject({ x: 30, y: 40 });
+    });
+
+    test('moves lines by their start', () => {
+      const label = new ZplLabel();
+      const line = label.line(10, 10, 50, 10, { thickness: 2 });
+      label.move(line, 20, 30);
+      expect(label.getCommandString()).toEqual('^XA^FO20,30,0^GB40,0,2,B,0^FS^XZ');
+    });
+
+    test('returns the element of a comment, to remove it later', () => {
+      const label = new ZplLabel();
+      const comment = label.comment('note');
+      expect(comment).toMatchObject({ type: 'comment', data: 'note' });
+      expect(label.getCommandString()).toEqual('^XA^FXnote^XZ');
+      label.remove(comment);
+      expect(label.getCommandString()).toEqual('^XA^XZ');
+    });
+
+    test('finds elements and hit-tests them from front to back', () => {
+      const label = new ZplLabel();
+      const back  = label.box(0, 0, 100, 100);
+      const front = label.box(50, 50, 100, 100);
+      label.comment('note');
+
+      expect(label.find(element => element.type === 'box' && element.x === 50)).toBe(front);
+      expect(label.find(element => element.type === 'ellipse')).toBeUndefined();
+      expect(label.elementsAt(75, 75)).toEqual([ front, back ]);
+      expect(label.elementsAt(10, 10)).toEqual([ back ]);
+      expect(label.elementsAt(200, 200)).toEqual([]);
+    });
+
+    test('estimates the bounds of symbols that are not previewed', () => {
+      const label = new ZplLabel();
+      const dataMatrix = label.dataMatrix(10, 10, 'ABC');
+      const pdf417 = label.pdf417(100, 10, 'ABC');
+
+      expect(dataMatrix.bounds).toEqual(expect.objectContaining({ x: 10, y: 10, width: 20, height: 20 }));
+      expect(pdf417.bounds.width).toBeGreaterThan(0);
+      expect(pdf417.bounds.height).toBeGreaterThan(0);
+      expect(label.elementsAt(20, 20)).toEqual([ dataMatrix ]);
+      expect(label.elementsAt(150, 20)).toEqual([ pdf417 ]);
+    });
+
+    test('frees the variable fields of removed elements', () => {
+      const label = new ZplLabel({ format: { name: 'asset' } });
+      label.remove(label.text(0, 0, { field: 1 }));
+      label.text(0, 10, { field: 1 });
+      expect(label.getCommandString()).toEqual('^XA^DFR:ASSET.ZPL^FS^FO0,10,0^FWN,0^FN1^FS^XZ');
+    });
+
+    test('throws if an element is moved out of bounds or is not on the label', () => {
+      const label = new ZplLabel({ width: 100, height: 100, outOfBounds: 'throw' });
+      const box = label.box(0, 0, 10, 10);
+      expect(() => label.move(box, 95, 0)).toThrow(RangeError);
+      expect(box).toMatchObject({ x: 0, y: 0 });
+      expect(() => label.remove(new ZplLabel().box(0, 0, 1, 1))).toThrow(TypeError);
+    });
+  });
+
+  describe('mount(fragment, x, y, options)', () => {
+    test('translates the fields of a label, including later changes', () => {
+      const sub = new ZplLabel({ width: 100, height: 50 });
+      sub.box(10, 5, 40, 20);
+      const label = new ZplLabel();
+      const fragment = label.mount(sub, 200, 100);
+      sub.text(0, 0, 'A');
+
+      expect(label.getCommandString()).toEqual('^XA^FO210,105,0^GB40,20,1,B,0^FS^FO200,100,0^FWN,0^FDA^FS^XZ');
+      expect(fragment).toMatchObject({ type: 'fragment', x: 200, y: 100 });
+
+      label.move(fragment, 0, 0);
+      expect(label.getCommandString()).toEqual('^XA^FO10,5,0^GB40,20,1,B,0^FS^FO0,0,0^FWN,0^FDA^FS^XZ');
+    });
+
+    test('draws a fragment function with data in the units of the label', () => {
+      const label = new ZplLabel({ unit: 'in', dpi: 100 });
+      label.mount((fragment, name : string) => { fragment.text(0, 0.1, name); }, 1, 2, { data: 'Hi' });
+      expect(label.getCommandString()).toEqual('^XA^FO100,210,0^FWN,0^FDHi^FS^XZ');
+    });
+
+    test('rotates a fragment within its size', () => {
+      const sub = new ZplLabel({ width: 100, height: 50 });
+      sub.box(10, 5, 40, 20);
+      sub.text(0, 0, 'A');
+      const label = new ZplLabel();
+      label.mount(sub, 200, 100, { rotation: 90 });
+      label.text(0, 0, 'B');
+
+      expect(label.getCommandString()).toEqual('^XA^FO225,110,0^GB20,40,1,B,0^FS^FO241,100,0^FWR,0^FDA^FS^FO0,0,0^FWN,0^FDB^FS^XZ');
+    });
+
+    test('throws if the fragment cannot be mounted', () => {
+      const sub = new ZplLabel();
+      sub.image(0, 0, new Uint8Array([ 0xFF ]), { width: 8 });
+      expect(() => new ZplLabel().mount(sub, 0, 0, { rotation: 90 })).toThrow(TypeError);
+      expect(() => new ZplLabel().mount(sub, 0, 0, { rotation: 45 as any })).toThrow(TypeError);
+      expect(() => new ZplLabel().mount('^XA^XZ' as any, 0, 0)).toThrow(TypeError);
+    });
+
+    test('throws if labels would be mounted into each other', () => {
+      const a = new ZplLabel();
+      const b = new ZplLabel();
+      const c = new ZplLabel();
+      expect(() => a.mount(a, 0, 0)).toThrow(TypeError);
+
+      a.mount(b, 0, 0);
+      b.mount(c, 0, 0);
+      expect(() => b.mount(a, 0, 0)).toThrow(TypeError);
+      expect(() => c.mount(a, 0, 0)).toThrow(/mounted into/);
+      expect(() => c.mount(new ZplLabel(), 0, 0)).not.toThrow();
+      expect(b.getCommandString()).toEqual('^XA^XZ');
+    });
+  });
+
+  describe('fromJSON(json) and toJSON()', () => {
+    test('returns the label described in JSON, and the same label from it', () => {
+      const label = new ZplLabel({ unit: 'mm', dpi: '8dpmm', width: 50, height: 30, settings: { shift: 1 } });
+      label.text(2, 2, 'Hello', { font: { name: '0', width: 3 } });
+      label.line(1, 10, 40, 10, { thickness: 2 });
+      label.image(0, 0, new Uint8Array([ 0xF0, 0x0F ]), { width: 4 });
+      label.comment('note');
+      label.print({ quantity: 3 });
+
+      expect(label.toJSON()).toEqual({
+        unit: 'mm', dpi: 203, width: 50, height: 30,
+        settings: { shift: 1 },
+        print: { quantity: 3 },
+        elements: [
+          { type: 'text', x: 2, y: 2, data: 'Hello', options: { font: { name: '0', width: 3 } } },
+          { type: 'line', x: 1, y: 10, options: { width: 39, height: 0, thickness: 2 } },
+          { type: 'image', x: 0, y: 0, data: { width: 4, height: 2, data: 'F00F' } },
+          { type: 'comment', x: 0, y: 0, data: 'note' },
+        ],
+      });
+      expect(ZplLabel.fromJSON(JSON.stringify(label)).getCommandString()).toEqual(label.getCommandString());
+    });
+
+    test('keeps the moved elements and variable fields of a label', () => {
+      const label = new ZplLabel({ format: { name: 'asset' } });
+      const box = label.box(0, 0, 20, 10);
+      label.qrcode(30, 0, { field: 1, default: 'A1' });
+      label.move(box, 5, 5);
+
+      const copy = ZplLabel.fromJSON(label.toJSON());
+      expect(copy.elements.map(({ type, x, y }) => ({ type, x, y }))).toEqual([ { type: 'box', x: 5, y: 5 }, { type: 'qrcode', x: 30, y: 0 } ]);
+      expect(copy.getCommandString()).toEqual(label.getCommandString());
+    });
+
+    test('throws with the path of elements that cannot be drawn', () => {
+      const json = { width: 10, outOfBounds: 'throw' as const, elements: [ { type: 'box' as const, x: 5, y: 0, options: { width: 10, height: 1 } } ] };
+      expect(() => ZplLabel.fromJSON(json)).toThrow(ZplLabelJSONValidationError);
+      expect(() => ZplLabel.fromJSON(json)).toThrow(/"elements\[0\]" \(box from \(5, 0\) to \(15, 1\) is outside/);
+    });
+
+    test('throws with the path of elements out of range', () => {
+      const json = { elements: [ { type: 'box' as const, x: 0, y: 0, options: { width: -5, height: 5, borderRadius: 99 } } ] };
+      expect(() => ZplLabel.fromJSON(json)).toThrow(/"elements\[0\]" \(box width and height should not be negative, got -5x5\)/);
+    });
+
+    test('throws if a fragment is mounted into the label', () => {
+      const label = new ZplLabel();
+      label.mount(new ZplLabel(), 0, 0);
+      expect(() => label.toJSON()).toThrow(TypeError);
+    });
+  });
+
+  describe('stored formats', () => {
+    test('stores the label as a format with variable fields', () => {
+      const label = new ZplLabel({ format: { name: 'asset' } });
+      label.text(10, 10, { field: 1 });
+      label.code128(10, 50, { field: 2, default: '000' });
+      expect(label.getCommandString()).toEqual('^XA^DFR:ASSET.ZPL^FS^FO10,10,0^FWN,0^FN1^FS^FO10,50,0^BCN,,Y,N,,^FN2^FD000^FS^XZ');
+    });
+
+    test('recalls the format with the data of a record', () => {
+      const label = new ZplLabel({ format: { name: 'asset', drive: 'E' } });
+      label.text(10, 10, { field: 1 });
+      label.qrcode(10, 50, { field: 2 });
+      expect(label.getRecallCommandString({ 1: 'Printer', 2: 'SN-42' })).toEqual('^XA^XFE:ASSET.ZPL^FS^FN1^FDPrinter^FS^FN2^FDQA,SN-42^FS^XZ');
+    });
+
+    test('validates recalled data like field data', () => {
+      const label = new ZplLabel({ format: { name: 'asset' } });
+      label.ean13(0, 0, { field: 1 });
+      expect(label.getRecallCommandString({ 1: '4006381333931' })).toEqual('^XA^XFR:ASSET.ZPL^FS^FN1^FD400638133393^FS^XZ');
+      expect(() => label.getRecallCommandString({ 1: 'ABC' })).toThrow(TypeError);
+    });
+
+    test('throws if a variable field is used without a format', () => {
+      expect(() => new ZplLabel().text(0, 0, { field: 1 })).toThrow(TypeError);
+    });
+
+    test('uses a variable field in several elements', () => {
+      const label = new ZplLabel({ format: { name: 'asset' } });
+      label.text(0, 0, { field: 1 });
+      label.code128(0, 20, { field: 1 });
+      expect(label.getCommandString()).toEqual('^XA^DFR:ASSET.ZPL^FS^FO0,0,0^FWN,0^FN1^FS^FO0,20,0^BCN,,Y,N,,^FN1^FS^XZ');
+      expect(label.getRecallCommandString({ 1: 'SN-42' })).toEqual('^XA^XFR:ASSET.ZPL^FS^FN1^FDSN-42^FS^XZ');
+    });
+
+    test('throws when recalling a variable field whose elements expect different data', () => {
+      const label = new ZplLabel({ format: { name: 'asset' } });
+      label.text(0, 0, { field: 1 });
+      label.qrcode(0, 20, { field: 1 });
+      expect(() => label.getRecallCommandString({ 1: 'SN-42' })).toThrow(TypeError);
+    });
+
+    test('throws when recalling unknown fields', () => {
+      const label = new ZplLabel({ format: { name: 'asset' } });
+      expect(() => label.getRecallCommandString({ 3: 'x' })).toThrow(TypeError);
+      expect(() => new ZplLabel().getRecallCommandString({})).toThrow(TypeError);
+    });
+  });
+
+  describe('serial fields', () => {
+    test('adds a numeric serial field with leading zeros', () => {
+      const label = new ZplLabel();
+      label.text(10, 10, { serial: '1', padding: 5 });
+      expect(label.getCommandString()).toEqual('^XA^FO10,10,0^FWN,0^SN00001,1,Y^FS^XZ');
+    });
+
+    test('adds a masked serial field', () => {
+      const label = new ZplLabel();
+      label.code128(10, 10, { serial: 'AB0099', mask: '%%dddd', increment: 2 });
+      expect(label.getCommandString()).toEqual('^XA^FO10,10,0^BCN,,Y,N,,^FDAB0099^SF%%dddd,2^FS^XZ');
+    });
+
+    test('keeps the mode of a QR code out of the serialized value', () => {
+      const label = new ZplLabel();
+      label.qrcode(0, 10, { serial: '1', padding: 4 });
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^BQ,2,,Q,^FDQA,0001^SFdddd,1^FS^XZ');
+    });
+
+    test('throws if the serial field is invalid', () => {
+      expect(() => new ZplLabel().text(0, 0, { serial: 'A1' })).toThrow(TypeError);
+      expect(() => new ZplLabel().text(0, 0, { serial: '1', mask: 'x' })).toThrow(TypeError);
+      expect(() => new ZplLabel().text(0, 0, { serial: '1', increment: 'A' })).toThrow(TypeError);
+    });
+  });
+
+  describe('print(options)', () => {
+    test('adds the print quantity before the end of the label', () => {
+      const label = new ZplLabel();
+      label.text(0, 0, { serial: '100', increment: -1 });
+      label.print({ quantity: 10, replicates: 2 });
+      expect(label.getCommandString()).toEqual('^XA^FO0,0,0^FWN,0^SN100,-1,N^FS^PQ10,,2,,^XZ');
+    });
+
+    test('pauses and cuts after a number of labels', () => {
+      const label = new ZplLabel().print({ quantity: 100, pauseEvery: 25, cutOnError: true });
+      expect(label.getCommandString()).toEqual('^XA^PQ100,25,,N,Y^XZ');
+    });
+
+    test('throws if the quantity is not a positive integer', () => {
+      expect(() => new ZplLabel().print({ quantity: 0 })).toThrow(RangeError);
+      expect(() => new ZplLabel().print({ replicates: 1.5 })).toThrow(RangeError);
+    });
+  });
+
+  describe('toCommandSet(), toPNG(options) and toSVG(options)', () => {
+    test('returns the commands of the complete label', () => {
+      const label = new ZplLabel().print({ quantity: 2 });
+      expect(label.toCommandSet().getCommandString()).toEqual(label.getCommandString());
+    });
+
+    test('returns a PNG preview of the label', () => {
+      const png = new ZplLabel({ width: 2, height: 1, unit: 'in', dpi: 203 }).toPNG();
+      expect([ ...png.subarray(1, 4) ]).toEqual([ 0x50, 0x4E, 0x47 ]);
+      expect(Buffer.from(png).readUInt32BE(16)).toEqual(406);
+    });
+
+    test('returns an SVG preview of the label', () => {
+      const label = new ZplLabel({ width: 2, height: 1, unit: 'in', dpi: 203 });
+      label.code39(0.1, 0.1, 'ABC');
+      expect(label.toSVG()).toMatch(/^<svg [^>]*width="192" height="96" viewBox="0 0 406 203"/);
+      expect(label.toSVG()).toContain('>*ABC*</text>');
+    });
+  });
+})